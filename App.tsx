@@ -17,10 +17,12 @@ import {
   Clock,
   GraduationCap,
   Mail,
-  RefreshCw
+  RefreshCw,
+  ArrowLeftRight,
+  CalendarDays
 } from 'lucide-react';
 import { useDataStore } from './services/storage';
-import { auth } from './services/firebase'; // Import auth for manual reload
+import { authService } from './services/repository'; // Import auth for manual reload
 import { Home } from './components/Home';
 import { Dashboard } from './components/Dashboard';
 import { EmployeeList } from './components/EmployeeList';
@@ -30,19 +32,25 @@ import { UserList } from './components/UserList';
 import { Bonus } from './components/Bonus';
 import { AuditLog } from './components/AuditLog';
 import { Training } from './components/Training';
+import { Swaps } from './components/Swaps';
+import { Leaves } from './components/Leaves';
 import { Login } from './components/Login';
 import { NavItem } from './components/NavItem';
 import { Toast } from './components/ui/Toast';
+import { SyncStatus } from './components/SyncStatus';
 import { TabName, User } from './types';
 import { TRANSLATIONS } from './constants';
 
 function App() {
   const { 
-    employees, teams, users, settings, planning, bonuses, logs, trainings, notifications,
+    employees, teams, users, settings, planning, planningDrafts, draftRanges, planningMeta, draftPlanning,
+    pendingWrites, planningConflicts, isOnline, isSyncing, retryPendingWrites, dismissPlanningConflicts, keepPlanningConflictValue, planningMode, setPlanningMode, bonuses, logs, trainings, notifications, swapRequests, leaveRequests, leaveAdjustments,
     authLoading, usersLoading, settingsLoading, firebaseUser, permissionError, login, signUp, logout, resendVerification,
     addEmployee, updateEmployee, deleteEmployee,
-    updateSettings, addTeam, updateTeam, deleteTeam,
-    setPlanningItem, addUser, updateUser, deleteUser,
+    updateSettings, addTeam, updateTeam, deleteTeam, repairTeamIntegrity,
+    setPlanningItem, setPlanningItems, publishPlanning, discardPlanningDrafts, setPlanningLock, getPlanningHistory, setPlanningCellMeta, setPlanningWindow,
+    createSwapRequest, respondToSwapRequest, cancelSwapRequest, decideSwapRequest,
+    createLeaveRequest, cancelLeaveRequest, decideLeaveRequest, addLeaveAdjustment, addUser, updateUser, deleteUser,
     setBonus, addTraining, updateTraining, deleteTraining, notify
   } = useDataStore();
 
@@ -84,11 +92,11 @@ function App() {
   }, [isAdmin, employees, visibleTeams, firebaseUser]);
 
   const handleCheckVerification = async () => {
-    if (!auth.currentUser) return;
+    if (!authService.getCurrentUser()) return;
     setIsCheckingVerification(true);
     try {
-        await auth.currentUser.reload();
-        if (auth.currentUser.emailVerified) {
+        const user = await authService.reload();
+        if (user?.emailVerified) {
             window.location.reload();
         } else {
             notify(settings.language === 'fr' ? "Email non vérifié. Veuillez cliquer sur le lien reçu." : "Email not verified yet. Please click the link.", "error");
@@ -102,6 +110,21 @@ function App() {
 
   const t = TRANSLATIONS[settings.language];
 
+  // Shown in the mobile header and in the sidebar on large screens
+  const syncStatus = (
+    <SyncStatus
+      settings={settings}
+      employees={employees}
+      isOnline={isOnline}
+      isSyncing={isSyncing}
+      pendingWrites={pendingWrites}
+      conflicts={planningConflicts}
+      onRetry={retryPendingWrites}
+      onDismissConflicts={dismissPlanningConflicts}
+      onKeepConflictValue={keepPlanningConflictValue}
+    />
+  );
+
   if (authLoading || (firebaseUser && (usersLoading || settingsLoading))) {
      return (
         <div className="h-screen flex items-center justify-center bg-gray-50">
@@ -237,6 +260,7 @@ function App() {
             <Users size={28} />
             <span className="text-xl font-bold text-white tracking-tight">Team LP</span>
           </div>
+          <div className="ml-auto hidden lg:block">{syncStatus}</div>
           <button 
             className="ml-auto lg:hidden text-slate-400"
             onClick={() => setIsMobileMenuOpen(false)}
@@ -251,6 +275,8 @@ function App() {
           <NavItem tab="dashboard" icon={LayoutDashboard} label={t.dashboard} activeTab={activeTab} setActiveTab={setActiveTab} setIsMobileMenuOpen={setIsMobileMenuOpen} />
           <NavItem tab="employees" icon={Users} label={t.employees} activeTab={activeTab} setActiveTab={setActiveTab} setIsMobileMenuOpen={setIsMobileMenuOpen} />
           <NavItem tab="planning" icon={Calendar} label={t.planning} activeTab={activeTab} setActiveTab={setActiveTab} setIsMobileMenuOpen={setIsMobileMenuOpen} />
+          <NavItem tab="leaves" icon={CalendarDays} label={t.leaves} activeTab={activeTab} setActiveTab={setActiveTab} setIsMobileMenuOpen={setIsMobileMenuOpen} />
+          <NavItem tab="swaps" icon={ArrowLeftRight} label={t.swaps} activeTab={activeTab} setActiveTab={setActiveTab} setIsMobileMenuOpen={setIsMobileMenuOpen} />
           <NavItem tab="training" icon={GraduationCap} label={t.training} activeTab={activeTab} setActiveTab={setActiveTab} setIsMobileMenuOpen={setIsMobileMenuOpen} />
           <NavItem tab="bonus" icon={Award} label={t.bonus} activeTab={activeTab} setActiveTab={setActiveTab} setIsMobileMenuOpen={setIsMobileMenuOpen} />
           
@@ -296,6 +322,7 @@ function App() {
             <Menu size={24} />
           </button>
           <span className="ml-4 font-semibold text-gray-800">Team LP</span>
+          <div className="ml-auto">{syncStatus}</div>
         </header>
 
         <main className="flex-1 overflow-auto p-4 md:p-8" role="main">
@@ -309,8 +336,10 @@ function App() {
                 employees={visibleEmployees} 
                 teams={visibleTeams}
                 planning={planning} 
+                planningMeta={planningMeta}
                 lang={settings.language}
                 settings={settings}
+                onSetPlanningWindow={setPlanningWindow}
               />
             )}
             
@@ -323,6 +352,11 @@ function App() {
                 onUpdate={updateEmployee}
                 onDelete={deleteEmployee}
                 notify={notify}
+                planning={planning}
+                planningMeta={planningMeta}
+                leaveAdjustments={leaveAdjustments}
+                onAddLeaveAdjustment={addLeaveAdjustment}
+                onSetPlanningWindow={setPlanningWindow}
               />
             )}
 
@@ -331,9 +365,52 @@ function App() {
                 employees={visibleEmployees} 
                 teams={visibleTeams}
                 settings={settings} 
-                planning={planning}
+                planning={currentUser.role !== 'viewer' && planningMode === 'draft' ? draftPlanning : planning}
                 currentUser={currentUser}
                 onUpdatePlanning={setPlanningItem}
+                onBulkUpdatePlanning={setPlanningItems}
+                drafts={planningDrafts}
+                draftRanges={draftRanges}
+                planningMode={planningMode}
+                onChangePlanningMode={setPlanningMode}
+                onPublishPlanning={publishPlanning}
+                onDiscardDrafts={discardPlanningDrafts}
+                onLoadHistory={getPlanningHistory}
+                leaveRequests={leaveRequests}
+                planningMeta={planningMeta}
+                onUpdateCellMeta={setPlanningCellMeta}
+                onSetPlanningWindow={setPlanningWindow}
+              />
+            )}
+
+            {activeTab === 'leaves' && (
+              <Leaves
+                employees={employees}
+                teams={teams}
+                planning={planning}
+                leaveRequests={leaveRequests}
+                currentUser={currentUser}
+                settings={settings}
+                onCreate={createLeaveRequest}
+                onCancel={cancelLeaveRequest}
+                onDecide={decideLeaveRequest}
+              />
+            )}
+
+            {activeTab === 'swaps' && (
+              <Swaps
+                employees={employees}
+                teams={teams}
+                planning={planning}
+                planningMeta={planningMeta}
+                swapRequests={swapRequests}
+                currentUser={currentUser}
+                settings={settings}
+                onCreate={createSwapRequest}
+                onRespond={respondToSwapRequest}
+                onCancel={cancelSwapRequest}
+                onDecide={decideSwapRequest}
+                onSetPlanningWindow={setPlanningWindow}
               />
             )}
 
@@ -356,9 +433,12 @@ function App() {
                 employees={visibleEmployees}
                 teams={visibleTeams}
                 bonuses={bonuses}
+                planning={planning}
+                planningMeta={planningMeta}
                 settings={settings}
                 onUpdateBonus={setBonus}
                 currentUser={currentUser}
+                onSetPlanningWindow={setPlanningWindow}
               />
             )}
 
@@ -388,9 +468,11 @@ function App() {
                 teams={teams} 
                 employees={employees} 
                 onUpdateSettings={updateSettings}
+                onSetPlanningLock={setPlanningLock}
                 onAddTeam={addTeam}
                 onUpdateTeam={updateTeam}
                 onDeleteTeam={deleteTeam}
+                onRepairTeamIntegrity={repairTeamIntegrity}
               />
             )}
           </div>
@@ -1,9 +1,11 @@
 
 // Add React to the imports to fix missing React namespace and name errors
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { AppSettings, Bonus as BonusType, Employee, Team, User } from '../types';
+import { AppSettings, Bonus as BonusType, Employee, Team, User, PlanningData, PlanningMeta, PlanningWindow } from '../types';
 import { TRANSLATIONS } from '../constants';
-import { Filter, Award, Search, History, Download, FileText, Image as ImageIcon, ChevronLeft, ChevronRight, ChevronDown, LayoutList, Grid, Lock, Layers } from 'lucide-react';
+import { computeMonthlyPremiums } from '../services/premiums';
+import { getMonthRange } from '../services/hours';
+import { Filter, Award, Search, History, Download, FileText, Image as ImageIcon, ChevronLeft, ChevronRight, ChevronDown, LayoutList, Grid, Lock, Layers, Moon } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -12,13 +14,16 @@ interface BonusProps {
   employees: Employee[];
   teams: Team[];
   bonuses: BonusType[];
+  planning: PlanningData;
+  planningMeta: PlanningMeta;
   settings: AppSettings;
   currentUser: User;
   onUpdateBonus: (empId: number, month: string, amount: number) => void;
+  onSetPlanningWindow: (id: string, window: PlanningWindow | null) => void;
 }
 
 // Fixed: React.FC requires React to be imported
-export const Bonus: React.FC<BonusProps> = ({ employees, teams, bonuses, settings, currentUser, onUpdateBonus }) => {
+export const Bonus: React.FC<BonusProps> = ({ employees, teams, bonuses, planning, planningMeta, settings, currentUser, onUpdateBonus, onSetPlanningWindow }) => {
   const t = TRANSLATIONS[settings.language];
   const historyRef = useRef<HTMLDivElement>(null);
   
@@ -30,6 +35,12 @@ export const Bonus: React.FC<BonusProps> = ({ employees, teams, bonuses, setting
 
   const [selectedTeam, setSelectedTeam] = useState<string>('');
   const [selectedMonth, setSelectedMonth] = useState<string>(currentMonthStr);
+
+  // Premiums are computed from the selected month's planning
+  useEffect(() => {
+    onSetPlanningWindow('bonus', getMonthRange(selectedMonth));
+    return () => onSetPlanningWindow('bonus', null);
+  }, [selectedMonth, onSetPlanningWindow]);
   const [searchTerm, setSearchTerm] = useState('');
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
   
@@ -154,6 +165,87 @@ export const Bonus: React.FC<BonusProps> = ({ employees, teams, bonuses, setting
       return str.charAt(0).toUpperCase() + str.slice(1);
   };
 
+  // --- Premium Hours Export (every active employee of the team, not only bonus-eligible ones) ---
+  const handlePremiumExport = () => {
+      setIsExportMenuOpen(false);
+      const fr = settings.language === 'fr';
+      const filename = `${fr ? 'heures_majorees' : 'premium_hours'}_${selectedMonth}_${new Date().toISOString().slice(0, 10)}`;
+      const editionDate = new Date().toLocaleString(fr ? 'fr-FR' : 'en-US');
+      const { from } = getMonthRange(selectedMonth);
+      const effectiveTeamFilter = isManager && managedTeam ? String(managedTeam.id) : selectedTeam;
+      const tiers = [...settings.premiumRules.overtimeTiers].sort((a, b) => a - b);
+      const staff = employees
+          .filter(emp => (effectiveTeamFilter ? emp.teamId?.toString() === effectiveTeamFilter : true) && (!emp.exitDate || emp.exitDate >= from))
+          .sort((a, b) => a.firstName.localeCompare(b.firstName));
+
+      let tableContent = `
+        <html>
+        <head>
+        <meta charset="UTF-8">
+        <style>
+          table { border-collapse: collapse; width: 100%; font-family: sans-serif; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+          th { background-color: #f2f2f2; }
+          .meta { font-size: 12px; color: #666; margin-bottom: 10px; }
+          .header { font-size: 18px; font-weight: bold; margin-bottom: 5px; }
+        </style>
+        </head>
+        <body>
+          <div class="header">${fr ? 'Heures majorées' : 'Premium Hours'}</div>
+          <div class="meta">
+            <strong>${fr ? 'Mois' : 'Month'}:</strong> ${formatMonthHeader(selectedMonth)}<br/>
+            <strong>${fr ? 'Nuit' : 'Night'}:</strong> ${settings.premiumRules.nightStart} - ${settings.premiumRules.nightEnd}<br/>
+            <strong>${fr ? 'Édité le' : 'Edited on'}:</strong> ${editionDate}<br/>
+            <strong>${fr ? 'Par' : 'By'}:</strong> ${currentUser.name}
+          </div>
+          <br/>
+          <table>
+            <thead>
+              <tr>
+                <th>${fr ? 'Employé' : 'Employee'}</th>
+                <th>${fr ? 'Matricule' : 'ID'}</th>
+                <th>${fr ? 'Heures' : 'Hours'}</th>
+                <th>${fr ? 'Nuit' : 'Night'}</th>
+                <th>${fr ? 'Dimanche / repos' : 'Weekend'}</th>
+                <th>${fr ? 'Fériés' : 'Holidays'}</th>
+                ${tiers.map((threshold, index) => `<th>${fr ? 'Heures sup.' : 'Overtime'} ${index + 1 < tiers.length ? `${threshold}-${tiers[index + 1]}h` : `> ${threshold}h`}</th>`).join('')}
+              </tr>
+            </thead>
+            <tbody>
+      `;
+
+      staff.forEach(emp => {
+          const premiums = computeMonthlyPremiums(planning, emp.id, settings, selectedMonth, planningMeta);
+          tableContent += `
+              <tr>
+                <td>${emp.firstName} ${emp.lastName}</td>
+                <td>${emp.matricule}</td>
+                <td>${premiums.total}</td>
+                <td>${premiums.night}</td>
+                <td>${premiums.weekend}</td>
+                <td>${premiums.holiday}</td>
+                ${premiums.overtime.map(hours => `<td>${hours}</td>`).join('')}
+              </tr>
+          `;
+      });
+
+      tableContent += `
+            </tbody>
+          </table>
+        </body>
+        </html>
+      `;
+
+      const blob = new Blob([tableContent], { type: 'application/vnd.ms-excel' });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", `${filename}.xls`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+  };
+
   // --- Monthly Export Logic ---
   const handleMonthlyExport = (type: 'pdf' | 'excel') => {
       setIsExportMenuOpen(false);
@@ -426,9 +518,12 @@ export const Bonus: React.FC<BonusProps> = ({ employees, teams, bonuses, setting
                             <button onClick={() => handleMonthlyExport('pdf')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2 border-b border-gray-50">
                                 <FileText size={14} /> {settings.language === 'fr' ? 'Rapport PDF' : 'PDF Report'}
                             </button>
-                            <button onClick={() => handleMonthlyExport('excel')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                            <button onClick={() => handleMonthlyExport('excel')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2 border-b border-gray-50">
                                 <FileText size={14} /> Excel (.xls)
                             </button>
+                            <button onClick={handlePremiumExport} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                <Moon size={14} /> {settings.language === 'fr' ? 'Heures majorées (.xls)' : 'Premium hours (.xls)'}
+                            </button>
                         </div>
                     )}
                     {isExportMenuOpen && <div className="fixed inset-0 z-40" onClick={() => setIsExportMenuOpen(false)}></div>}
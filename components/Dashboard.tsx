@@ -1,17 +1,22 @@
 
-import React, { useState, useMemo } from 'react';
-import { Users, UserCheck, UserX, BarChart as BarChartIcon, Calendar, Briefcase, Clock, MapPin } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Users, UserCheck, UserX, BarChart as BarChartIcon, Calendar, Briefcase, Clock, MapPin, Target } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, Legend } from 'recharts';
-import { Employee, PlanningData, AppSettings, Team } from '../types';
+import { Employee, PlanningData, AppSettings, Team, PlanningMeta, PlanningWindow } from '../types';
 import { TRANSLATIONS } from '../constants';
 import { Modal } from './ui/Modal';
+import { findCoverageGaps } from '../services/coverage';
+import { addDays, getDateRange, parseLocalDate } from '../services/planning';
+import { getCellParts, isPartialCell, isWorkingCell } from '../services/cellDetails';
 
 interface DashboardProps {
   employees: Employee[];
   teams: Team[];
   planning: PlanningData;
+  planningMeta: PlanningMeta;
   lang: AppSettings['language'];
   settings: AppSettings;
+  onSetPlanningWindow: (id: string, window: PlanningWindow | null) => void;
 }
 
 const StatCard = ({ title, value, icon: Icon, colorClass, bgClass, onClick }: any) => (
@@ -31,7 +36,7 @@ const StatCard = ({ title, value, icon: Icon, colorClass, bgClass, onClick }: an
   </div>
 );
 
-export const Dashboard: React.FC<DashboardProps> = ({ employees, teams, planning, lang, settings }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ employees, teams, planning, planningMeta, lang, settings, onSetPlanningWindow }) => {
   const t = TRANSLATIONS[lang];
   
   // State for the selected date (default to today)
@@ -59,34 +64,51 @@ export const Dashboard: React.FC<DashboardProps> = ({ employees, teams, planning
     });
   }, [settings.holidays, selectedDate]);
 
-  // 1. GLOBAL COUNTS
-  const presentEmployees = activeEmployees.filter(emp => {
-    const shift = getEmployeeStatus(emp.id);
-    const isAbsent = settings.absenceTypes.some(a => a.name === shift) || shift === 'Repos';
-    return shift && !isAbsent;
-  });
+  const getEmployeeMeta = (empId: number) => {
+    return planningMeta[`${empId}_${selectedDate}`];
+  };
+
+  // 1. GLOBAL COUNTS (an employee working half the day, or with a partial absence, counts as present)
+  const presentEmployees = activeEmployees.filter(emp => isWorkingCell(getEmployeeStatus(emp.id), getEmployeeMeta(emp.id), settings));
   
-  const absentEmployees = activeEmployees.filter(emp => {
-     const shift = getEmployeeStatus(emp.id);
-     const isAbsent = settings.absenceTypes.some(a => a.name === shift) || shift === 'Repos';
-     return !shift || isAbsent;
-  });
+  const absentEmployees = activeEmployees.filter(emp => !isWorkingCell(getEmployeeStatus(emp.id), getEmployeeMeta(emp.id), settings));
+
+  const partialEmployees = presentEmployees.filter(emp => isPartialCell(getEmployeeStatus(emp.id), getEmployeeMeta(emp.id), settings));
 
   // 2. SHIFT & ABSENCE DISTRIBUTION (Clickable)
   const shiftCounts: Record<string, Employee[]> = {};
   
   activeEmployees.forEach(emp => {
-      const status = getEmployeeStatus(emp.id);
-      if (status) {
-          if (!shiftCounts[status]) shiftCounts[status] = [];
-          shiftCounts[status].push(emp);
-      }
+      // Both values of a half-day cell are counted
+      getCellParts(getEmployeeStatus(emp.id), getEmployeeMeta(emp.id)).forEach(({ value }) => {
+          if (!shiftCounts[value]) shiftCounts[value] = [];
+          if (!shiftCounts[value].includes(emp)) shiftCounts[value].push(emp);
+      });
   });
 
   const shiftsConfig = settings.shifts;
   const absenceConfig = settings.absenceTypes;
 
-  // 3. CHARTS DATA
+  // 3. COVERAGE GAPS (selected date + N days)
+  const [gapDays, setGapDays] = useState(7);
+
+  useEffect(() => {
+    onSetPlanningWindow('dashboard', { from: selectedDate, to: addDays(selectedDate, gapDays - 1) });
+    return () => onSetPlanningWindow('dashboard', null);
+  }, [selectedDate, gapDays, onSetPlanningWindow]);
+  const coverageGaps = useMemo(() => {
+    if (settings.coverageTargets.length === 0) return [];
+    return findCoverageGaps(
+      planning,
+      employees,
+      settings,
+      teams.map(tm => tm.id),
+      getDateRange(selectedDate, addDays(selectedDate, gapDays - 1)),
+      planningMeta
+    );
+  }, [planning, planningMeta, employees, teams, settings, selectedDate, gapDays]);
+
+  // 4. CHARTS DATA
   const categoryCounts = activeEmployees.reduce((acc, emp) => {
     acc[emp.category] = (acc[emp.category] || 0) + 1;
     return acc;
@@ -100,7 +122,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ employees, teams, planning
   }, {} as Record<string, number>);
   const assignmentChartData = Object.entries(assignmentCounts).map(([name, value]) => ({ name, value }));
 
-  // 4. TEAM RECAP DATA
+  // 5. TEAM RECAP DATA
   const teamStats = teams.map(team => {
       const members = employees.filter(e => e.teamId === team.id && !e.exitDate);
       const total = members.length;
@@ -180,7 +202,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ employees, teams, planning
         />
         <StatCard 
           title={t.stats_present} 
-          value={presentEmployees.length} 
+          value={<>
+            {presentEmployees.length}
+            {partialEmployees.length > 0 && <span className="text-sm font-medium text-gray-400 ml-2">({partialEmployees.length} {lang === 'fr' ? 'partiel(s)' : 'partial'})</span>}
+          </>} 
           icon={UserCheck} 
           colorClass="text-green-600" 
           bgClass="bg-green-50"
@@ -302,6 +327,55 @@ export const Dashboard: React.FC<DashboardProps> = ({ employees, teams, planning
             </div>
       </div>
 
+      {/* COVERAGE GAPS */}
+      {settings.coverageTargets.length > 0 && (
+        <div className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-bold text-gray-700 uppercase flex items-center gap-2">
+                    <Target size={16} className="text-red-500" />
+                    {lang === 'fr' ? 'Sous-effectifs à venir' : 'Upcoming coverage gaps'}
+                    <span className="ml-1 px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-[10px]">{coverageGaps.length}</span>
+                </h3>
+                <select
+                    value={gapDays}
+                    onChange={(e) => setGapDays(Number(e.target.value))}
+                    className="text-xs font-semibold border border-gray-200 rounded-lg px-2 py-1 bg-white text-gray-600 outline-none"
+                >
+                    {[7, 14, 30].map(n => (
+                        <option key={n} value={n}>{n} {lang === 'fr' ? 'jours' : 'days'}</option>
+                    ))}
+                </select>
+            </div>
+            {coverageGaps.length === 0 ? (
+                <p className="text-sm text-green-600 italic">
+                    {lang === 'fr' ? 'Tous les objectifs sont atteints sur la période.' : 'All targets are met over the period.'}
+                </p>
+            ) : (
+                <div className="max-h-72 overflow-y-auto divide-y divide-gray-100 -mx-2">
+                    {coverageGaps.map(gap => {
+                        const team = teams.find(tm => tm.id == gap.teamId);
+                        const shift = settings.shifts.find(s => s.name === gap.shift);
+                        return (
+                            <div key={`${gap.date}_${gap.teamId}_${gap.shift}`} className="flex items-center justify-between px-2 py-2 text-sm">
+                                <div className="flex items-center gap-3 min-w-0">
+                                    <span className="text-xs font-semibold text-gray-500 w-24 shrink-0 capitalize">
+                                        {parseLocalDate(gap.date).toLocaleDateString(lang === 'fr' ? 'fr-FR' : 'en-US', { weekday: 'short', day: 'numeric', month: 'short' })}
+                                    </span>
+                                    <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: shift?.color || '#9ca3af' }}></div>
+                                    <span className="font-medium text-gray-800 truncate">{team?.name || '?'} · {gap.shift}</span>
+                                </div>
+                                <span className={`px-2 py-0.5 rounded text-xs font-black shrink-0 ${gap.status === 'under' ? 'bg-red-50 text-red-600' : 'bg-orange-50 text-orange-600'}`}>
+                                    {gap.count}/{gap.target}
+                                    <span className="font-medium opacity-70"> (min. {gap.min})</span>
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+      )}
+
       {/* TEAM OVERVIEW TABLE */}
       <div className="bg-white rounded-xl border border-gray-200 shadow-sm flex flex-col overflow-hidden">
              <div className="p-6 border-b border-gray-100">
@@ -1,10 +1,12 @@
 
-import React, { useState, useRef, useMemo } from 'react';
-import { Search, Plus, Edit2, Trash2, Filter, User, LogOut, ChevronLeft, ChevronRight, Calendar, Download, FileText, Image as ImageIcon, ChevronDown, RotateCcw, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
-import { Employee, AppSettings, User as UserType } from '../types';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Search, Plus, Edit2, Trash2, Filter, User, LogOut, ChevronLeft, ChevronRight, Calendar, Download, FileText, Image as ImageIcon, ChevronDown, RotateCcw, ArrowUpDown, ArrowUp, ArrowDown, Wallet } from 'lucide-react';
+import { Employee, AppSettings, User as UserType, PlanningData, PlanningMeta, LeaveAdjustment, PlanningWindow } from '../types';
 import { Button } from './ui/Button';
 import { Modal } from './ui/Modal';
 import { TRANSLATIONS, formatDisplayDate } from '../constants';
+import { computeLeaveLedger, getBalanceTypes, summarizeLedger, LedgerEntry } from '../services/balances';
+import { toLocalISO } from '../services/planning';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -17,12 +19,17 @@ interface EmployeeListProps {
   onUpdate: (id: number, emp: Partial<Employee>) => void;
   onDelete: (id: number) => void;
   notify: (message: string, type: 'success' | 'error' | 'info') => void;
+  planning: PlanningData;
+  planningMeta: PlanningMeta;
+  leaveAdjustments: LeaveAdjustment[];
+  onAddLeaveAdjustment: (data: Pick<LeaveAdjustment, 'employeeId' | 'absenceType' | 'date' | 'days' | 'reason'>) => Promise<void>;
+  onSetPlanningWindow: (id: string, window: PlanningWindow | null) => void;
 }
 
 type SortKey = 'name' | 'category' | 'assignment' | 'entryDate' | 'status';
 type SortDirection = 'asc' | 'desc' | null;
 
-export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings, currentUser, onAdd, onUpdate, onDelete, notify }) => {
+export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings, currentUser, onAdd, onUpdate, onDelete, notify, planning, planningMeta, leaveAdjustments, onAddLeaveAdjustment, onSetPlanningWindow }) => {
   const t = TRANSLATIONS[settings.language];
   const tableRef = useRef<HTMLDivElement>(null);
   
@@ -49,6 +56,11 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings,
   const [exitDate, setExitDate] = useState('');
   
   // Deletion Confirmation State
+  // Leave Balance Modal
+  const [balanceEmployee, setBalanceEmployee] = useState<Employee | null>(null);
+  const [balanceType, setBalanceType] = useState('');
+  const [adjustmentForm, setAdjustmentForm] = useState({ date: toLocalISO(new Date()), days: 0, reason: '' });
+
   const [deleteConfirmation, setDeleteConfirmation] = useState<{ isOpen: boolean, empId: number | null }>({ isOpen: false, empId: null });
 
   // Form State
@@ -184,6 +196,32 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings,
     setIsExitModalOpen(true);
   };
   
+  const handleOpenBalanceModal = (emp: Employee) => {
+    setBalanceEmployee(emp);
+    setBalanceType(getBalanceTypes(settings, leaveAdjustments)[0] || '');
+    setAdjustmentForm({ date: toLocalISO(new Date()), days: 0, reason: '' });
+  };
+
+  // The ledger replays the employee's whole history
+  useEffect(() => {
+    if (!balanceEmployee) return;
+    onSetPlanningWindow('balance', { from: balanceEmployee.entryDate || `${new Date().getFullYear()}-01-01`, to: `${new Date().getFullYear()}-12-31`, employeeId: balanceEmployee.id });
+    return () => onSetPlanningWindow('balance', null);
+  }, [balanceEmployee, onSetPlanningWindow]);
+
+  // Replayed up to the end of the current year: planned leave and future accruals give the projected balance
+  const balanceLedger = useMemo((): LedgerEntry[] => {
+    if (!balanceEmployee || !balanceType) return [];
+    return computeLeaveLedger(planning, balanceEmployee, balanceType, settings, leaveAdjustments, `${new Date().getFullYear()}-12-31`, planningMeta);
+  }, [balanceEmployee, balanceType, planning, planningMeta, settings, leaveAdjustments]);
+
+  const handleAddAdjustment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!balanceEmployee || !balanceType) return;
+    await onAddLeaveAdjustment({ employeeId: balanceEmployee.id, absenceType: balanceType, date: adjustmentForm.date, days: adjustmentForm.days, reason: adjustmentForm.reason });
+    setAdjustmentForm({ ...adjustmentForm, days: 0, reason: '' });
+  };
+
   const confirmDelete = (id: number) => {
       setDeleteConfirmation({ isOpen: true, empId: id });
   };
@@ -361,8 +399,11 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings,
   };
 
   const renderActions = (emp: Employee) => (
-    isAdmin && (
-      <div className="flex items-center justify-end gap-1">
+    <div className="flex items-center justify-end gap-1">
+      <button onClick={() => handleOpenBalanceModal(emp)} className="p-1.5 hover:bg-teal-50 text-teal-600 rounded-lg transition-colors" title={settings.language === 'fr' ? 'Soldes de congés' : 'Leave balances'}>
+        <Wallet size={16} />
+      </button>
+      {isAdmin && (<>
         <button onClick={() => handleOpenExitModal(emp)} className="p-1.5 hover:bg-orange-50 text-orange-600 rounded-lg transition-colors" title={t.exit_management}>
           <LogOut size={16} />
         </button>
@@ -372,8 +413,8 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings,
         <button onClick={() => confirmDelete(emp.id)} className="p-1.5 hover:bg-red-50 text-red-600 rounded-lg transition-colors">
           <Trash2 size={16} />
         </button>
-      </div>
-    )
+      </>)}
+    </div>
   );
 
   return (
@@ -489,11 +530,9 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings,
                         </div>
                     </div>
                     
-                    {isAdmin && (
-                      <div className="border-t pt-3 flex justify-end">
-                          {renderActions(emp)}
-                      </div>
-                    )}
+                    <div className="border-t pt-3 flex justify-end">
+                        {renderActions(emp)}
+                    </div>
                 </div>
             ))
          ) : (
@@ -522,7 +561,7 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings,
                 <th className="px-6 py-4 cursor-pointer hover:bg-gray-100 transition-colors" onClick={() => handleSort('status')}>
                   <div className="flex items-center gap-2">Status <SortIndicator column="status" /></div>
                 </th>
-                {isAdmin && <th className="px-6 py-4 text-right">Actions</th>}
+                <th className="px-6 py-4 text-right">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
@@ -562,16 +601,14 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings,
                          <span className="text-xs text-green-600 font-medium">Active</span>
                        )}
                     </td>
-                    {isAdmin && (
-                      <td className="px-6 py-3 text-right">
-                        {renderActions(emp)}
-                      </td>
-                    )}
+                    <td className="px-6 py-3 text-right">
+                      {renderActions(emp)}
+                    </td>
                   </tr>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={isAdmin ? 7 : 6} className="px-6 py-12 text-center text-gray-400">
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-400">
                     <div className="flex flex-col items-center justify-center gap-3">
                       <User size={32} className="opacity-50" />
                       <p>No employees found</p>
@@ -757,6 +794,95 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, settings,
           </div>
         </form>
       </Modal>
+
+      <Modal
+        isOpen={!!balanceEmployee}
+        onClose={() => setBalanceEmployee(null)}
+        title={`${settings.language === 'fr' ? 'Soldes de congés' : 'Leave balances'} - ${balanceEmployee?.firstName || ''} ${balanceEmployee?.lastName || ''}`}
+        size="lg"
+      >
+        {(() => {
+          const types = getBalanceTypes(settings, leaveAdjustments);
+          if (types.length === 0) {
+            return <p className="text-sm text-gray-400 italic">{settings.language === 'fr' ? 'Aucune règle d\'acquisition configurée.' : 'No accrual rule configured.'}</p>;
+          }
+          const today = toLocalISO(new Date());
+          const year = String(new Date().getFullYear());
+          const pastEntries = balanceLedger.filter(e => e.date <= today);
+          const currentBalance = pastEntries.length > 0 ? pastEntries[pastEntries.length - 1].balance : 0;
+          const yearSummary = summarizeLedger(balanceType, balanceLedger.filter(e => e.date.startsWith(year)));
+          const kindLabels: Record<LedgerEntry['kind'], string> = settings.language === 'fr'
+            ? { accrual: 'Acquisition', taken: 'Pris', adjustment: 'Ajustement', expired: 'Report perdu' }
+            : { accrual: 'Accrual', taken: 'Taken', adjustment: 'Adjustment', expired: 'Expired carry-over' };
+          return (
+            <div className="space-y-5">
+              <div className="flex flex-wrap gap-2">
+                {types.map(type => (
+                  <button key={type} onClick={() => setBalanceType(type)} className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${balanceType === type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}>
+                    {type}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {[
+                  { label: settings.language === 'fr' ? 'Solde actuel' : 'Current balance', value: currentBalance, strong: true },
+                  { label: settings.language === 'fr' ? `Fin ${year} (prévu)` : `End of ${year} (projected)`, value: yearSummary.balance, strong: true },
+                  { label: settings.language === 'fr' ? `Acquis ${year}` : `Accrued ${year}`, value: yearSummary.accrued },
+                  { label: settings.language === 'fr' ? `Pris ${year}` : `Taken ${year}`, value: yearSummary.taken },
+                  { label: settings.language === 'fr' ? `Perdus ${year}` : `Expired ${year}`, value: yearSummary.expired }
+                ].map(card => (
+                  <div key={card.label} className="p-3 rounded-xl border border-gray-100 bg-gray-50">
+                    <div className="text-[10px] font-bold text-gray-400 uppercase">{card.label}</div>
+                    <div className={`text-lg font-black ${card.strong ? (card.value < 0 ? 'text-red-600' : 'text-gray-800') : 'text-gray-600'}`}>{card.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="max-h-72 overflow-y-auto border border-gray-100 rounded-xl">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-50 text-[10px] uppercase text-gray-400 font-bold sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2">Date</th>
+                      <th className="px-4 py-2">{settings.language === 'fr' ? 'Mouvement' : 'Movement'}</th>
+                      <th className="px-4 py-2 text-right">{settings.language === 'fr' ? 'Jours' : 'Days'}</th>
+                      <th className="px-4 py-2 text-right">{settings.language === 'fr' ? 'Solde' : 'Balance'}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-50">
+                    {[...balanceLedger].reverse().map((entry, index) => (
+                      <tr key={index} className={entry.date > today ? 'text-gray-400 italic' : 'text-gray-700'}>
+                        <td className="px-4 py-2 text-xs">{formatDisplayDate(entry.date, settings.dateFormat)}</td>
+                        <td className="px-4 py-2 text-xs"><span className="font-semibold">{kindLabels[entry.kind]}</span> <span className="text-gray-400">{entry.label}</span></td>
+                        <td className={`px-4 py-2 text-xs text-right font-mono ${entry.days < 0 ? 'text-red-500' : 'text-green-600'}`}>{entry.days > 0 ? '+' : ''}{entry.days}</td>
+                        <td className="px-4 py-2 text-xs text-right font-mono font-bold">{entry.balance}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {isAdmin && (
+                <form onSubmit={handleAddAdjustment} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end bg-gray-50 p-4 rounded-xl border border-gray-100">
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">Date</label>
+                    <input type="date" required value={adjustmentForm.date} onChange={e => setAdjustmentForm({ ...adjustmentForm, date: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white" />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">{settings.language === 'fr' ? 'Jours (+/-)' : 'Days (+/-)'}</label>
+                    <input type="number" step={0.5} value={adjustmentForm.days} onChange={e => setAdjustmentForm({ ...adjustmentForm, days: Number(e.target.value) })} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white" />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase mb-1">{settings.language === 'fr' ? 'Motif' : 'Reason'}</label>
+                    <input type="text" required value={adjustmentForm.reason} onChange={e => setAdjustmentForm({ ...adjustmentForm, reason: e.target.value })} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white" />
+                  </div>
+                  <Button type="submit" size="sm">{settings.language === 'fr' ? 'Ajuster' : 'Adjust'}</Button>
+                </form>
+              )}
+            </div>
+          );
+        })()}
+      </Modal>
     </div>
   );
 };
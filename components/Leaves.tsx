@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { AppSettings, Employee, LeaveRequest, PlanningData, Team, User } from '../types';
+import { TRANSLATIONS, formatDisplayDate } from '../constants';
+import { Check, X, Send, Ban, Clock, CalendarDays } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { buildLeaveChanges } from '../services/leaves';
+import { toLocalISO } from '../services/planning';
+
+interface LeavesProps {
+  employees: Employee[];
+  teams: Team[];
+  planning: PlanningData;
+  leaveRequests: LeaveRequest[];
+  currentUser: User;
+  settings: AppSettings;
+  onCreate: (data: Pick<LeaveRequest, 'employeeId' | 'from' | 'to' | 'absenceType' | 'comment'>) => Promise<void>;
+  onCancel: (id: number) => Promise<void>;
+  onDecide: (id: number, approve: boolean, comment?: string) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<LeaveRequest['status'], string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+export const Leaves: React.FC<LeavesProps> = ({ employees, teams, planning, leaveRequests, currentUser, settings, onCreate, onCancel, onDecide }) => {
+  const t = TRANSLATIONS[settings.language];
+  const isFr = settings.language === 'fr';
+  const isAdmin = currentUser.role === 'admin';
+  const me = employees.find(e => e.id == currentUser.employeeId);
+  const today = toLocalISO(new Date());
+  const requestableTypes = settings.absenceTypes.filter(a => a.name !== 'Repos');
+
+  const [form, setForm] = useState({ from: '', to: '', absenceType: requestableTypes[0]?.name || '', comment: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [decision, setDecision] = useState<{ request: LeaveRequest; approve: boolean } | null>(null);
+  const [decisionComment, setDecisionComment] = useState('');
+
+  const statusLabels: Record<LeaveRequest['status'], string> = {
+    pending: isFr ? 'En attente' : 'Pending',
+    approved: isFr ? 'Validé' : 'Approved',
+    rejected: isFr ? 'Refusé' : 'Rejected',
+    cancelled: isFr ? 'Annulé' : 'Cancelled'
+  };
+
+  const getName = (id: number) => {
+    const emp = employees.find(e => e.id == id);
+    return emp ? `${emp.firstName} ${emp.lastName}` : String(id);
+  };
+
+  const ledTeams = teams.filter(team => currentUser.employeeId != null && team.leaderId == currentUser.employeeId);
+  const isMine = (request: LeaveRequest) => currentUser.employeeId != null && request.employeeId == currentUser.employeeId;
+  // Nobody decides on their own request
+  const canDecide = (request: LeaveRequest) => !isMine(request) && (isAdmin || ledTeams.some(team => team.members.some(m => m == request.employeeId)));
+
+  const myRequests = leaveRequests.filter(r => isMine(r) && r.status === 'pending');
+  const toApprove = leaveRequests.filter(r => r.status === 'pending' && canDecide(r));
+  const history = leaveRequests.filter(r => r.status !== 'pending' && (isMine(r) || canDecide(r)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!me || !form.from || !form.to || !form.absenceType) return;
+    setIsSubmitting(true);
+    await onCreate({ employeeId: me.id, from: form.from, to: form.to, absenceType: form.absenceType, comment: form.comment.trim() });
+    setIsSubmitting(false);
+    setForm({ ...form, from: '', to: '', comment: '' });
+  };
+
+  const handleDecision = async () => {
+    if (!decision) return;
+    await onDecide(decision.request.id, decision.approve, decisionComment);
+    setDecision(null);
+    setDecisionComment('');
+  };
+
+  const renderRequest = (request: LeaveRequest, actions?: React.ReactNode) => {
+    const absence = settings.absenceTypes.find(a => a.name === request.absenceType);
+    const days = request.status === 'pending' ? Object.keys(buildLeaveChanges(planning, request, settings)).length : null;
+    return (
+      <div key={request.id} className="p-4 border-b border-gray-100 last:border-0 space-y-2">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span className="font-semibold">{getName(request.employeeId)}</span>
+            <span className="px-2 py-0.5 rounded text-xs font-bold" style={{ backgroundColor: `${absence?.color || '#9ca3af'}20`, color: absence?.color || '#6b7280' }}>{request.absenceType}</span>
+            <span className="text-gray-500">{formatDisplayDate(request.from, settings.dateFormat)} → {formatDisplayDate(request.to, settings.dateFormat)}</span>
+            {days !== null && <span className="text-xs text-gray-400">({days} {isFr ? 'jour(s) posé(s)' : 'day(s) booked'})</span>}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${STATUS_STYLES[request.status]}`}>{statusLabels[request.status]}</span>
+            {actions}
+          </div>
+        </div>
+        {request.comment && <p className="text-xs text-gray-500 italic">"{request.comment}"</p>}
+        {request.decisionComment && <p className="text-xs text-gray-600">{isFr ? 'Réponse' : 'Answer'}: {request.decisionComment}</p>}
+        {request.decidedAt && (
+          <p className="text-[10px] text-gray-400 flex items-center gap-1"><Clock size={10} /> {request.decidedBy} - {new Date(request.decidedAt).toLocaleString(isFr ? 'fr-FR' : 'en-US')}</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderSection = (title: string, items: LeaveRequest[], render: (request: LeaveRequest) => React.ReactNode) => (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+        <h3 className="font-bold text-gray-700 text-sm">{title}</h3>
+        <span className="text-xs font-bold text-gray-400">{items.length}</span>
+      </div>
+      {items.length === 0
+        ? <p className="p-4 text-sm text-gray-400 italic">{isFr ? 'Aucune demande' : 'No request'}</p>
+        : items.map(render)}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">{t.leaves}</h2>
+        <p className="text-gray-500">{isFr ? 'Demandez un congé ; une fois validé par le chef d\'équipe, il est reporté automatiquement dans le planning.' : 'Request leave; once approved by the team leader, it is written to the planning automatically.'}</p>
+      </div>
+
+      {me ? (
+        <form onSubmit={handleSubmit} className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm space-y-4">
+          <h3 className="font-bold text-gray-700 text-sm">{isFr ? 'Nouvelle demande' : 'New request'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-500 mb-1">{t.start_date}</label>
+              <input type="date" required min={today} value={form.from} onChange={e => setForm({ ...form, from: e.target.value, to: form.to && form.to < e.target.value ? e.target.value : form.to })} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 mb-1">{t.end_date}</label>
+              <input type="date" required min={form.from || today} value={form.to} onChange={e => setForm({ ...form, to: e.target.value })} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 mb-1">{isFr ? 'Motif' : 'Type'}</label>
+              <select required value={form.absenceType} onChange={e => setForm({ ...form, absenceType: e.target.value })} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20">
+                {requestableTypes.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <textarea value={form.comment} onChange={e => setForm({ ...form, comment: e.target.value })} rows={2} placeholder={isFr ? 'Commentaire (optionnel)' : 'Comment (optional)'} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+          <div className="flex justify-end">
+            <Button type="submit" icon={Send} disabled={isSubmitting}>{isFr ? 'Envoyer' : 'Send'}</Button>
+          </div>
+        </form>
+      ) : (
+        <div className="bg-amber-50 border border-amber-200 text-amber-700 text-sm rounded-xl p-4">
+          {isFr ? 'Votre compte n\'est lié à aucun employé : vous ne pouvez pas demander de congé.' : 'Your account is not linked to an employee: you cannot request leave.'}
+        </div>
+      )}
+
+      {me && renderSection(isFr ? 'Mes demandes' : 'My requests', myRequests, request => renderRequest(request,
+        <Button size="xs" variant="ghost" icon={Ban} onClick={() => onCancel(request.id)}>{isFr ? 'Annuler' : 'Cancel'}</Button>
+      ))}
+
+      {(isAdmin || ledTeams.length > 0) && renderSection(isFr ? 'À valider' : 'To approve', toApprove, request => renderRequest(request, <>
+        <Button size="xs" variant="danger" icon={X} onClick={() => setDecision({ request, approve: false })}>{isFr ? 'Refuser' : 'Reject'}</Button>
+        <Button size="xs" icon={Check} onClick={() => setDecision({ request, approve: true })}>{isFr ? 'Valider' : 'Approve'}</Button>
+      </>))}
+
+      {renderSection(isFr ? 'Historique' : 'History', history, request => renderRequest(request))}
+
+      <Modal isOpen={!!decision} onClose={() => setDecision(null)} title={decision?.approve ? (isFr ? 'Valider le congé' : 'Approve leave') : (isFr ? 'Refuser le congé' : 'Reject leave')} size="sm">
+        {decision && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-gray-700">
+              <CalendarDays size={16} className="text-gray-400" />
+              <span className="font-semibold">{getName(decision.request.employeeId)}</span>
+              <span>{decision.request.absenceType}</span>
+              <span className="text-gray-500">{formatDisplayDate(decision.request.from, settings.dateFormat)} → {formatDisplayDate(decision.request.to, settings.dateFormat)}</span>
+            </div>
+            {decision.approve && (
+              <p className="text-xs text-gray-500">{isFr ? 'Les jours fériés et les jours déjà en absence (repos, maladie...) sont conservés.' : 'Public holidays and days already set to an absence (rest, sick leave...) are kept.'}</p>
+            )}
+            <textarea value={decisionComment} onChange={e => setDecisionComment(e.target.value)} rows={3} placeholder={isFr ? 'Commentaire (optionnel)' : 'Comment (optional)'} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setDecision(null)}>{t.cancel}</Button>
+              <Button variant={decision.approve ? 'primary' : 'danger'} icon={decision.approve ? Check : X} onClick={handleDecision}>
+                {decision.approve ? (isFr ? 'Valider' : 'Approve') : (isFr ? 'Refuser' : 'Reject')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
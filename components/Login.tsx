@@ -1,8 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { Lock, Mail, Loader2, Users, User } from 'lucide-react';
-import { auth } from '../services/firebase';
-import { setPersistence, browserLocalPersistence, browserSessionPersistence } from 'firebase/auth';
+import { authService } from '../services/repository';
 
 interface LoginProps {
   onLogin: (email: string, pass: string) => Promise<boolean>;
@@ -39,7 +38,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin, onSignUp, notify }) => {
     try {
         if (!isSignUp) {
             // CRITICAL: Set persistence BEFORE login
-            await setPersistence(auth, rememberMe ? browserLocalPersistence : browserSessionPersistence);
+            await authService.setPersistence(rememberMe);
             
             const success = await onLogin(email, password);
             if (success) {
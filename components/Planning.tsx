@@ -1,9 +1,22 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Clock, RotateCcw, UserX, ChevronLeft, ChevronRight, Calendar as CalendarIcon, Download, Grid, CalendarDays, FileText, Image as ImageIcon, Filter as FilterIcon, ChevronDown, Trash2, Zap, Coffee } from 'lucide-react';
-import { Employee, AppSettings, PlanningData, Team, User } from '../types';
+import { Clock, RotateCcw, UserX, ChevronLeft, ChevronRight, Calendar as CalendarIcon, Download, Grid, CalendarDays, Image as ImageIcon, Filter as FilterIcon, ChevronDown, Trash2, Zap, Coffee, Repeat, Copy, ArrowRight, AlertTriangle, Wand2, FilePen, Send, EyeOff, Lock, History, Timer, SplitSquareVertical, Hourglass, StickyNote, Paperclip, FileUp } from 'lucide-react';
+import { Employee, AppSettings, PlanningData, Team, User, RuleViolation, PlanningHistoryEntry, LeaveRequest, PlanningMeta, PlanningCellMeta, PlanningWindow } from '../types';
 import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
 import { TRANSLATIONS } from '../constants';
+import { toLocalISO, addDays, findHoliday, planningKey, parsePlanningKey, buildPeriodCopyChanges, groupDateRanges, isDateLocked, getDateRange, getIsoWeek, getWeekStart, parseLocalDate, formatDisplayDateLocal } from '../services/planning';
+import { buildRotationEntries, formatRotationSequence } from '../services/rotation';
+import { validatePlanning, describeViolation } from '../services/laborRules';
+import { computeDayCoverage, CoverageStatus } from '../services/coverage';
+import { computeHours, getMonthRange } from '../services/hours';
+import { getPendingLeaveByCell } from '../services/leaves';
+import { formatCellLabel, getCurrentDetails, getPartialAbsence } from '../services/cellDetails';
+import { PlanningDraftRangesDocument } from '../services/repository';
+import { PlanningIcsModal } from './PlanningIcsModal';
+import { PlanningImportModal } from './PlanningImportModal';
+import { PlanningHoursModal } from './PlanningHoursModal';
+import { PlanningSchedulerModal } from './PlanningSchedulerModal';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -15,16 +28,36 @@ interface PlanningProps {
   planning: PlanningData;
   currentUser: User;
   onUpdatePlanning: (employeeId: number, dateStr: string, shiftName: string | null) => void;
+  onBulkUpdatePlanning: (changes: Record<string, string | null>, action: string, details: string) => void;
+  drafts: Record<string, string | null>;
+  draftRanges: PlanningDraftRangesDocument[];
+  planningMode: 'live' | 'draft';
+  onChangePlanningMode: (mode: 'live' | 'draft') => void;
+  onPublishPlanning: (teamId: number | null, from: string, to: string) => void;
+  onDiscardDrafts: (teamId: number | null, from: string, to: string) => void;
+  onLoadHistory: (key: string) => Promise<PlanningHistoryEntry[]>;
+  leaveRequests: LeaveRequest[];
+  planningMeta: PlanningMeta;
+  onUpdateCellMeta: (key: string, patch: Partial<PlanningCellMeta>) => void;
+  onSetPlanningWindow: (id: string, window: PlanningWindow | null) => void;
 }
 
-const toLocalISO = (date: Date) => {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
+type GridPosition = { row: number; col: number };
+
+// Diagonal hatching for cells in the locked period
+const LOCKED_CELL_STYLE: React.CSSProperties = { backgroundImage: 'repeating-linear-gradient(135deg, #f3f4f6 0, #f3f4f6 4px, transparent 4px, transparent 8px)' };
+
+// Hatching for cells covered by a leave request awaiting approval
+const PENDING_LEAVE_STYLE: React.CSSProperties = { backgroundImage: 'repeating-linear-gradient(45deg, rgba(245, 158, 11, 0.25) 0, rgba(245, 158, 11, 0.25) 3px, transparent 3px, transparent 7px)' };
+
+const COVERAGE_STYLES: Record<CoverageStatus, string> = {
+  under: 'bg-red-50 text-red-600',
+  short: 'bg-orange-50 text-orange-600',
+  ok: 'bg-green-50 text-green-600',
+  over: 'bg-blue-50 text-blue-600'
 };
 
-export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings, planning, currentUser, onUpdatePlanning }) => {
+export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings, planning, currentUser, onUpdatePlanning, onBulkUpdatePlanning, drafts, draftRanges, planningMode, onChangePlanningMode, onPublishPlanning, onDiscardDrafts, onLoadHistory, leaveRequests, planningMeta, onUpdateCellMeta, onSetPlanningWindow }) => {
   const t = TRANSLATIONS[settings.language];
   const printRef = useRef<HTMLDivElement>(null);
   
@@ -35,15 +68,59 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
     return toLocalISO(d);
   });
   const [daysToShow, setDaysToShow] = useState(14);
+  // 'days' shows `daysToShow` days from `startDate`; 'month' a calendar month; 'range' a custom from/to period
+  const [periodMode, setPeriodMode] = useState<'days' | 'month' | 'range'>('days');
   const [selectedCell, setSelectedCell] = useState<{empId: number, date: string} | null>(null);
+  // Rectangular selection (drag or shift-click) on the desktop grid
+  const [dragSelection, setDragSelection] = useState<{ anchor: GridPosition; focus: GridPosition } | null>(null);
+  const [bulkCells, setBulkCells] = useState<{empId: number, date: string}[]>([]);
+  const isDragging = useRef(false);
+  const selectionAnchor = useRef<GridPosition | null>(null);
   const [employeeSearch, setEmployeeSearch] = useState('');
   const [teamFilter, setTeamFilter] = useState('');
   const [mobileMonth, setMobileMonth] = useState(new Date());
   const [mobileSelectedEmpId, setMobileSelectedEmpId] = useState<number | null>(null);
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
 
+  // Tool modals, mounted while open
+  const [isIcsModalOpen, setIsIcsModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isHoursModalOpen, setIsHoursModalOpen] = useState(false);
+  const [isSchedulerModalOpen, setIsSchedulerModalOpen] = useState(false);
+
+  // Copy Period State
+  const [isCopyModalOpen, setIsCopyModalOpen] = useState(false);
+  const [copyForm, setCopyForm] = useState({ targetFrom: '', repeat: 1, includeEmpty: false });
+
+  // Rotation State
+  const [isRotationModalOpen, setIsRotationModalOpen] = useState(false);
+  const [rotationForm, setRotationForm] = useState({
+    patternId: '',
+    target: 'team' as 'team' | 'employee',
+    teamId: '',
+    employeeId: '',
+    from: '',
+    to: '',
+    offset: 0,
+    skipHolidays: true
+  });
+
+  // Cell History State (null = not loaded)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [cellHistory, setCellHistory] = useState<PlanningHistoryEntry[] | null>(null);
+
+  // Cell Details State (half-days and partial absence)
+  const [detailForm, setDetailForm] = useState({ mode: 'full' as 'full' | 'half' | 'partial', secondHalf: '', absence: '', start: '', end: '' });
+  const [noteForm, setNoteForm] = useState({ note: '', attachmentName: '', attachmentUrl: '' });
+
+  // Publish State
+  const [isPublishModalOpen, setIsPublishModalOpen] = useState(false);
+  const [publishForm, setPublishForm] = useState({ teamId: '', from: '', to: '' });
+
   const managedTeam = teams.find(t => t.leaderId === currentUser.employeeId);
   const isManager = currentUser.role === 'manager' && !!managedTeam;
+  // Viewers only see the published planning
+  const canEdit = currentUser.role !== 'viewer';
 
   useEffect(() => {
     if (isManager && managedTeam) setTeamFilter(String(managedTeam.id));
@@ -61,17 +138,185 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
     }).sort((a, b) => a.firstName.localeCompare(b.firstName));
   }, [employees, employeeSearch, teamFilter, isManager, managedTeam]);
 
+  // Only the displayed days (and the period of the open tool) are downloaded; the store adds the labor rule context
+  useEffect(() => {
+    onSetPlanningWindow('planning', { from: startDate, to: addDays(startDate, daysToShow - 1) });
+    return () => onSetPlanningWindow('planning', null);
+  }, [startDate, daysToShow, onSetPlanningWindow]);
+
+  useEffect(() => {
+    if (mobileView !== 'calendar') return;
+    const month = toLocalISO(mobileMonth).substring(0, 7);
+    onSetPlanningWindow('planning-mobile', getMonthRange(month));
+    return () => onSetPlanningWindow('planning-mobile', null);
+  }, [mobileView, mobileMonth, onSetPlanningWindow]);
+
+  const toolWindow = useMemo(() => {
+    if (isCopyModalOpen && copyForm.targetFrom) return { from: copyForm.targetFrom, to: addDays(copyForm.targetFrom, daysToShow * copyForm.repeat - 1) };
+    if (isRotationModalOpen) return { from: rotationForm.from, to: rotationForm.to };
+    if (isPublishModalOpen) return { from: publishForm.from, to: publishForm.to };
+    return null;
+  }, [isCopyModalOpen, copyForm, daysToShow, isRotationModalOpen, rotationForm, isPublishModalOpen, publishForm]);
+
+  useEffect(() => {
+    if (!toolWindow || !toolWindow.from || !toolWindow.to || toolWindow.from > toolWindow.to) return;
+    onSetPlanningWindow('planning-tool', toolWindow);
+    return () => onSetPlanningWindow('planning-tool', null);
+  }, [toolWindow?.from, toolWindow?.to, onSetPlanningWindow]);
+
+  // Labor rule violations for the displayed window
+  const [isViolationsPanelOpen, setIsViolationsPanelOpen] = useState(false);
+  const violations = useMemo(() => {
+    return validatePlanning(planning, filteredEmployees.map(e => e.id), settings, startDate, addDays(startDate, daysToShow - 1), planningMeta)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }, [planning, planningMeta, filteredEmployees, settings, startDate, daysToShow]);
+
+  // Staffing coverage per day for the filtered team (or every visible team)
+  const coverageByDate = useMemo(() => {
+    const effectiveTeamFilter = isManager && managedTeam ? String(managedTeam.id) : teamFilter;
+    const teamIds = effectiveTeamFilter ? [Number(effectiveTeamFilter)] : teams.map(t => t.id);
+    const result: Record<string, ReturnType<typeof computeDayCoverage>> = {};
+    if (settings.coverageTargets.length === 0) return result;
+    for (let i = 0; i < daysToShow; i++) {
+      const dateStr = addDays(startDate, i);
+      result[dateStr] = computeDayCoverage(planning, employees, settings, teamIds, dateStr, planningMeta);
+    }
+    return result;
+  }, [planning, planningMeta, employees, teams, teamFilter, isManager, managedTeam, settings, startDate, daysToShow]);
+
+  // Worked hours over the displayed window
+  const hoursByEmployee = useMemo(() => {
+    const result: Record<number, ReturnType<typeof computeHours>> = {};
+    const endDate = addDays(startDate, daysToShow - 1);
+    filteredEmployees.forEach(emp => { result[emp.id] = computeHours(planning, emp.id, settings, startDate, endDate, planningMeta); });
+    return result;
+  }, [planning, planningMeta, filteredEmployees, settings, startDate, daysToShow]);
+
+  const coveredShifts = settings.shifts.filter(shift => Object.values(coverageByDate).some(day => day.some(c => c.shift === shift.name)));
+
+  const violationsByCell = useMemo(() => {
+    const map: Record<string, RuleViolation[]> = {};
+    violations.forEach(v => {
+      const key = planningKey(v.employeeId, v.date);
+      if (!map[key]) map[key] = [];
+      map[key].push(v);
+    });
+    return map;
+  }, [violations]);
+
+  const pendingLeaveByCell = useMemo(() => getPendingLeaveByCell(leaveRequests), [leaveRequests]);
+
+  const closeAssignmentModal = () => {
+    setSelectedCell(null);
+    setBulkCells([]);
+    setDragSelection(null);
+  };
+
   const handleShiftSelect = (shiftName: string | null) => {
-    if (selectedCell) {
+    if (bulkCells.length > 0) {
+      const changes: Record<string, string | null> = {};
+      bulkCells.forEach(cell => { changes[planningKey(cell.empId, cell.date)] = shiftName; });
+      const cellDates = bulkCells.map(c => c.date).sort();
+      const employeeCount = new Set(bulkCells.map(c => c.empId)).size;
+      onBulkUpdatePlanning(
+        changes,
+        'BULK_UPDATE_PLANNING',
+        `Set ${bulkCells.length} cells (${employeeCount} employees, ${cellDates[0]} - ${cellDates[cellDates.length - 1]}) to "${shiftName || 'empty'}"`
+      );
+      closeAssignmentModal();
+    } else if (selectedCell) {
       onUpdatePlanning(selectedCell.empId, selectedCell.date, shiftName);
-      setSelectedCell(null);
+      closeAssignmentModal();
     }
   };
 
+  useEffect(() => {
+    if (!selectedCell) return;
+    const key = planningKey(selectedCell.empId, selectedCell.date);
+    const meta = getCurrentDetails(planning[key], planningMeta[key]);
+    setDetailForm({
+      mode: meta?.secondHalf ? 'half' : meta?.partialAbsence ? 'partial' : 'full',
+      secondHalf: meta?.secondHalf || '',
+      absence: meta?.partialAbsence?.absence || '',
+      start: meta?.partialAbsence?.start || '',
+      end: meta?.partialAbsence?.end || ''
+    });
+    setNoteForm({ note: meta?.note || '', attachmentName: meta?.attachment?.name || '', attachmentUrl: meta?.attachment?.url || '' });
+  }, [selectedCell, planningMeta, planning]);
+
+  const handleSaveCellDetails = () => {
+    if (!selectedCell) return;
+    const key = planningKey(selectedCell.empId, selectedCell.date);
+    if (detailForm.mode === 'half') {
+      if (!detailForm.secondHalf) return;
+      onUpdateCellMeta(key, { secondHalf: detailForm.secondHalf, partialAbsence: null });
+    } else if (detailForm.mode === 'partial') {
+      if (!detailForm.absence || !detailForm.start || !detailForm.end) return;
+      onUpdateCellMeta(key, { secondHalf: null, partialAbsence: { absence: detailForm.absence, start: detailForm.start, end: detailForm.end } });
+    } else {
+      onUpdateCellMeta(key, { secondHalf: null, partialAbsence: null });
+    }
+    closeAssignmentModal();
+  };
+
+  const handleSaveCellNote = () => {
+    if (!selectedCell) return;
+    const url = noteForm.attachmentUrl.trim();
+    onUpdateCellMeta(planningKey(selectedCell.empId, selectedCell.date), {
+      note: noteForm.note.trim() || null,
+      attachment: url ? { name: noteForm.attachmentName.trim() || url, url } : null
+    });
+    closeAssignmentModal();
+  };
+
+  useEffect(() => {
+    setCellHistory(null);
+    if (!isHistoryOpen || !selectedCell) return;
+    let cancelled = false;
+    onLoadHistory(planningKey(selectedCell.empId, selectedCell.date)).then(entries => {
+      if (!cancelled) setCellHistory(entries);
+    });
+    return () => { cancelled = true; };
+  }, [isHistoryOpen, selectedCell]);
+
   const changeDate = (days: number) => {
-    const d = new Date(startDate);
-    d.setDate(d.getDate() + days);
-    setStartDate(toLocalISO(d));
+    setStartDate(addDays(startDate, days));
+  };
+
+  const showMonth = (month: string) => {
+    const { from, to } = getMonthRange(month);
+    setStartDate(from);
+    setDaysToShow(getDateRange(from, to).length);
+  };
+
+  const changePeriod = (direction: 1 | -1) => {
+    if (periodMode === 'month') {
+      const [year, month] = startDate.split('-').map(Number);
+      const d = new Date(year, month - 1 + direction, 1);
+      showMonth(toLocalISO(d).substring(0, 7));
+    } else {
+      changeDate(direction * daysToShow);
+    }
+  };
+
+  const handlePeriodModeChange = (value: string) => {
+    if (value === 'month') {
+      setPeriodMode('month');
+      showMonth(startDate.substring(0, 7));
+    } else if (value === 'range') {
+      setPeriodMode('range');
+    } else {
+      setPeriodMode('days');
+      setDaysToShow(Number(value));
+    }
+  };
+
+  // Custom range: capped at three months to keep the grid usable
+  const setCustomRange = (from: string, to: string) => {
+    if (!from) return;
+    const end = !to || to < from ? from : to;
+    setStartDate(from);
+    setDaysToShow(Math.min(getDateRange(from, end).length, 92));
   };
 
   const changeMobileMonth = (delta: number) => {
@@ -83,19 +328,69 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
   const getShiftDetails = (name: string) => settings.shifts.find(s => s.name === name);
   const getAbsenceDetails = (name: string) => settings.absenceTypes.find(a => a.name === name);
 
-  const dates: Date[] = [];
-  const current = new Date(startDate);
-  for (let i = 0; i < daysToShow; i++) {
-    dates.push(new Date(current));
-    current.setDate(current.getDate() + 1);
-  }
-
-  const formatDisplayDateLocal = (dateStr: string, format: string) => {
-    const d = new Date(dateStr);
-    const day = String(d.getDate()).padStart(2, '0');
-    const month = String(d.getMonth() + 1).padStart(2, '0');
-    const year = d.getFullYear();
-    return format === 'DD/MM/YYYY' ? `${day}/${month}/${year}` : `${year}-${month}-${day}`;
+  // Displayed days at local midnight; new Date("YYYY-MM-DD") is UTC midnight, the previous day west of Greenwich
+  const dates: Date[] = getDateRange(startDate, addDays(startDate, daysToShow - 1)).map(parseLocalDate);
+
+  // Consecutive displayed days grouped by Monday-Sunday week, for the week header row
+  const weekGroups = dates.reduce((groups, date) => {
+    const weekStart = getWeekStart(toLocalISO(date));
+    const last = groups[groups.length - 1];
+    if (last && last.weekStart === weekStart) last.days++;
+    else groups.push({ weekStart, week: getIsoWeek(toLocalISO(date)), days: 1 });
+    return groups;
+  }, [] as { weekStart: string; week: number; days: number }[]);
+
+  // Thicker left border on Mondays to separate weeks
+  const weekSeparator = (date: Date, colIndex: number) => colIndex > 0 && date.getDay() === 1 ? 'border-l-2 border-l-slate-300' : '';
+
+  // Grid Selection Handlers
+  const handleCellMouseDown = (e: React.MouseEvent, row: number, col: number) => {
+    if (e.button !== 0 || isLocked(toLocalISO(dates[col]))) return;
+    e.preventDefault();
+    const anchor = e.shiftKey && selectionAnchor.current ? selectionAnchor.current : { row, col };
+    selectionAnchor.current = anchor;
+    isDragging.current = true;
+    setDragSelection({ anchor, focus: { row, col } });
+  };
+
+  const handleCellMouseEnter = (row: number, col: number) => {
+    if (isDragging.current) setDragSelection(prev => prev ? { ...prev, focus: { row, col } } : prev);
+  };
+
+  const handleCellMouseUp = (row: number, col: number) => {
+    if (!isDragging.current || !selectionAnchor.current) return;
+    isDragging.current = false;
+    const anchor = selectionAnchor.current;
+    const cells: {empId: number, date: string}[] = [];
+    for (let r = Math.min(anchor.row, row); r <= Math.max(anchor.row, row); r++) {
+      for (let c = Math.min(anchor.col, col); c <= Math.max(anchor.col, col); c++) {
+        if (filteredEmployees[r] && dates[c]) cells.push({ empId: filteredEmployees[r].id, date: toLocalISO(dates[c]) });
+      }
+    }
+    if (cells.length === 1) {
+      setDragSelection(null);
+      setSelectedCell(cells[0]);
+    } else if (cells.length > 1) {
+      setBulkCells(cells);
+    }
+  };
+
+  // Releasing the mouse outside the grid cancels the selection
+  useEffect(() => {
+    const handleWindowMouseUp = () => {
+      if (!isDragging.current) return;
+      isDragging.current = false;
+      setDragSelection(null);
+    };
+    window.addEventListener('mouseup', handleWindowMouseUp);
+    return () => window.removeEventListener('mouseup', handleWindowMouseUp);
+  }, []);
+
+  const isCellInSelection = (row: number, col: number) => {
+    if (!dragSelection) return false;
+    const { anchor, focus } = dragSelection;
+    return row >= Math.min(anchor.row, focus.row) && row <= Math.max(anchor.row, focus.row)
+      && col >= Math.min(anchor.col, focus.col) && col <= Math.max(anchor.col, focus.col);
   };
 
   const handleExport = async (type: 'pdf' | 'image') => {
@@ -125,7 +420,10 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
         
         const body = filteredEmployees.map(emp => [
           `${emp.firstName} ${emp.lastName}`,
-          ...dates.map(date => planning[`${emp.id}_${toLocalISO(date)}`] || '-')
+          ...dates.map(date => {
+            const key = planningKey(emp.id, toLocalISO(date));
+            return formatCellLabel(planning[key], planningMeta[key], settings) || '-';
+          })
         ]);
 
         autoTable(doc, {
@@ -146,8 +444,9 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
           alternateRowStyles: { fillColor: [249, 250, 251] },
           didParseCell: (data) => {
             if (data.section === 'body' && data.column.index > 0) {
-              const val = data.cell.raw as string;
-              if (val && val !== '-') {
+              // Colored after the main value; half-days and partial absences only add text
+              const val = planning[planningKey(filteredEmployees[data.row.index].id, toLocalISO(dates[data.column.index - 1]))];
+              if (val) {
                 const details = getShiftDetails(val) || getAbsenceDetails(val);
                 if (details) {
                   const hex = details.color.replace('#', '');
@@ -168,6 +467,31 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
             doc.text(`Team LP - Generated on ${new Date().toLocaleDateString()}`, 14, pageHeight - 10);
           }
         });
+
+        // Notes and attachments of the exported cells, listed after the grid
+        const notesBody = filteredEmployees.flatMap(emp => dates.map(date => {
+          const dateStr = toLocalISO(date);
+          const meta = planningMeta[planningKey(emp.id, dateStr)];
+          if (!meta?.note && !meta?.attachment) return null;
+          return [
+            `${emp.firstName} ${emp.lastName}`,
+            formatDisplayDateLocal(dateStr, settings.dateFormat),
+            meta.note || '',
+            meta.attachment ? `${meta.attachment.name} (${meta.attachment.url})` : ''
+          ];
+        })).filter((row): row is string[] => row !== null);
+        if (notesBody.length > 0) {
+          doc.addPage();
+          autoTable(doc, {
+            head: [[settings.language === 'fr' ? 'Employé' : 'Employee', 'Date', 'Note', settings.language === 'fr' ? 'Pièce jointe' : 'Attachment']],
+            body: notesBody,
+            startY: 32,
+            styles: { fontSize: 8, cellPadding: 2, lineWidth: 0.1, lineColor: [229, 231, 235] },
+            columnStyles: { 0: { fontStyle: 'bold', cellWidth: 45 }, 1: { cellWidth: 25 } },
+            headStyles: { fillColor: [59, 130, 246], textColor: [255, 255, 255], fontStyle: 'bold' },
+            didDrawPage: () => drawHeader()
+          });
+        }
         doc.save(`${filename}.pdf`);
       } else {
         const target = printRef.current;
@@ -183,15 +507,155 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
     }
   };
 
-  const isHoliday = (dateStr: string) => {
-    return settings.holidays.find(h => {
-        if (h.type === 'civil') {
-            // Compare only Month and Day (MM-DD)
-            return h.date.substring(5) === dateStr.substring(5);
-        }
-        // Compare full date for Religious/Variable
-        return h.date === dateStr;
+  // Unpublished periods per team, listed when publishing
+  const unpublishedRanges = useMemo(() => {
+    const datesByTeam: Record<string, string[]> = {};
+    Object.keys(drafts).forEach(key => {
+      const { employeeId, date } = parsePlanningKey(key);
+      const teamId = employees.find(e => e.id === employeeId)?.teamId;
+      if (teamId == null) return;
+      if (!datesByTeam[teamId]) datesByTeam[teamId] = [];
+      datesByTeam[teamId].push(date);
+    });
+    return Object.keys(datesByTeam)
+      .filter(teamId => teams.some(t => String(t.id) === teamId))
+      .map(teamId => ({ teamId, ranges: groupDateRanges(datesByTeam[teamId]) }));
+  }, [drafts, employees, teams]);
+
+  // Viewers do not load the drafts: they see the periods still being prepared from the public summary
+  const viewerDraftRanges = useMemo(
+    () => draftRanges.filter(summary => summary.ranges.length > 0 && teams.some(t => t.id === summary.teamId)),
+    [draftRanges, teams]
+  );
+
+  const isHoliday = (dateStr: string) => findHoliday(settings.holidays, dateStr);
+  const isLocked = (dateStr: string) => isDateLocked(settings.planningLockedUntil, dateStr);
+
+  // Copy Period Handlers
+  const handleOpenCopyModal = () => {
+    setCopyForm({ targetFrom: addDays(startDate, daysToShow), repeat: 1, includeEmpty: false });
+    setIsCopyModalOpen(true);
+  };
+
+  const copyChanges = useMemo(() => {
+    if (!isCopyModalOpen || !copyForm.targetFrom) return {};
+    return buildPeriodCopyChanges(planning, {
+      employeeIds: filteredEmployees.map(e => e.id),
+      sourceFrom: startDate,
+      days: daysToShow,
+      targetFrom: copyForm.targetFrom,
+      repeat: Math.max(1, copyForm.repeat),
+      includeEmpty: copyForm.includeEmpty
+    });
+  }, [isCopyModalOpen, copyForm, planning, filteredEmployees, startDate, daysToShow]);
+
+  const copyOverwrites = useMemo(() => {
+    return Object.keys(copyChanges)
+      .filter(key => !!planning[key])
+      .map(key => ({ key, ...parsePlanningKey(key), previous: planning[key], next: copyChanges[key] }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }, [copyChanges, planning]);
+
+  const handleApplyCopy = () => {
+    const count = Object.keys(copyChanges).length;
+    if (count === 0) return;
+    const sourceEnd = addDays(startDate, daysToShow - 1);
+    onBulkUpdatePlanning(
+      copyChanges,
+      'COPY_PLANNING',
+      `Copied ${startDate} - ${sourceEnd} (${filteredEmployees.length} employees) to ${copyForm.targetFrom} x${copyForm.repeat} (${count} cells)`
+    );
+    setIsCopyModalOpen(false);
+  };
+
+  // Rotation Handlers
+  const handleOpenRotationModal = () => {
+    const effectiveTeamFilter = isManager && managedTeam ? String(managedTeam.id) : teamFilter;
+    setRotationForm({
+      patternId: settings.rotations[0] ? String(settings.rotations[0].id) : '',
+      target: 'team',
+      teamId: effectiveTeamFilter || (teams[0] ? String(teams[0].id) : ''),
+      employeeId: '',
+      from: startDate,
+      to: addDays(startDate, daysToShow - 1),
+      offset: 0,
+      skipHolidays: true
     });
+    setIsRotationModalOpen(true);
+  };
+
+  const rotationPattern = settings.rotations.find(r => String(r.id) === rotationForm.patternId);
+
+  const rotationEmployeeIds = useMemo(() => {
+    if (rotationForm.target === 'employee') return rotationForm.employeeId ? [Number(rotationForm.employeeId)] : [];
+    return employees
+      .filter(e => !e.exitDate && e.teamId?.toString() === rotationForm.teamId)
+      .map(e => e.id);
+  }, [rotationForm.target, rotationForm.employeeId, rotationForm.teamId, employees]);
+
+  const rotationEntries = useMemo(() => {
+    if (!isRotationModalOpen || !rotationPattern || !rotationForm.from || !rotationForm.to) return {};
+    return buildRotationEntries({
+      pattern: rotationPattern,
+      employeeIds: rotationEmployeeIds,
+      from: rotationForm.from,
+      to: rotationForm.to,
+      offset: rotationForm.offset,
+      skipHolidays: rotationForm.skipHolidays,
+      holidays: settings.holidays
+    });
+  }, [isRotationModalOpen, rotationPattern, rotationEmployeeIds, rotationForm.from, rotationForm.to, rotationForm.offset, rotationForm.skipHolidays, settings.holidays]);
+
+  const rotationOverwrites = Object.keys(rotationEntries).filter(key => planning[key] && planning[key] !== rotationEntries[key]).length;
+
+  const handleApplyRotation = (e: React.FormEvent) => {
+    e.preventDefault();
+    const count = Object.keys(rotationEntries).length;
+    if (!rotationPattern || count === 0) return;
+    const targetLabel = rotationForm.target === 'team'
+      ? `team ${teams.find(t => String(t.id) === rotationForm.teamId)?.name || rotationForm.teamId}`
+      : `employee ${rotationForm.employeeId}`;
+    onBulkUpdatePlanning(
+      rotationEntries,
+      'APPLY_ROTATION',
+      `Applied rotation "${rotationPattern.name}" to ${targetLabel} from ${rotationForm.from} to ${rotationForm.to} (offset ${rotationForm.offset}, ${count} cells)`
+    );
+    setIsRotationModalOpen(false);
+  };
+
+  // Publish Handlers
+  const handleOpenPublishModal = () => {
+    const effectiveTeamFilter = isManager && managedTeam ? String(managedTeam.id) : teamFilter;
+    const draftDates = Object.keys(drafts).map(key => parsePlanningKey(key).date).sort();
+    setPublishForm({
+      teamId: effectiveTeamFilter,
+      from: draftDates[0] || startDate,
+      to: draftDates[draftDates.length - 1] || addDays(startDate, daysToShow - 1)
+    });
+    setIsPublishModalOpen(true);
+  };
+
+  const publishKeys = useMemo(() => {
+    if (!isPublishModalOpen) return [];
+    return Object.keys(drafts).filter(key => {
+      const { employeeId, date } = parsePlanningKey(key);
+      if (date < publishForm.from || date > publishForm.to) return false;
+      const emp = employees.find(e => e.id === employeeId);
+      if (!emp) return false;
+      return publishForm.teamId ? String(emp.teamId) === publishForm.teamId : teams.some(t => t.id === emp.teamId);
+    });
+  }, [isPublishModalOpen, drafts, publishForm, employees, teams]);
+
+  const handlePublish = (discard: boolean) => {
+    if (publishKeys.length === 0) return;
+    const teamId = publishForm.teamId ? Number(publishForm.teamId) : null;
+    if (discard) {
+      if (!confirm(settings.language === 'fr' ? `Supprimer ${publishKeys.length} modification(s) non publiée(s) ?` : `Discard ${publishKeys.length} unpublished change(s)?`)) return;
+      onDiscardDrafts(teamId, publishForm.from, publishForm.to);
+    } else {
+      onPublishPlanning(teamId, publishForm.from, publishForm.to);
+    }
+    setIsPublishModalOpen(false);
   };
 
   const renderCellContent = (empId: number, dateStr: string, isSmall = false) => {
@@ -201,6 +665,21 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
      const holiday = isHoliday(dateStr);
      const bgColor = shiftDetails ? shiftDetails.color : absenceDetails ? absenceDetails.color : '#9ca3af';
      
+     const meta = getCurrentDetails(shiftName, planningMeta[planningKey(empId, dateStr)]);
+     if (shiftName && meta?.secondHalf) {
+        return (
+             <div className="w-full h-full flex flex-col gap-px" title={formatCellLabel(shiftName, meta, settings)}>
+                 {[shiftName, meta.secondHalf].map((value, index) => {
+                     const color = (getShiftDetails(value) || getAbsenceDetails(value))?.color || '#9ca3af';
+                     return (
+                         <div key={index} className="flex-1 rounded-sm flex items-center justify-center border" style={{ backgroundColor: `${color}20`, color, borderColor: `${color}40` }}>
+                             <span className={`${isSmall ? 'text-[6px]' : 'text-[8px]'} font-black truncate leading-none`}>{value.substring(0, 3)}</span>
+                         </div>
+                     );
+                 })}
+             </div>
+        );
+     }
      if (shiftName) {
         return (
              <div className="w-full h-full rounded flex items-center justify-center p-0.5 border shadow-sm" 
@@ -218,6 +697,58 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
      return null;
   };
 
+  // In live mode the cell shows the published value, the marker names the draft waiting to replace it
+  const renderDraftMarker = (empId: number, dateStr: string) => {
+    const key = planningKey(empId, dateStr);
+    if (!canEdit || !(key in drafts)) return null;
+    const draftValue = drafts[key] || (settings.language === 'fr' ? 'vide' : 'empty');
+    return (
+      <div className="absolute top-0.5 left-0.5 w-1.5 h-1.5 rounded-full bg-amber-500 pointer-events-none" title={settings.language === 'fr' ? `Non publié : ${draftValue}` : `Unpublished: ${draftValue}`} />
+    );
+  };
+
+  const renderPendingLeave = (empId: number, dateStr: string) => {
+    const request = pendingLeaveByCell[planningKey(empId, dateStr)];
+    if (!request) return null;
+    return (
+      <div className="absolute inset-0 rounded border border-dashed border-amber-400 pointer-events-auto" style={PENDING_LEAVE_STYLE}
+        title={`${settings.language === 'fr' ? 'Demande en attente' : 'Pending request'}: ${request.absenceType}${request.comment ? `\n${request.comment}` : ''}`} />
+    );
+  };
+
+  const renderNoteMarker = (empId: number, dateStr: string) => {
+    const meta = planningMeta[planningKey(empId, dateStr)];
+    if (!meta?.note && !meta?.attachment) return null;
+    const title = [meta.note, meta.attachment && `${settings.language === 'fr' ? 'Pièce jointe' : 'Attachment'}: ${meta.attachment.name}`].filter(Boolean).join('\n');
+    return (
+      <div className="absolute bottom-0.5 left-0.5 text-sky-600 pointer-events-auto" title={title}>
+        {meta.note ? <StickyNote size={9} /> : <Paperclip size={9} />}
+      </div>
+    );
+  };
+
+  const renderPartialMarker = (empId: number, dateStr: string) => {
+    const key = planningKey(empId, dateStr);
+    const partial = getPartialAbsence(planning[key], planningMeta[key], settings);
+    if (!partial) return null;
+    const color = getAbsenceDetails(partial.absence)?.color || '#9ca3af';
+    return (
+      <div className="absolute bottom-0.5 right-0.5 pointer-events-auto" style={{ color }} title={`${partial.absence} ${partial.start} - ${partial.end}`}>
+        <Hourglass size={9} />
+      </div>
+    );
+  };
+
+  const renderViolationMarker = (empId: number, dateStr: string) => {
+    const cellViolations = violationsByCell[planningKey(empId, dateStr)];
+    if (!cellViolations) return null;
+    return (
+      <div className="absolute top-0.5 right-0.5 text-red-500 pointer-events-auto" title={cellViolations.map(v => describeViolation(v, settings)).join('\n')}>
+        <AlertTriangle size={10} fill="#fee2e2" />
+      </div>
+    );
+  };
+
   const formatModalDate = (dateStr: string) => {
       const [year, month, day] = dateStr.split('-').map(Number);
       const d = new Date(year, month - 1, day);
@@ -266,24 +797,75 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
         
         <div className="w-px h-6 bg-gray-100 hidden md:block" />
         <div className="flex items-center gap-1">
-          <button onClick={() => changeDate(-daysToShow)} className="p-1 hover:bg-gray-100 rounded transition-colors"><ChevronLeft size={20} /></button>
-          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="bg-transparent border-none text-[11px] font-black text-gray-700 focus:ring-0 w-28" />
-          <button onClick={() => changeDate(daysToShow)} className="p-1 hover:bg-gray-100 rounded transition-colors"><ChevronRight size={20} /></button>
+          <button onClick={() => changePeriod(-1)} className="p-1 hover:bg-gray-100 rounded transition-colors"><ChevronLeft size={20} /></button>
+          {periodMode === 'month' ? (
+            <input type="month" value={startDate.substring(0, 7)} onChange={(e) => e.target.value && showMonth(e.target.value)} className="bg-transparent border-none text-[11px] font-black text-gray-700 focus:ring-0 w-32" />
+          ) : periodMode === 'range' ? (
+            <>
+              <input type="date" value={startDate} onChange={(e) => setCustomRange(e.target.value, addDays(startDate, daysToShow - 1))} className="bg-transparent border-none text-[11px] font-black text-gray-700 focus:ring-0 w-28" />
+              <ArrowRight size={12} className="text-gray-400" />
+              <input type="date" value={addDays(startDate, daysToShow - 1)} min={startDate} onChange={(e) => setCustomRange(startDate, e.target.value)} className="bg-transparent border-none text-[11px] font-black text-gray-700 focus:ring-0 w-28" />
+            </>
+          ) : (
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="bg-transparent border-none text-[11px] font-black text-gray-700 focus:ring-0 w-28" />
+          )}
+          <button onClick={() => changePeriod(1)} className="p-1 hover:bg-gray-100 rounded transition-colors"><ChevronRight size={20} /></button>
         </div>
         
         <div className="w-px h-6 bg-gray-100 hidden md:block" />
         <div className="relative group">
-            <select value={daysToShow} onChange={(e) => setDaysToShow(Number(e.target.value))} className="bg-transparent border-none text-xs font-bold text-gray-700 focus:ring-0 appearance-none pr-6">
+            <select value={periodMode === 'days' ? daysToShow : periodMode} onChange={(e) => handlePeriodModeChange(e.target.value)} className="bg-transparent border-none text-xs font-bold text-gray-700 focus:ring-0 appearance-none pr-6">
                 <option value={7}>7 jrs</option>
                 <option value={14}>14 jrs</option>
                 <option value={30}>30 jrs</option>
+                <option value="month">{settings.language === 'fr' ? 'Mois' : 'Month'}</option>
+                <option value="range">{settings.language === 'fr' ? 'Période libre' : 'Custom range'}</option>
             </select>
             <ChevronDown size={14} className="absolute right-0 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
         </div>
 
-        <button onClick={() => handleExport('pdf')} className="p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors ml-auto shadow-sm" title={t.export_pdf}><Download size={18} /></button>
+        {settings.laborRules.enabled && (
+          <button onClick={() => setIsViolationsPanelOpen(!isViolationsPanelOpen)} className={`flex items-center gap-1 px-2 py-2 rounded-lg text-xs font-black transition-colors ml-auto shadow-sm ${violations.length > 0 ? 'bg-red-50 text-red-600 hover:bg-red-100' : 'bg-green-50 text-green-600 hover:bg-green-100'}`} title={settings.language === 'fr' ? 'Règles du travail' : 'Labor rules'}>
+            <AlertTriangle size={16} /> {violations.length}
+          </button>
+        )}
+        {canEdit && (
+          <>
+            <button onClick={() => onChangePlanningMode(planningMode === 'draft' ? 'live' : 'draft')} className={`flex items-center gap-1 px-2 py-2 rounded-lg text-xs font-black transition-colors shadow-sm ${settings.laborRules.enabled ? '' : 'ml-auto'} ${planningMode === 'draft' ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'bg-gray-50 text-gray-500 hover:bg-gray-100'}`} title={settings.language === 'fr' ? 'Les modifications en brouillon ne sont visibles qu\'après publication' : 'Draft changes are only visible once published'}>
+              <FilePen size={16} /> {planningMode === 'draft' ? (settings.language === 'fr' ? 'Brouillon' : 'Draft') : (settings.language === 'fr' ? 'Direct' : 'Live')}
+            </button>
+            <button onClick={handleOpenPublishModal} className="relative p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors shadow-sm" title={settings.language === 'fr' ? 'Publier' : 'Publish'}>
+              <Send size={18} />
+              {Object.keys(drafts).length > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-amber-500 text-white text-[9px] font-black flex items-center justify-center">{Object.keys(drafts).length}</span>
+              )}
+            </button>
+            <button onClick={() => setIsImportModalOpen(true)} className="p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors shadow-sm" title={settings.language === 'fr' ? 'Importer un tableur (CSV, Excel)' : 'Import a spreadsheet (CSV, Excel)'}><FileUp size={18} /></button>
+            <button onClick={handleOpenCopyModal} className="p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors shadow-sm" title={settings.language === 'fr' ? 'Copier la période' : 'Copy period'}><Copy size={18} /></button>
+            <button onClick={() => setIsSchedulerModalOpen(true)} className="p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors shadow-sm" title={settings.language === 'fr' ? 'Générer le planning' : 'Generate schedule'}><Wand2 size={18} /></button>
+            <button onClick={handleOpenRotationModal} className="p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors shadow-sm" title={settings.language === 'fr' ? 'Appliquer une rotation' : 'Apply rotation'}><Repeat size={18} /></button>
+          </>
+        )}
+        <button onClick={() => setIsHoursModalOpen(true)} className={`p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors shadow-sm ${settings.laborRules.enabled || canEdit ? '' : 'ml-auto'}`} title={settings.language === 'fr' ? 'Rapport des heures' : 'Hours report'}><Timer size={18} /></button>
+        <button onClick={() => setIsIcsModalOpen(true)} className="p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors shadow-sm" title={settings.language === 'fr' ? 'Exporter vers un agenda (.ics)' : 'Export to calendar (.ics)'}><CalendarIcon size={18} /></button>
+        <button onClick={() => handleExport('pdf')} className="p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors shadow-sm" title={t.export_pdf}><Download size={18} /></button>
       </div>
 
+      {/* UNPUBLISHED PERIODS */}
+      {!canEdit && viewerDraftRanges.length > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-800">
+          <EyeOff size={16} className="shrink-0 mt-0.5" />
+          <div>
+            <span className="font-bold">{settings.language === 'fr' ? 'Périodes en cours de préparation (non publiées) :' : 'Periods still being prepared (unpublished):'}</span>
+            {viewerDraftRanges.map(({ teamId, ranges }) => (
+              <div key={teamId}>
+                {teams.find(t => t.id === teamId)?.name}: {ranges.map(r => r.from === r.to ? formatDisplayDateLocal(r.from, settings.dateFormat) : `${formatDisplayDateLocal(r.from, settings.dateFormat)} - ${formatDisplayDateLocal(r.to, settings.dateFormat)}`).join(', ')}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* MOBILE GRID VIEW */}
       {mobileView === 'grid' && (
         <div className="md:hidden flex-1 flex flex-col min-h-0 bg-white rounded-2xl border border-gray-100 shadow-sm relative overflow-hidden">
@@ -317,8 +899,13 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
                     {dates.map((date) => {
                       const dateStr = toLocalISO(date);
                       return (
-                        <td key={dateStr} onClick={() => setSelectedCell({ empId: emp.id, date: dateStr })} className="border-r border-b border-gray-50 p-0.5 cursor-pointer h-12 min-w-[44px]">
+                        <td key={dateStr} onClick={() => !isLocked(dateStr) && setSelectedCell({ empId: emp.id, date: dateStr })} style={isLocked(dateStr) ? LOCKED_CELL_STYLE : undefined} className={`relative border-r border-b border-gray-50 p-0.5 h-12 min-w-[44px] ${isLocked(dateStr) ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'}`}>
                           {renderCellContent(emp.id, dateStr)}
+                          {renderPendingLeave(emp.id, dateStr)}
+                          {renderDraftMarker(emp.id, dateStr)}
+                          {renderPartialMarker(emp.id, dateStr)}
+                          {renderNoteMarker(emp.id, dateStr)}
+                          {renderViolationMarker(emp.id, dateStr)}
                         </td>
                       );
                     })}
@@ -333,48 +920,133 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
       {/* DESKTOP TABLE */}
       <div className="hidden md:block flex-1 bg-white rounded-2xl border border-gray-200 shadow-sm relative overflow-hidden">
         <div className="overflow-auto h-full touch-auto" ref={printRef}>
-          <table className="w-full border-separate border-spacing-0">
+          <table className="w-full border-separate border-spacing-0 select-none">
             <thead className="sticky top-0 z-40 bg-gray-50/95 backdrop-blur-sm shadow-sm">
+              <tr>
+                <th className="sticky left-0 z-50 bg-gray-50 border-r border-b border-gray-200" />
+                {weekGroups.map((group, index) => (
+                  <th key={group.weekStart} colSpan={group.days} className={`border-b border-r border-gray-200 px-2 py-1 text-left text-[10px] font-black text-slate-500 uppercase tracking-wider bg-slate-100/80 ${index > 0 ? 'border-l-2 border-l-slate-300' : ''}`}>
+                    {settings.language === 'fr' ? 'Sem.' : 'Wk'} {group.week}
+                  </th>
+                ))}
+                <th className="border-b border-gray-200 bg-gray-50" />
+              </tr>
               <tr>
                 <th className="sticky left-0 z-50 bg-gray-50 border-r border-b border-gray-200 p-4 text-left text-[11px] font-black text-gray-400 uppercase min-w-[160px] h-14">Employé</th>
-                {dates.map((date) => {
+                {dates.map((date, colIndex) => {
                   const dateStr = toLocalISO(date);
                   const isWeekend = date.getDay() === 0 || date.getDay() === 6;
                   const holiday = isHoliday(dateStr);
                   const monthStr = date.toLocaleDateString(settings.language === 'fr' ? 'fr-FR' : 'en-US', { month: 'short' });
                   return (
-                    <th key={dateStr} className={`border-b border-r border-gray-200 p-1 text-center min-w-[54px] ${holiday ? 'bg-red-50/50' : isWeekend ? 'bg-gray-100/50' : 'bg-white'}`}>
+                    <th key={dateStr} className={`border-b border-r border-gray-200 p-1 text-center min-w-[54px] ${weekSeparator(date, colIndex)} ${holiday ? 'bg-red-50/50' : isWeekend ? 'bg-gray-100/50' : 'bg-white'}`}>
                       <div className="flex flex-col items-center leading-tight">
-                        <span className={`text-xs font-black ${holiday ? 'text-red-600' : 'text-gray-700'}`}>{date.getDate()} {monthStr.replace('.', '')}</span>
+                        <span className={`text-xs font-black flex items-center gap-0.5 ${holiday ? 'text-red-600' : 'text-gray-700'}`}>{isLocked(dateStr) && <Lock size={9} className="text-gray-400" />}{date.getDate()} {monthStr.replace('.', '')}</span>
                         <span className={`text-[9px] font-bold mt-1 uppercase tracking-wider text-gray-400`}>{date.toLocaleDateString(settings.language === 'fr' ? 'fr-FR' : 'en-US', { weekday: 'short' }).replace('.', '')}</span>
                       </div>
                     </th>
                   );
                 })}
+                <th className="border-b border-gray-200 p-1 text-center min-w-[60px] bg-gray-50 text-[10px] font-black text-gray-500 uppercase">
+                  Total
+                </th>
               </tr>
             </thead>
             <tbody>
-              {filteredEmployees.map(emp => (
+              {filteredEmployees.map((emp, rowIndex) => (
                 <tr key={emp.id} className="hover:bg-gray-50/50 group">
                   <td className="sticky left-0 z-30 bg-white border-r border-b border-gray-200 p-4 shadow-[2px_0_8px_rgba(0,0,0,0.02)] h-14">
                     <div className="font-bold text-xs text-[#1e293b] truncate uppercase">{emp.firstName} {emp.lastName}</div>
                     <div className="text-[9px] text-gray-400 font-mono mt-1">{emp.matricule}</div>
                   </td>
-                  {dates.map((date) => {
+                  {dates.map((date, colIndex) => {
                     const dateStr = toLocalISO(date);
+                    const isSelected = isCellInSelection(rowIndex, colIndex);
                     return (
-                      <td key={dateStr} onClick={() => setSelectedCell({ empId: emp.id, date: dateStr })} className="border-r border-b border-gray-100 p-1 cursor-pointer transition-colors hover:bg-blue-50/40 h-14 min-w-[54px]">
+                      <td key={dateStr}
+                        onMouseDown={(e) => handleCellMouseDown(e, rowIndex, colIndex)}
+                        onMouseEnter={() => handleCellMouseEnter(rowIndex, colIndex)}
+                        onMouseUp={() => handleCellMouseUp(rowIndex, colIndex)}
+                        style={isLocked(dateStr) ? LOCKED_CELL_STYLE : undefined}
+                        className={`relative border-r border-b border-gray-100 p-1 transition-colors h-14 min-w-[54px] ${weekSeparator(date, colIndex)} ${isLocked(dateStr) ? 'cursor-not-allowed opacity-70' : isSelected ? 'cursor-pointer bg-blue-100/70 outline outline-2 -outline-offset-2 outline-blue-400' : 'cursor-pointer hover:bg-blue-50/40'}`}>
                         {renderCellContent(emp.id, dateStr)}
+                        {renderPendingLeave(emp.id, dateStr)}
+                        {renderDraftMarker(emp.id, dateStr)}
+                        {renderPartialMarker(emp.id, dateStr)}
+                        {renderNoteMarker(emp.id, dateStr)}
+                        {renderViolationMarker(emp.id, dateStr)}
                       </td>
                     );
                   })}
+                  <td className="border-b border-gray-100 p-1 text-center bg-gray-50/50"
+                    title={hoursByEmployee[emp.id] && `${settings.language === 'fr' ? 'Travaillées' : 'Worked'}: ${hoursByEmployee[emp.id].worked}h\n${settings.language === 'fr' ? 'Absences comptées' : 'Credited absences'}: ${hoursByEmployee[emp.id].credited}h\n${settings.language === 'fr' ? 'Dont fériés' : 'On holidays'}: ${hoursByEmployee[emp.id].holiday}h`}>
+                    <span className="text-xs font-black text-gray-700">{hoursByEmployee[emp.id]?.total ?? 0}h</span>
+                  </td>
                 </tr>
               ))}
             </tbody>
+            {coveredShifts.length > 0 && (
+              <tfoot className="sticky bottom-0 z-40 bg-gray-50/95 backdrop-blur-sm">
+                {coveredShifts.map(shift => (
+                  <tr key={shift.name}>
+                    <td className="sticky left-0 z-50 bg-gray-50 border-r border-t border-gray-200 px-4 py-1.5">
+                      <div className="flex items-center gap-2 text-[10px] font-black text-gray-500 uppercase">
+                        <div className="w-2 h-2 rounded-full" style={{ backgroundColor: shift.color }} />
+                        {shift.name}
+                      </div>
+                    </td>
+                    {dates.map((date, colIndex) => {
+                      const dateStr = toLocalISO(date);
+                      const coverage = coverageByDate[dateStr]?.find(c => c.shift === shift.name);
+                      return (
+                        <td key={dateStr} className={`border-r border-t border-gray-200 p-1 text-center ${weekSeparator(date, colIndex)}`}>
+                          {coverage && (
+                            <div className={`rounded text-[10px] font-black py-0.5 ${COVERAGE_STYLES[coverage.status]}`} title={`Min. ${coverage.min} · ${settings.language === 'fr' ? 'Cible' : 'Target'} ${coverage.target}`}>
+                              {coverage.count}/{coverage.target}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                    <td className="border-t border-gray-200" />
+                  </tr>
+                ))}
+              </tfoot>
+            )}
           </table>
         </div>
       </div>
 
+      {/* VIOLATIONS PANEL */}
+      {isViolationsPanelOpen && (
+        <div className="bg-white rounded-2xl border border-red-100 shadow-sm overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-red-50 bg-red-50/40">
+            <h3 className="text-xs font-black text-red-700 uppercase tracking-widest flex items-center gap-2">
+              <AlertTriangle size={14} /> {settings.language === 'fr' ? 'Règles non respectées' : 'Rule violations'} ({violations.length})
+            </h3>
+            <span className="text-[10px] font-bold text-red-400 uppercase">
+              {settings.laborRules.mode === 'block' ? (settings.language === 'fr' ? 'Mode bloquant' : 'Blocking mode') : (settings.language === 'fr' ? 'Avertissement' : 'Warning only')}
+            </span>
+          </div>
+          {violations.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-400 italic">{settings.language === 'fr' ? 'Aucune violation sur la période.' : 'No violation in this period.'}</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto divide-y divide-gray-50">
+              {violations.map((v, index) => {
+                const emp = employees.find(e => e.id === v.employeeId);
+                return (
+                  <button key={index} onClick={() => setSelectedCell({ empId: v.employeeId, date: v.date })} className="w-full flex items-center gap-4 px-4 py-2 text-left hover:bg-red-50/30 transition-colors">
+                    <span className="text-xs font-bold text-gray-800 w-40 truncate">{emp ? `${emp.firstName} ${emp.lastName}` : v.employeeId}</span>
+                    <span className="text-xs text-gray-500 w-28 capitalize">{formatModalDate(v.date)}</span>
+                    <span className="text-xs text-red-600 flex-1">{describeViolation(v, settings)}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* MOBILE CALENDAR VIEW */}
       {mobileView === 'calendar' && (
         <div className="md:hidden flex-1 bg-white p-4 rounded-2xl border border-gray-100 shadow-sm space-y-4">
@@ -410,20 +1082,59 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
       )}
 
       {/* ASSIGNMENT MODAL */}
-      <Modal isOpen={!!selectedCell} onClose={() => setSelectedCell(null)} title={selectedEmployee ? `${selectedEmployee.firstName} ${selectedEmployee.lastName}` : ''} size="md">
+      <Modal isOpen={!!selectedCell || bulkCells.length > 0} onClose={closeAssignmentModal} title={bulkCells.length > 0 ? (settings.language === 'fr' ? `${bulkCells.length} cellules sélectionnées` : `${bulkCells.length} cells selected`) : selectedEmployee ? `${selectedEmployee.firstName} ${selectedEmployee.lastName}` : ''} size="md">
         <div className="space-y-4">
           <div className="flex items-center justify-between p-2 bg-blue-50/50 rounded-lg border border-blue-100 shadow-sm">
              <div className="flex items-center gap-2">
                 <div className="w-8 h-8 bg-white rounded-full flex items-center justify-center text-blue-600 shadow-sm border border-blue-100 shrink-0"><CalendarDays size={16} /></div>
                 <div className="text-left leading-tight">
                     <p className="text-[8px] font-black text-blue-400 uppercase tracking-widest mb-0.5">Date</p>
-                    <p className="text-[10px] font-black text-blue-900 capitalize">{selectedCell && formatModalDate(selectedCell.date)}</p>
+                    <p className="text-[10px] font-black text-blue-900 capitalize">
+                      {bulkCells.length > 0
+                        ? `${formatModalDate(bulkCells[0].date)} → ${formatModalDate(bulkCells[bulkCells.length - 1].date)}`
+                        : selectedCell && formatModalDate(selectedCell.date)}
+                    </p>
                 </div>
              </div>
              <button onClick={() => handleShiftSelect(null)} className="px-3 py-1.5 rounded-lg border-2 border-red-50 bg-white text-red-600 hover:bg-red-50 transition-all active:scale-95 shadow-sm flex items-center gap-1.5">
                 <Trash2 size={14} /> <span className="text-[9px] font-black uppercase tracking-widest">Effacer</span>
              </button>
           </div>
+          {selectedCell && (
+            <div className="relative">
+              <button onClick={() => setIsHistoryOpen(!isHistoryOpen)} className={`flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest transition-colors ${isHistoryOpen ? 'text-blue-600' : 'text-gray-400 hover:text-blue-600'}`}>
+                <History size={12} /> {settings.language === 'fr' ? 'Historique' : 'History'}
+              </button>
+              {isHistoryOpen && (
+                <div className="mt-2 p-2 bg-white rounded-lg border border-gray-200 shadow-lg max-h-48 overflow-y-auto space-y-1.5">
+                  {cellHistory === null ? (
+                    <p className="text-[10px] text-gray-400 italic">{settings.language === 'fr' ? 'Chargement...' : 'Loading...'}</p>
+                  ) : cellHistory.length === 0 ? (
+                    <p className="text-[10px] text-gray-400 italic">{settings.language === 'fr' ? 'Aucune modification enregistrée.' : 'No recorded change.'}</p>
+                  ) : cellHistory.map(entry => (
+                    <div key={entry.id} className="text-[10px] leading-tight border-l-2 border-gray-100 pl-2">
+                      <div className="flex items-center gap-1 font-bold text-gray-700">
+                        <span className={entry.previous ? 'line-through text-gray-400' : 'text-gray-300'}>{entry.previous || (settings.language === 'fr' ? 'Vide' : 'Empty')}</span>
+                        <ArrowRight size={10} className="text-gray-400" />
+                        <span>{entry.next || (settings.language === 'fr' ? 'Vide' : 'Empty')}</span>
+                        {entry.draft && <span className="px-1 rounded bg-amber-100 text-amber-700 text-[8px] uppercase">{settings.language === 'fr' ? 'Brouillon' : 'Draft'}</span>}
+                      </div>
+                      <div className="text-gray-400">
+                        {new Date(entry.timestamp).toLocaleString(settings.language === 'fr' ? 'fr-FR' : 'en-US')} · {entry.user} · {entry.action}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          {selectedCell && violationsByCell[planningKey(selectedCell.empId, selectedCell.date)] && (
+            <div className="p-2 bg-red-50 rounded-lg border border-red-100 space-y-1">
+              {violationsByCell[planningKey(selectedCell.empId, selectedCell.date)].map((v, index) => (
+                <p key={index} className="text-[10px] font-bold text-red-600 flex items-center gap-1.5"><AlertTriangle size={12} /> {describeViolation(v, settings)}</p>
+              ))}
+            </div>
+          )}
           <div className="space-y-4">
              <section className="space-y-2">
                 <div className="flex items-center gap-1.5 pl-1 border-l-3 border-blue-500"><Zap size={14} className="text-blue-500" /><h4 className="text-[9px] font-black text-slate-800 uppercase tracking-widest">Shifts</h4></div>
@@ -447,9 +1158,374 @@ export const Planning: React.FC<PlanningProps> = ({ employees, teams, settings,
                     ))}
                 </div>
              </section>
+             {selectedCell && canEdit && planning[planningKey(selectedCell.empId, selectedCell.date)] && (
+               <section className="space-y-2">
+                  <div className="flex items-center gap-1.5 pl-1 border-l-3 border-teal-500"><SplitSquareVertical size={14} className="text-teal-500" /><h4 className="text-[9px] font-black text-slate-800 uppercase tracking-widest">{settings.language === 'fr' ? 'Journée partielle' : 'Partial day'}</h4></div>
+                  <div className="p-2 bg-slate-50 rounded-lg border border-slate-100 space-y-2">
+                    <div className="grid grid-cols-3 gap-1">
+                      {([
+                        ['full', settings.language === 'fr' ? 'Journée' : 'Full day'],
+                        ['half', settings.language === 'fr' ? 'Demi-journées' : 'Half-days'],
+                        ['partial', settings.language === 'fr' ? 'Absence partielle' : 'Partial absence']
+                      ] as const).map(([mode, label]) => (
+                        <button key={mode} onClick={() => setDetailForm({ ...detailForm, mode })} className={`px-2 py-1 rounded-md text-[9px] font-black uppercase tracking-wide border transition-colors ${detailForm.mode === mode ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-slate-500 border-slate-200 hover:border-teal-300'}`}>
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    {detailForm.mode === 'half' && (
+                      <div className="grid grid-cols-2 gap-2 items-end">
+                        <div className="text-[10px] text-slate-500">
+                          {settings.language === 'fr' ? 'Matin' : 'Morning'}: <span className="font-black text-slate-800">{planning[planningKey(selectedCell.empId, selectedCell.date)]}</span>
+                        </div>
+                        <div>
+                          <label className="block text-[9px] font-black text-slate-400 uppercase mb-0.5">{settings.language === 'fr' ? 'Après-midi' : 'Afternoon'}</label>
+                          <select value={detailForm.secondHalf} onChange={e => setDetailForm({ ...detailForm, secondHalf: e.target.value })} className="w-full px-2 py-1 border border-slate-200 rounded-md text-xs bg-white">
+                            <option value="">-</option>
+                            {[...settings.shifts.map(s => s.name), ...settings.absenceTypes.map(a => a.name)].map(name => <option key={name} value={name}>{name}</option>)}
+                          </select>
+                        </div>
+                      </div>
+                    )}
+                    {detailForm.mode === 'partial' && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <label className="block text-[9px] font-black text-slate-400 uppercase mb-0.5">Absence</label>
+                          <select value={detailForm.absence} onChange={e => setDetailForm({ ...detailForm, absence: e.target.value })} className="w-full px-2 py-1 border border-slate-200 rounded-md text-xs bg-white">
+                            <option value="">-</option>
+                            {settings.absenceTypes.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-[9px] font-black text-slate-400 uppercase mb-0.5">{settings.language === 'fr' ? 'De' : 'From'}</label>
+                          <input type="time" value={detailForm.start} onChange={e => setDetailForm({ ...detailForm, start: e.target.value })} className="w-full px-2 py-1 border border-slate-200 rounded-md text-xs bg-white" />
+                        </div>
+                        <div>
+                          <label className="block text-[9px] font-black text-slate-400 uppercase mb-0.5">{settings.language === 'fr' ? 'À' : 'To'}</label>
+                          <input type="time" value={detailForm.end} onChange={e => setDetailForm({ ...detailForm, end: e.target.value })} className="w-full px-2 py-1 border border-slate-200 rounded-md text-xs bg-white" />
+                        </div>
+                        {!getShiftDetails(planning[planningKey(selectedCell.empId, selectedCell.date)]) && (
+                          <p className="col-span-3 text-[10px] text-orange-600">{settings.language === 'fr' ? 'Une absence partielle s\'applique à un shift.' : 'A partial absence applies to a shift.'}</p>
+                        )}
+                      </div>
+                    )}
+                    <div className="flex justify-end">
+                      <Button size="xs" onClick={handleSaveCellDetails}>{t.save}</Button>
+                    </div>
+                  </div>
+               </section>
+             )}
+             {selectedCell && (canEdit || noteForm.note || noteForm.attachmentUrl) && (
+               <section className="space-y-2">
+                  <div className="flex items-center gap-1.5 pl-1 border-l-3 border-sky-500"><StickyNote size={14} className="text-sky-500" /><h4 className="text-[9px] font-black text-slate-800 uppercase tracking-widest">{settings.language === 'fr' ? 'Note et pièce jointe' : 'Note and attachment'}</h4></div>
+                  {canEdit ? (
+                    <div className="p-2 bg-slate-50 rounded-lg border border-slate-100 space-y-2">
+                      <textarea value={noteForm.note} onChange={e => setNoteForm({ ...noteForm, note: e.target.value })} rows={2} placeholder={settings.language === 'fr' ? 'Ex. : remplace X, formation salle B...' : 'E.g. covering for X, training in room B...'} className="w-full px-2 py-1 border border-slate-200 rounded-md text-xs bg-white" />
+                      <div className="grid grid-cols-2 gap-2">
+                        <input type="text" value={noteForm.attachmentName} onChange={e => setNoteForm({ ...noteForm, attachmentName: e.target.value })} placeholder={settings.language === 'fr' ? 'Nom du document' : 'Document name'} className="w-full px-2 py-1 border border-slate-200 rounded-md text-xs bg-white" />
+                        <input type="url" value={noteForm.attachmentUrl} onChange={e => setNoteForm({ ...noteForm, attachmentUrl: e.target.value })} placeholder="https://..." className="w-full px-2 py-1 border border-slate-200 rounded-md text-xs bg-white" />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        {noteForm.attachmentUrl ? (
+                          <a href={noteForm.attachmentUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-[10px] font-bold text-sky-600 hover:underline truncate"><Paperclip size={10} /> {noteForm.attachmentName || noteForm.attachmentUrl}</a>
+                        ) : <span />}
+                        <Button size="xs" onClick={handleSaveCellNote}>{t.save}</Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="p-2 bg-slate-50 rounded-lg border border-slate-100 space-y-1 text-xs text-slate-700">
+                      {noteForm.note && <p className="whitespace-pre-wrap">{noteForm.note}</p>}
+                      {noteForm.attachmentUrl && (
+                        <a href={noteForm.attachmentUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-[10px] font-bold text-sky-600 hover:underline"><Paperclip size={10} /> {noteForm.attachmentName || noteForm.attachmentUrl}</a>
+                      )}
+                    </div>
+                  )}
+               </section>
+             )}
+          </div>
+        </div>
+      </Modal>
+
+      {/* CALENDAR EXPORT MODAL */}
+      {isIcsModalOpen && (
+        <PlanningIcsModal
+          employees={employees}
+          filteredEmployees={filteredEmployees}
+          teams={isManager && managedTeam ? [managedTeam] : teams}
+          settings={settings}
+          planning={planning}
+          planningMeta={planningMeta}
+          currentUser={currentUser}
+          defaultTeamId={teamFilter || (isManager && managedTeam ? String(managedTeam.id) : '')}
+          from={startDate}
+          to={addDays(startDate, daysToShow - 1)}
+          onSetPlanningWindow={onSetPlanningWindow}
+          onClose={() => setIsIcsModalOpen(false)}
+        />
+      )}
+
+      {/* SPREADSHEET IMPORT MODAL */}
+      {isImportModalOpen && (
+        <PlanningImportModal
+          employees={employees}
+          settings={settings}
+          planning={planning}
+          planningMeta={planningMeta}
+          onBulkUpdatePlanning={onBulkUpdatePlanning}
+          onSetPlanningWindow={onSetPlanningWindow}
+          onClose={() => setIsImportModalOpen(false)}
+        />
+      )}
+
+      {/* COPY PERIOD MODAL */}
+      <Modal isOpen={isCopyModalOpen} onClose={() => setIsCopyModalOpen(false)} title={settings.language === 'fr' ? 'Copier la période' : 'Copy period'} size="md">
+        <div className="space-y-4">
+          <div className="p-3 bg-gray-50 rounded-lg border border-gray-100 text-xs text-gray-600">
+            {settings.language === 'fr' ? 'Source' : 'Source'}: <span className="font-bold text-gray-800">{formatDisplayDateLocal(startDate, settings.dateFormat)} - {formatDisplayDateLocal(addDays(startDate, daysToShow - 1), settings.dateFormat)}</span>
+            {' · '}{filteredEmployees.length} {settings.language === 'fr' ? 'employé(s) filtré(s)' : 'filtered employee(s)'}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{settings.language === 'fr' ? 'Coller à partir du' : 'Paste from'}</label>
+              <input type="date" value={copyForm.targetFrom} onChange={e => setCopyForm({ ...copyForm, targetFrom: e.target.value })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{settings.language === 'fr' ? 'Répéter (fois)' : 'Repeat (times)'}</label>
+              <input type="number" min={1} max={52} value={copyForm.repeat} onChange={e => setCopyForm({ ...copyForm, repeat: Math.max(1, Number(e.target.value) || 1) })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input type="checkbox" checked={copyForm.includeEmpty} onChange={e => setCopyForm({ ...copyForm, includeEmpty: e.target.checked })} className="rounded border-gray-300" />
+            {settings.language === 'fr' ? 'Copier aussi les cellules vides (efface la cible)' : 'Also copy empty cells (clears the target)'}
+          </label>
+
+          <div className="p-3 bg-blue-50/50 rounded-lg border border-blue-100 text-xs text-blue-900">
+            {settings.language === 'fr'
+              ? `${Object.keys(copyChanges).length} cellule(s) modifiée(s), dont ${copyOverwrites.length} déjà renseignée(s).`
+              : `${Object.keys(copyChanges).length} cell(s) changed, ${copyOverwrites.length} already filled.`}
+          </div>
+
+          {copyOverwrites.length > 0 && (
+            <div className="border border-orange-100 rounded-lg max-h-56 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-orange-50 text-orange-700 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Employé' : 'Employee'}</th>
+                    <th className="px-3 py-2 text-left">Date</th>
+                    <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Remplacement' : 'Overwrite'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {copyOverwrites.slice(0, 100).map(o => {
+                    const emp = employees.find(e => e.id === o.employeeId);
+                    return (
+                      <tr key={o.key}>
+                        <td className="px-3 py-1.5 font-medium text-gray-800">{emp ? `${emp.firstName} ${emp.lastName}` : o.employeeId}</td>
+                        <td className="px-3 py-1.5 text-gray-500">{formatDisplayDateLocal(o.date, settings.dateFormat)}</td>
+                        <td className="px-3 py-1.5 text-gray-700 flex items-center gap-1">
+                          <span className="line-through text-gray-400">{o.previous}</span>
+                          <ArrowRight size={10} className="text-gray-400" />
+                          <span className="font-bold">{o.next || (settings.language === 'fr' ? 'Vide' : 'Empty')}</span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {copyOverwrites.length > 100 && (
+                <p className="text-[10px] text-gray-400 text-center py-2">+{copyOverwrites.length - 100}</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button type="button" variant="ghost" onClick={() => setIsCopyModalOpen(false)}>{t.cancel}</Button>
+            <Button icon={Copy} onClick={handleApplyCopy} disabled={Object.keys(copyChanges).length === 0}>
+              {settings.language === 'fr' ? 'Coller' : 'Paste'}
+            </Button>
           </div>
         </div>
       </Modal>
+
+      {/* ROTATION MODAL */}
+      <Modal isOpen={isRotationModalOpen} onClose={() => setIsRotationModalOpen(false)} title={settings.language === 'fr' ? 'Appliquer une rotation' : 'Apply rotation'} size="md">
+        {settings.rotations.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">
+            {settings.language === 'fr' ? 'Aucune rotation configurée. Ajoutez-en une dans les paramètres.' : 'No rotation configured. Add one in the settings.'}
+          </p>
+        ) : (
+          <form onSubmit={handleApplyRotation} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{settings.language === 'fr' ? 'Rotation' : 'Pattern'}</label>
+              <select value={rotationForm.patternId} onChange={e => setRotationForm({ ...rotationForm, patternId: e.target.value, offset: 0 })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm">
+                {settings.rotations.map(r => <option key={r.id} value={r.id}>{r.name} ({formatRotationSequence(r.sequence)})</option>)}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.assign_to}</label>
+                <select value={rotationForm.target} onChange={e => setRotationForm({ ...rotationForm, target: e.target.value as 'team' | 'employee' })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm">
+                  <option value="team">{settings.language === 'fr' ? 'Équipe' : 'Team'}</option>
+                  <option value="employee">{settings.language === 'fr' ? 'Employé' : 'Employee'}</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">&nbsp;</label>
+                {rotationForm.target === 'team' ? (
+                  <select required value={rotationForm.teamId} onChange={e => setRotationForm({ ...rotationForm, teamId: e.target.value })} disabled={isManager} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm">
+                    <option value="">{t.select_team}</option>
+                    {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                  </select>
+                ) : (
+                  <select required value={rotationForm.employeeId} onChange={e => setRotationForm({ ...rotationForm, employeeId: e.target.value })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm">
+                    <option value="">{t.filter_employee}</option>
+                    {filteredEmployees.map(emp => <option key={emp.id} value={emp.id}>{emp.firstName} {emp.lastName}</option>)}
+                  </select>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.start_date}</label>
+                <input required type="date" value={rotationForm.from} onChange={e => setRotationForm({ ...rotationForm, from: e.target.value })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.end_date}</label>
+                <input required type="date" min={rotationForm.from} value={rotationForm.to} onChange={e => setRotationForm({ ...rotationForm, to: e.target.value })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+              </div>
+            </div>
+
+            {rotationPattern && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {settings.language === 'fr' ? 'Premier jour du cycle au' : 'Cycle day on'} {rotationForm.from}
+                </label>
+                <div className="flex flex-wrap gap-1">
+                  {rotationPattern.sequence.map((name, index) => {
+                    const details = getShiftDetails(name) || getAbsenceDetails(name);
+                    const color = details?.color || '#9ca3af';
+                    const isSelected = index === rotationForm.offset;
+                    return (
+                      <button type="button" key={index} onClick={() => setRotationForm({ ...rotationForm, offset: index })}
+                        className={`px-2 py-1 rounded border-2 text-[10px] font-black transition-all ${isSelected ? 'ring-2 ring-blue-500 ring-offset-1' : ''}`}
+                        style={{ backgroundColor: `${color}20`, color, borderColor: `${color}40` }}
+                        title={`${index + 1}. ${name}`}>
+                        {name.substring(0, 3)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input type="checkbox" checked={rotationForm.skipHolidays} onChange={e => setRotationForm({ ...rotationForm, skipHolidays: e.target.checked })} className="rounded border-gray-300" />
+              {settings.language === 'fr' ? 'Ne pas planifier les jours fériés' : 'Skip public holidays'}
+            </label>
+
+            <div className="p-3 bg-blue-50/50 rounded-lg border border-blue-100 text-xs text-blue-900">
+              {settings.language === 'fr'
+                ? `${Object.keys(rotationEntries).length} cellule(s) pour ${rotationEmployeeIds.length} employé(s), dont ${rotationOverwrites} remplacée(s).`
+                : `${Object.keys(rotationEntries).length} cell(s) for ${rotationEmployeeIds.length} employee(s), ${rotationOverwrites} overwritten.`}
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4 border-t">
+              <Button type="button" variant="ghost" onClick={() => setIsRotationModalOpen(false)}>{t.cancel}</Button>
+              <Button type="submit" icon={Repeat} disabled={Object.keys(rotationEntries).length === 0}>
+                {settings.language === 'fr' ? 'Appliquer' : 'Apply'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      {/* HOURS REPORT MODAL */}
+      {isHoursModalOpen && (
+        <PlanningHoursModal
+          filteredEmployees={filteredEmployees}
+          teams={teams}
+          settings={settings}
+          planning={planning}
+          planningMeta={planningMeta}
+          currentUser={currentUser}
+          month={startDate.substring(0, 7)}
+          onSetPlanningWindow={onSetPlanningWindow}
+          onClose={() => setIsHoursModalOpen(false)}
+        />
+      )}
+
+      {/* PUBLISH MODAL */}
+      <Modal isOpen={isPublishModalOpen} onClose={() => setIsPublishModalOpen(false)} title={settings.language === 'fr' ? 'Publier le planning' : 'Publish planning'} size="md">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{settings.language === 'fr' ? 'Équipe' : 'Team'}</label>
+            <select value={publishForm.teamId} onChange={e => setPublishForm({ ...publishForm, teamId: e.target.value })} disabled={isManager} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm">
+              <option value="">{settings.language === 'fr' ? 'Toutes les équipes' : 'All teams'}</option>
+              {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.start_date}</label>
+              <input type="date" value={publishForm.from} onChange={e => setPublishForm({ ...publishForm, from: e.target.value })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.end_date}</label>
+              <input type="date" min={publishForm.from} value={publishForm.to} onChange={e => setPublishForm({ ...publishForm, to: e.target.value })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+            </div>
+          </div>
+
+          {unpublishedRanges.length > 0 && (
+            <div className="p-3 bg-amber-50 rounded-lg border border-amber-100 text-xs text-amber-800 space-y-1">
+              {unpublishedRanges.map(({ teamId, ranges }) => (
+                <div key={teamId}>
+                  <span className="font-bold">{teams.find(t => String(t.id) === teamId)?.name}</span>: {ranges.map(r => r.from === r.to ? formatDisplayDateLocal(r.from, settings.dateFormat) : `${formatDisplayDateLocal(r.from, settings.dateFormat)} - ${formatDisplayDateLocal(r.to, settings.dateFormat)}`).join(', ')}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="p-3 bg-blue-50/50 rounded-lg border border-blue-100 text-xs text-blue-900">
+            {settings.language === 'fr'
+              ? `${publishKeys.length} modification(s) non publiée(s) sur la période.`
+              : `${publishKeys.length} unpublished change(s) in the period.`}
+          </div>
+
+          <div className="flex justify-between gap-3 pt-4 border-t">
+            <Button type="button" variant="danger" icon={Trash2} onClick={() => handlePublish(true)} disabled={publishKeys.length === 0}>
+              {settings.language === 'fr' ? 'Abandonner' : 'Discard'}
+            </Button>
+            <div className="flex gap-3">
+              <Button type="button" variant="ghost" onClick={() => setIsPublishModalOpen(false)}>{t.cancel}</Button>
+              <Button icon={Send} onClick={() => handlePublish(false)} disabled={publishKeys.length === 0}>
+                {settings.language === 'fr' ? 'Publier' : 'Publish'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </Modal>
+
+      {/* AUTO-SCHEDULER MODAL */}
+      {isSchedulerModalOpen && (
+        <PlanningSchedulerModal
+          employees={employees}
+          teams={teams}
+          settings={settings}
+          planning={planning}
+          defaultTeamId={isManager && managedTeam ? String(managedTeam.id) : teamFilter}
+          isTeamLocked={isManager}
+          from={startDate}
+          to={addDays(startDate, daysToShow - 1)}
+          onBulkUpdatePlanning={onBulkUpdatePlanning}
+          onSetPlanningWindow={onSetPlanningWindow}
+          onClose={() => setIsSchedulerModalOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Download, FileText } from 'lucide-react';
+import { AppSettings, Employee, PlanningData, PlanningMeta, PlanningWindow, Team, User } from '../types';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { TRANSLATIONS } from '../constants';
+import { addDays, findHoliday, formatDisplayDateLocal, getDateRange, planningKey } from '../services/planning';
+import { computeHours, computeWeeklyHours, getMonthRange, getWeeksInRange } from '../services/hours';
+import { formatCellLabel, getCurrentDetails } from '../services/cellDetails';
+import { getCellLeaveDays } from '../services/balances';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+interface PlanningHoursModalProps {
+  filteredEmployees: Employee[]; // Rows of the report: the employees filtered on the grid
+  teams: Team[];
+  settings: AppSettings;
+  planning: PlanningData;
+  planningMeta: PlanningMeta;
+  currentUser: User;
+  month: string; // "YYYY-MM" shown first
+  onSetPlanningWindow: (id: string, window: PlanningWindow | null) => void;
+  onClose: () => void;
+}
+
+export const PlanningHoursModal: React.FC<PlanningHoursModalProps> = ({ filteredEmployees, teams, settings, planning, planningMeta, currentUser, month, onSetPlanningWindow, onClose }) => {
+  const t = TRANSLATIONS[settings.language];
+
+  const [hoursMonth, setHoursMonth] = useState(month);
+  // '' = every filtered employee; the signed-in employee by default when listed
+  const [scheduleEmployeeId, setScheduleEmployeeId] = useState(() => currentUser.employeeId != null && filteredEmployees.some(e => e.id == currentUser.employeeId) ? String(currentUser.employeeId) : '');
+
+  useEffect(() => {
+    if (!hoursMonth) return;
+    onSetPlanningWindow('planning-hours', getMonthRange(hoursMonth));
+    return () => onSetPlanningWindow('planning-hours', null);
+  }, [hoursMonth, onSetPlanningWindow]);
+
+  const getShiftDetails = (name: string) => settings.shifts.find(s => s.name === name);
+  const getAbsenceDetails = (name: string) => settings.absenceTypes.find(a => a.name === name);
+
+  const hoursReport = useMemo(() => {
+    if (!hoursMonth) return null;
+    const { from, to } = getMonthRange(hoursMonth);
+    const rows = filteredEmployees.map(emp => ({
+      emp,
+      weeks: computeWeeklyHours(planning, emp.id, settings, from, to, planningMeta),
+      month: computeHours(planning, emp.id, settings, from, to, planningMeta)
+    }));
+    return { from, to, weeks: getWeeksInRange(from, to), rows };
+  }, [hoursMonth, filteredEmployees, planning, planningMeta, settings]);
+
+  const formatShortDate = (dateStr: string) => `${dateStr.substring(8, 10)}/${dateStr.substring(5, 7)}`;
+
+  // Individual monthly calendars: one portrait page per employee, Monday to Sunday rows with the week's hours
+  const handleExportSchedules = () => {
+    if (!hoursMonth) return;
+    const fr = settings.language === 'fr';
+    const { from, to } = getMonthRange(hoursMonth);
+    const targets = scheduleEmployeeId ? filteredEmployees.filter(e => String(e.id) === scheduleEmployeeId) : filteredEmployees;
+    if (targets.length === 0) return;
+    const monthLabel = new Date(`${hoursMonth}-01T00:00:00`).toLocaleDateString(fr ? 'fr-FR' : 'en-US', { month: 'long', year: 'numeric' });
+    const weeks = getWeeksInRange(from, to);
+    const toRgb = (color: string): [number, number, number] => {
+      const hex = color.replace('#', '');
+      return [parseInt(hex.slice(0, 2), 16), parseInt(hex.slice(2, 4), 16), parseInt(hex.slice(4, 6), 16)];
+    };
+
+    try {
+      const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+      targets.forEach((emp, index) => {
+        if (index > 0) doc.addPage();
+        const team = teams.find(t => t.id === emp.teamId);
+        doc.setFontSize(16);
+        doc.setTextColor(31, 41, 55);
+        doc.text(`${emp.firstName} ${emp.lastName}`, 14, 15);
+        doc.setFontSize(9);
+        doc.setTextColor(107, 114, 128);
+        doc.text(`${fr ? 'Matricule' : 'ID'}: ${emp.matricule}${team ? ` | ${fr ? 'Équipe' : 'Team'}: ${team.name}` : ''}`, 14, 22);
+        doc.text(`${fr ? 'Planning de' : 'Schedule for'} ${monthLabel}`, 14, 27);
+
+        // Each week row holds the 7 days (blank outside the month) followed by the week's total hours
+        const body = weeks.map(week => [
+          ...Array.from({ length: 7 }, (_, day) => {
+            const dateStr = addDays(week.weekStart, day);
+            if (dateStr < from || dateStr > to) return '';
+            const key = planningKey(emp.id, dateStr);
+            const value = planning[key];
+            const shift = value ? getShiftDetails(value) : undefined;
+            const holiday = findHoliday(settings.holidays, dateStr);
+            return [
+              dateStr.substring(8, 10),
+              formatCellLabel(value, planningMeta[key], settings),
+              shift && !getCurrentDetails(value, planningMeta[key])?.secondHalf ? `${shift.start}-${shift.end}` : '',
+              holiday ? holiday.name : ''
+            ].filter(Boolean).join('\n');
+          }),
+          `${computeHours(planning, emp.id, settings, week.from, week.to, planningMeta).total} h`
+        ]);
+
+        autoTable(doc, {
+          head: [[...(fr ? ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'] : ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']), fr ? 'Heures' : 'Hours']],
+          body,
+          startY: 32,
+          theme: 'grid',
+          styles: { fontSize: 7, cellPadding: 1.5, valign: 'top', minCellHeight: 24, lineWidth: 0.1, lineColor: [229, 231, 235] },
+          columnStyles: { 7: { halign: 'center', valign: 'middle', fontStyle: 'bold', fillColor: [249, 250, 251] } },
+          headStyles: { fillColor: [59, 130, 246], textColor: [255, 255, 255], fontStyle: 'bold', halign: 'center', minCellHeight: 0 },
+          didParseCell: (data) => {
+            if (data.section !== 'body' || data.column.index > 6) return;
+            const dateStr = addDays(weeks[data.row.index].weekStart, data.column.index);
+            if (dateStr < from || dateStr > to) {
+              data.cell.styles.fillColor = [243, 244, 246];
+              return;
+            }
+            const value = planning[planningKey(emp.id, dateStr)];
+            const details = value ? getShiftDetails(value) || getAbsenceDetails(value) : undefined;
+            if (details) {
+              data.cell.styles.fillColor = toRgb(details.color);
+              data.cell.styles.textColor = [255, 255, 255];
+            } else if (findHoliday(settings.holidays, dateStr)) {
+              data.cell.styles.fillColor = [254, 242, 242];
+              data.cell.styles.textColor = [185, 28, 28];
+            }
+          }
+        });
+
+        const month = computeHours(planning, emp.id, settings, from, to, planningMeta);
+        const absenceDays = settings.absenceTypes
+          .map(a => ({ name: a.name, days: getDateRange(from, to).reduce((total, dateStr) => total + getCellLeaveDays(planning[planningKey(emp.id, dateStr)], planningMeta[planningKey(emp.id, dateStr)], a.name, settings), 0) }))
+          .filter(a => a.days > 0);
+        autoTable(doc, {
+          head: [[fr ? 'Travaillées' : 'Worked', fr ? 'Absences comptées' : 'Credited absences', fr ? 'Dont fériés' : 'On holidays', 'Total', fr ? 'Absences (jours)' : 'Absences (days)']],
+          body: [[
+            `${month.worked} h`,
+            `${month.credited} h`,
+            `${month.holiday} h`,
+            `${month.total} h`,
+            absenceDays.map(a => `${a.name}: ${a.days}`).join(', ') || '-'
+          ]],
+          startY: (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 6,
+          theme: 'grid',
+          styles: { fontSize: 8, cellPadding: 2, halign: 'center', lineWidth: 0.1, lineColor: [229, 231, 235] },
+          headStyles: { fillColor: [59, 130, 246], textColor: [255, 255, 255], fontStyle: 'bold' },
+          columnStyles: { 3: { fontStyle: 'bold' } }
+        });
+
+        const pageHeight = doc.internal.pageSize.getHeight();
+        doc.setFontSize(8);
+        doc.setTextColor(156, 163, 175);
+        doc.text(`Team LP - Generated on ${new Date().toLocaleDateString()} by ${currentUser.name}`, 14, pageHeight - 10);
+      });
+
+      const single = targets.length === 1 ? `_${targets[0].lastName}_${targets[0].firstName}` : '';
+      doc.save(`${fr ? 'planning_individuel' : 'individual_schedule'}_${hoursMonth}${single}.pdf`);
+    } catch (error) {
+      console.error("Export failed:", error);
+    }
+  };
+
+  const handleExportHours = () => {
+    if (!hoursReport) return;
+    const fr = settings.language === 'fr';
+    const filename = `${fr ? 'heures' : 'hours'}_${hoursMonth}_${new Date().toISOString().slice(0, 10)}`;
+    const editionDate = new Date().toLocaleString(fr ? 'fr-FR' : 'en-US');
+    let tableContent = `
+      <html>
+      <head>
+      <meta charset="UTF-8">
+      <style>
+        table { border-collapse: collapse; width: 100%; font-family: sans-serif; }
+        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+        th { background-color: #f2f2f2; }
+        .meta { font-size: 12px; color: #666; margin-bottom: 10px; }
+        .header { font-size: 18px; font-weight: bold; margin-bottom: 5px; }
+        .total { font-weight: bold; background-color: #f9fafb; }
+      </style>
+      </head>
+      <body>
+        <div class="header">${fr ? 'Rapport des heures travaillées' : 'Worked Hours Report'}</div>
+        <div class="meta">
+          <strong>${fr ? 'Période' : 'Period'}:</strong> ${formatDisplayDateLocal(hoursReport.from, settings.dateFormat)} - ${formatDisplayDateLocal(hoursReport.to, settings.dateFormat)}<br/>
+          <strong>${fr ? 'Édité le' : 'Edited on'}:</strong> ${editionDate}<br/>
+          <strong>${fr ? 'Par' : 'By'}:</strong> ${currentUser.name}
+        </div>
+        <br/>
+        <table>
+          <thead>
+            <tr>
+              <th>${fr ? 'Employé' : 'Employee'}</th>
+              <th>${fr ? 'Matricule' : 'ID'}</th>
+              ${hoursReport.weeks.map(w => `<th>${formatShortDate(w.from)} - ${formatShortDate(w.to)}</th>`).join('')}
+              <th>${fr ? 'Travaillées' : 'Worked'}</th>
+              <th>${fr ? 'Absences comptées' : 'Credited absences'}</th>
+              <th>${fr ? 'Dont fériés' : 'On holidays'}</th>
+              <th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+    `;
+    hoursReport.rows.forEach(({ emp, weeks, month }) => {
+      tableContent += `
+            <tr>
+              <td>${emp.firstName} ${emp.lastName}</td>
+              <td>${emp.matricule}</td>
+              ${weeks.map(w => `<td>${w.hours.total}</td>`).join('')}
+              <td>${month.worked}</td>
+              <td>${month.credited}</td>
+              <td>${month.holiday}</td>
+              <td class="total">${month.total}</td>
+            </tr>
+      `;
+    });
+    tableContent += `
+          </tbody>
+        </table>
+      </body>
+      </html>
+    `;
+
+    const blob = new Blob([tableContent], { type: 'application/vnd.ms-excel' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", `${filename}.xls`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={settings.language === 'fr' ? 'Rapport des heures' : 'Hours report'} size="lg">
+      <div className="space-y-4">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{settings.language === 'fr' ? 'Mois' : 'Month'}</label>
+            <input type="month" value={hoursMonth} onChange={e => setHoursMonth(e.target.value)} className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <span className="text-xs text-gray-500">{filteredEmployees.length} {settings.language === 'fr' ? 'employé(s) filtré(s)' : 'filtered employee(s)'}</span>
+            <select value={scheduleEmployeeId} onChange={e => setScheduleEmployeeId(e.target.value)} className="px-2 py-1 border rounded-lg bg-white text-xs" title={settings.language === 'fr' ? 'Plannings individuels à imprimer' : 'Individual schedules to print'}>
+              <option value="">{settings.language === 'fr' ? 'Plannings individuels : tous' : 'Individual schedules: all'}</option>
+              {filteredEmployees.map(emp => <option key={emp.id} value={emp.id}>{emp.firstName} {emp.lastName}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {hoursReport && (
+          <div className="border border-gray-100 rounded-lg max-h-80 overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Employé' : 'Employee'}</th>
+                  {hoursReport.weeks.map(w => (
+                    <th key={w.from} className="px-2 py-2 text-center whitespace-nowrap">{formatShortDate(w.from)} - {formatShortDate(w.to)}</th>
+                  ))}
+                  <th className="px-2 py-2 text-center">{settings.language === 'fr' ? 'Absences' : 'Absences'}</th>
+                  <th className="px-2 py-2 text-center">{settings.language === 'fr' ? 'Fériés' : 'Holidays'}</th>
+                  <th className="px-3 py-2 text-center">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {hoursReport.rows.map(({ emp, weeks, month }) => (
+                  <tr key={emp.id}>
+                    <td className="px-3 py-1.5 font-medium text-gray-800 whitespace-nowrap">{emp.firstName} {emp.lastName}</td>
+                    {weeks.map(w => (
+                      <td key={w.from} className={`px-2 py-1.5 text-center ${settings.laborRules.enabled && w.hours.worked > settings.laborRules.maxWeeklyHours ? 'text-red-600 font-bold' : 'text-gray-600'}`}>{w.hours.total}</td>
+                    ))}
+                    <td className="px-2 py-1.5 text-center text-gray-500">{month.credited}</td>
+                    <td className="px-2 py-1.5 text-center text-gray-500">{month.holiday}</td>
+                    <td className="px-3 py-1.5 text-center font-black text-gray-800">{month.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button type="button" variant="ghost" onClick={onClose}>{t.cancel}</Button>
+          <Button variant="secondary" icon={Download} onClick={handleExportSchedules} disabled={!hoursMonth || filteredEmployees.length === 0}>
+            {settings.language === 'fr' ? 'Plannings individuels (PDF)' : 'Individual schedules (PDF)'}
+          </Button>
+          <Button icon={FileText} onClick={handleExportHours} disabled={!hoursReport || hoursReport.rows.length === 0}>
+            Excel (.xls)
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
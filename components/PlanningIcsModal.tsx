@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Download } from 'lucide-react';
+import { AppSettings, Employee, PlanningData, PlanningMeta, PlanningWindow, Team, User } from '../types';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { TRANSLATIONS } from '../constants';
+import { buildICalendar } from '../services/ical';
+
+interface PlanningIcsModalProps {
+  employees: Employee[];
+  filteredEmployees: Employee[];
+  teams: Team[]; // Teams offered as targets
+  settings: AppSettings;
+  planning: PlanningData;
+  planningMeta: PlanningMeta;
+  currentUser: User;
+  defaultTeamId: string;
+  from: string;
+  to: string;
+  onSetPlanningWindow: (id: string, window: PlanningWindow | null) => void;
+  onClose: () => void;
+}
+
+export const PlanningIcsModal: React.FC<PlanningIcsModalProps> = ({ employees, filteredEmployees, teams, settings, planning, planningMeta, currentUser, defaultTeamId, from, to, onSetPlanningWindow, onClose }) => {
+  const t = TRANSLATIONS[settings.language];
+
+  // Target is "employee:<id>" or "team:<id>": the signed-in employee first, then the filtered team
+  const [icsForm, setIcsForm] = useState(() => ({
+    target: filteredEmployees.some(e => currentUser.employeeId != null && e.id == currentUser.employeeId) ? `employee:${currentUser.employeeId}`
+      : defaultTeamId ? `team:${defaultTeamId}`
+      : filteredEmployees[0] ? `employee:${filteredEmployees[0].id}` : '',
+    from,
+    to
+  }));
+
+  useEffect(() => {
+    if (!icsForm.from || !icsForm.to || icsForm.from > icsForm.to) return;
+    onSetPlanningWindow('planning-ics', { from: icsForm.from, to: icsForm.to });
+    return () => onSetPlanningWindow('planning-ics', null);
+  }, [icsForm.from, icsForm.to, onSetPlanningWindow]);
+
+  const icsEmployees = useMemo(() => {
+    const [kind, id] = icsForm.target.split(':');
+    if (kind === 'team') return employees.filter(e => String(e.teamId) === id && !e.exitDate);
+    return employees.filter(e => String(e.id) === id);
+  }, [icsForm.target, employees]);
+
+  const handleExportIcs = () => {
+    if (icsEmployees.length === 0 || !icsForm.from || !icsForm.to || icsForm.to < icsForm.from) return;
+    const [kind, id] = icsForm.target.split(':');
+    const label = kind === 'team'
+      ? teams.find(t => String(t.id) === id)?.name || id
+      : `${icsEmployees[0].firstName} ${icsEmployees[0].lastName}`;
+    const content = buildICalendar(planning, icsEmployees, settings, icsForm.from, icsForm.to, planningMeta, `Team LP - ${label}`);
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `planning_${label.replace(/[^\w-]+/g, '_')}_${icsForm.from}_${icsForm.to}.ics`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={settings.language === 'fr' ? 'Exporter vers un agenda' : 'Export to calendar'} size="md">
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{settings.language === 'fr' ? 'Planning de' : 'Schedule of'}</label>
+          <select value={icsForm.target} onChange={e => setIcsForm({ ...icsForm, target: e.target.value })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm">
+            <optgroup label={settings.language === 'fr' ? 'Équipes' : 'Teams'}>
+              {teams.map(team => <option key={team.id} value={`team:${team.id}`}>{team.name}</option>)}
+            </optgroup>
+            <optgroup label={settings.language === 'fr' ? 'Employés' : 'Employees'}>
+              {filteredEmployees.map(emp => <option key={emp.id} value={`employee:${emp.id}`}>{emp.firstName} {emp.lastName}</option>)}
+            </optgroup>
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.start_date}</label>
+            <input type="date" value={icsForm.from} onChange={e => setIcsForm({ ...icsForm, from: e.target.value })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.end_date}</label>
+            <input type="date" value={icsForm.to} min={icsForm.from} onChange={e => setIcsForm({ ...icsForm, to: e.target.value })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+          </div>
+        </div>
+
+        <div className="p-3 bg-blue-50/50 rounded-lg border border-blue-100 text-xs text-blue-900">
+          {settings.language === 'fr'
+            ? 'Les postes sont exportés avec leurs horaires, les absences en journée entière. Réimporter un nouveau fichier met à jour les événements existants au lieu de les dupliquer.'
+            : 'Shifts are exported with their times, absences as all-day events. Importing a newer file updates existing events instead of duplicating them.'}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button type="button" variant="ghost" onClick={onClose}>{t.cancel}</Button>
+          <Button icon={Download} onClick={handleExportIcs} disabled={icsEmployees.length === 0 || !icsForm.from || !icsForm.to || icsForm.to < icsForm.from}>
+            {settings.language === 'fr' ? 'Télécharger (.ics)' : 'Download (.ics)'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { AppSettings, Employee, PlanningData, PlanningMeta, PlanningWindow } from '../types';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { TRANSLATIONS } from '../constants';
+import { formatDisplayDateLocal } from '../services/planning';
+import { describeViolation } from '../services/laborRules';
+import { analyzePlanningImport, getDefaultMapping, parseCsv, parseXlsx, ImportIssue, ImportMapping } from '../services/planningImport';
+
+interface PlanningImportModalProps {
+  employees: Employee[];
+  settings: AppSettings;
+  planning: PlanningData;
+  planningMeta: PlanningMeta;
+  onBulkUpdatePlanning: (changes: Record<string, string | null>, action: string, details: string) => void;
+  onSetPlanningWindow: (id: string, window: PlanningWindow | null) => void;
+  onClose: () => void;
+}
+
+export const PlanningImportModal: React.FC<PlanningImportModalProps> = ({ employees, settings, planning, planningMeta, onBulkUpdatePlanning, onSetPlanningWindow, onClose }) => {
+  const t = TRANSLATIONS[settings.language];
+
+  const [importFile, setImportFile] = useState<{ name: string; rows: string[][]; from: string; to: string } | null>(null);
+  const [importMapping, setImportMapping] = useState<ImportMapping>({});
+  const [importError, setImportError] = useState('');
+
+  // The dates of the file are loaded to compare and validate them
+  useEffect(() => {
+    if (!importFile) return;
+    onSetPlanningWindow('planning-import', { from: importFile.from, to: importFile.to });
+    return () => onSetPlanningWindow('planning-import', null);
+  }, [importFile?.from, importFile?.to, onSetPlanningWindow]);
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportError('');
+    try {
+      const rows = /\.xlsx$/i.test(file.name) ? parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+      const { dates, codes } = analyzePlanningImport(rows, employees, settings, planning, {});
+      if (dates.length === 0) {
+        setImportFile(null);
+        setImportError(settings.language === 'fr' ? 'Aucune colonne de date trouvée dans le fichier.' : 'No date column found in the file.');
+        return;
+      }
+      const sortedDates = [...dates].sort();
+      setImportFile({ name: file.name, rows, from: sortedDates[0], to: sortedDates[sortedDates.length - 1] });
+      setImportMapping(getDefaultMapping(codes.map(c => c.code), settings));
+    } catch (error) {
+      console.error("Import failed:", error);
+      setImportFile(null);
+      setImportError(settings.language === 'fr' ? 'Fichier illisible : utilisez un CSV ou un classeur .xlsx.' : 'Unreadable file: use a CSV or an .xlsx workbook.');
+    }
+  };
+
+  const importReport = useMemo(() => {
+    if (!importFile) return null;
+    return analyzePlanningImport(importFile.rows, employees, settings, planning, importMapping, planningMeta);
+  }, [importFile, employees, settings, planning, planningMeta, importMapping]);
+
+  const describeImportIssue = (issue: ImportIssue) => {
+    const fr = settings.language === 'fr';
+    if (issue.kind === 'unknown_employee') return fr ? `Matricule inconnu, ${issue.detail} cellule(s) ignorée(s)` : `Unknown matricule, ${issue.detail} cell(s) skipped`;
+    if (issue.kind === 'inactive_employee') {
+      const [exitDate, count] = issue.detail.split(': ');
+      return fr ? `Employé sorti le ${formatDisplayDateLocal(exitDate, settings.dateFormat)}, ${count} cellule(s) ignorée(s)` : `Employee left on ${formatDisplayDateLocal(exitDate, settings.dateFormat)}, ${count} cell(s) skipped`;
+    }
+    return fr ? `Planning verrouillé jusqu'au ${issue.detail}, cellules concernées ignorées` : `Planning locked until ${issue.detail}, affected cells skipped`;
+  };
+
+  const isImportBlocked = !!importReport && settings.laborRules?.mode === 'block' && importReport.violations.length > 0;
+
+  const handleApplyImport = () => {
+    if (!importFile || !importReport || isImportBlocked) return;
+    const count = Object.keys(importReport.changes).length;
+    if (count === 0) return;
+    onBulkUpdatePlanning(
+      importReport.changes,
+      'IMPORT_PLANNING',
+      `Imported ${importFile.name}: ${count} cells for ${importReport.employeeCount} employees (${importReport.dates[0]} - ${importReport.dates[importReport.dates.length - 1]}, ${importReport.overwrites} overwritten, ${importReport.issues.length} issues)`
+    );
+    onClose();
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={settings.language === 'fr' ? 'Importer un planning' : 'Import a schedule'} size="lg">
+      <div className="space-y-4">
+        <div className="p-3 bg-gray-50 rounded-lg border border-gray-100 text-xs text-gray-600">
+          {settings.language === 'fr'
+            ? 'Une ligne par employé avec son matricule en première colonne, une colonne par date (JJ/MM/AAAA ou AAAA-MM-JJ), les postes ou absences dans les cellules. Les cellules vides ne modifient rien.'
+            : 'One row per employee with the matricule in the first column, one column per date (DD/MM/YYYY or YYYY-MM-DD), shifts or absences in the cells. Empty cells change nothing.'}
+        </div>
+
+        <input type="file" accept=".csv,.txt,.xlsx" onChange={e => { handleImportFile(e.target.files?.[0]); e.target.value = ''; }} className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-600 file:font-bold hover:file:bg-blue-100" />
+        {importError && <p className="text-xs text-red-600 font-medium">{importError}</p>}
+
+        {importFile && importReport && (
+          <>
+            <div className="border border-gray-100 rounded-lg max-h-56 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Code du fichier' : 'File code'}</th>
+                    <th className="px-3 py-2 text-center">{settings.language === 'fr' ? 'Cellules' : 'Cells'}</th>
+                    <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Importer comme' : 'Import as'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {importReport.codes.map(({ code, count }) => (
+                    <tr key={code}>
+                      <td className="px-3 py-1.5 font-bold text-gray-800">{code}</td>
+                      <td className="px-3 py-1.5 text-center text-gray-500">{count}</td>
+                      <td className="px-3 py-1.5">
+                        <select value={importMapping[code] ?? '?'} onChange={e => setImportMapping({ ...importMapping, [code]: e.target.value })} className={`w-full px-2 py-1 border rounded bg-white text-xs ${importMapping[code] === undefined ? 'border-orange-300 text-orange-700' : ''}`}>
+                          <option value="?" disabled>{settings.language === 'fr' ? 'À associer...' : 'To map...'}</option>
+                          <option value="">{settings.language === 'fr' ? 'Ignorer' : 'Skip'}</option>
+                          <optgroup label={settings.language === 'fr' ? 'Postes' : 'Shifts'}>
+                            {settings.shifts.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+                          </optgroup>
+                          <optgroup label={settings.language === 'fr' ? 'Absences' : 'Absences'}>
+                            {settings.absenceTypes.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+                          </optgroup>
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="p-3 bg-blue-50/50 rounded-lg border border-blue-100 text-xs text-blue-900 space-y-1">
+              <div className="font-bold">{importFile.name} · {formatDisplayDateLocal(importReport.dates[0], settings.dateFormat)} - {formatDisplayDateLocal(importReport.dates[importReport.dates.length - 1], settings.dateFormat)}</div>
+              <div>
+                {settings.language === 'fr'
+                  ? `${Object.keys(importReport.changes).length} cellule(s) à écrire pour ${importReport.employeeCount} employé(s), dont ${importReport.overwrites} remplacée(s) ; ${importReport.unchanged} déjà à jour ; ${importReport.unmapped} en attente d'association.`
+                  : `${Object.keys(importReport.changes).length} cell(s) to write for ${importReport.employeeCount} employee(s), ${importReport.overwrites} overwritten; ${importReport.unchanged} already up to date; ${importReport.unmapped} waiting for a mapping.`}
+              </div>
+            </div>
+
+            {importReport.issues.length > 0 && (
+              <div className="border border-orange-100 rounded-lg max-h-40 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-orange-50 text-orange-700 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Ligne' : 'Row'}</th>
+                      <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Matricule' : 'ID'}</th>
+                      <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Problème' : 'Issue'}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {importReport.issues.map((issue, index) => (
+                      <tr key={index}>
+                        <td className="px-3 py-1.5 text-gray-500">{issue.row}</td>
+                        <td className="px-3 py-1.5 font-medium text-gray-800">{issue.matricule}</td>
+                        <td className="px-3 py-1.5 text-gray-700">{describeImportIssue(issue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {importReport.violations.length > 0 && (
+              <div className={`border rounded-lg ${isImportBlocked ? 'border-red-200' : 'border-orange-100'}`}>
+                <div className={`px-3 py-2 text-xs font-bold flex items-center gap-1.5 ${isImportBlocked ? 'bg-red-50 text-red-700' : 'bg-orange-50 text-orange-700'}`}>
+                  <AlertTriangle size={14} />
+                  {isImportBlocked
+                    ? (settings.language === 'fr' ? `${importReport.violations.length} règle(s) du travail enfreinte(s) : corrigez le fichier pour importer` : `${importReport.violations.length} labor rule violation(s): fix the file to import`)
+                    : (settings.language === 'fr' ? `${importReport.violations.length} règle(s) du travail enfreinte(s)` : `${importReport.violations.length} labor rule violation(s)`)}
+                </div>
+                <div className="max-h-40 overflow-y-auto divide-y divide-gray-100">
+                  {importReport.violations.map((v, index) => {
+                    const emp = employees.find(e => e.id === v.employeeId);
+                    return (
+                      <div key={index} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                        <span className="font-medium text-gray-800 w-40 truncate">{emp ? `${emp.firstName} ${emp.lastName}` : v.employeeId}</span>
+                        <span className="text-gray-500 w-24">{formatDisplayDateLocal(v.date, settings.dateFormat)}</span>
+                        <span className="text-red-600 flex-1">{describeViolation(v, settings)}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button type="button" variant="ghost" onClick={onClose}>{t.cancel}</Button>
+          <Button icon={FileUp} onClick={handleApplyImport} disabled={!importReport || Object.keys(importReport.changes).length === 0 || isImportBlocked}>
+            {settings.language === 'fr' ? 'Importer' : 'Import'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
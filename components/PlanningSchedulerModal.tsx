@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowRight, Wand2 } from 'lucide-react';
+import { AppSettings, Employee, PlanningData, PlanningWindow, Team } from '../types';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { TRANSLATIONS } from '../constants';
+import { formatDisplayDateLocal, parseLocalDate, parsePlanningKey } from '../services/planning';
+import { generateSchedule, getDefaultRestValue, ScheduleResult } from '../services/scheduler';
+
+interface PlanningSchedulerModalProps {
+  employees: Employee[];
+  teams: Team[];
+  settings: AppSettings;
+  planning: PlanningData;
+  defaultTeamId: string;
+  isTeamLocked: boolean; // Managers only schedule their own team
+  from: string;
+  to: string;
+  onBulkUpdatePlanning: (changes: Record<string, string | null>, action: string, details: string) => void;
+  onSetPlanningWindow: (id: string, window: PlanningWindow | null) => void;
+  onClose: () => void;
+}
+
+export const PlanningSchedulerModal: React.FC<PlanningSchedulerModalProps> = ({ employees, teams, settings, planning, defaultTeamId, isTeamLocked, from, to, onBulkUpdatePlanning, onSetPlanningWindow, onClose }) => {
+  const t = TRANSLATIONS[settings.language];
+
+  const [schedulerForm, setSchedulerForm] = useState(() => ({
+    teamId: defaultTeamId || (teams[0] ? String(teams[0].id) : ''),
+    from,
+    to,
+    keepExisting: true,
+    restValue: getDefaultRestValue(settings) || ''
+  }));
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleResult | null>(null);
+
+  useEffect(() => {
+    if (!schedulerForm.from || !schedulerForm.to || schedulerForm.from > schedulerForm.to) return;
+    onSetPlanningWindow('planning-scheduler', { from: schedulerForm.from, to: schedulerForm.to });
+    return () => onSetPlanningWindow('planning-scheduler', null);
+  }, [schedulerForm.from, schedulerForm.to, onSetPlanningWindow]);
+
+  const formatModalDate = (dateStr: string) => parseLocalDate(dateStr).toLocaleDateString(settings.language === 'fr' ? 'fr-FR' : 'en-US', { weekday: 'long', day: 'numeric', month: 'long' });
+
+  const handleGenerateSchedule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!schedulerForm.teamId || !schedulerForm.from || !schedulerForm.to) return;
+    setScheduleDraft(generateSchedule(planning, employees, settings, {
+      teamId: Number(schedulerForm.teamId),
+      from: schedulerForm.from,
+      to: schedulerForm.to,
+      keepExisting: schedulerForm.keepExisting,
+      restValue: schedulerForm.restValue || null
+    }));
+  };
+
+  const scheduleDiff = useMemo(() => {
+    if (!scheduleDraft) return [];
+    return Object.keys(scheduleDraft.changes)
+      .map(key => ({ key, ...parsePlanningKey(key), previous: planning[key] || null, next: scheduleDraft.changes[key] }))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.employeeId - b.employeeId);
+  }, [scheduleDraft, planning]);
+
+  const handleApplySchedule = () => {
+    if (!scheduleDraft || scheduleDiff.length === 0) return;
+    const teamName = teams.find(t => String(t.id) === schedulerForm.teamId)?.name || schedulerForm.teamId;
+    onBulkUpdatePlanning(
+      scheduleDraft.changes,
+      'AUTO_SCHEDULE',
+      `Generated schedule for team ${teamName} from ${schedulerForm.from} to ${schedulerForm.to} (${scheduleDiff.length} cells, ${scheduleDraft.gaps.length} coverage gaps)`
+    );
+    onClose();
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={settings.language === 'fr' ? 'Générer le planning' : 'Generate schedule'} size="lg">
+      <div className="space-y-4">
+        <form onSubmit={handleGenerateSchedule} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{settings.language === 'fr' ? 'Équipe' : 'Team'}</label>
+              <select required value={schedulerForm.teamId} onChange={e => { setSchedulerForm({ ...schedulerForm, teamId: e.target.value }); setScheduleDraft(null); }} disabled={isTeamLocked} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm">
+                <option value="">{t.select_team}</option>
+                {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.start_date}</label>
+              <input required type="date" value={schedulerForm.from} onChange={e => { setSchedulerForm({ ...schedulerForm, from: e.target.value }); setScheduleDraft(null); }} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.end_date}</label>
+              <input required type="date" min={schedulerForm.from} value={schedulerForm.to} onChange={e => { setSchedulerForm({ ...schedulerForm, to: e.target.value }); setScheduleDraft(null); }} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm" />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input type="checkbox" checked={schedulerForm.keepExisting} onChange={e => { setSchedulerForm({ ...schedulerForm, keepExisting: e.target.checked }); setScheduleDraft(null); }} className="rounded border-gray-300" />
+            {settings.language === 'fr' ? 'Conserver les shifts déjà planifiés (les absences sont toujours conservées)' : 'Keep shifts already planned (absences are always kept)'}
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{settings.language === 'fr' ? 'Jours non travaillés' : 'Days off'}</label>
+            <select value={schedulerForm.restValue} onChange={e => { setSchedulerForm({ ...schedulerForm, restValue: e.target.value }); setScheduleDraft(null); }} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm">
+              <option value="">{settings.language === 'fr' ? 'Laisser vide' : 'Leave empty'}</option>
+              {settings.absenceTypes.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+            </select>
+          </div>
+
+          {!settings.coverageTargets.some(c => String(c.teamId) === schedulerForm.teamId) && (
+            <div className="p-3 bg-orange-50 rounded-lg border border-orange-100 text-xs text-orange-700">
+              {settings.language === 'fr'
+                ? 'Aucun effectif requis pour cette équipe : seuls les shifts par défaut seront proposés.'
+                : 'No coverage target for this team: only default shifts will be proposed.'}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button type="submit" variant="secondary" icon={Wand2}>
+              {settings.language === 'fr' ? 'Générer le brouillon' : 'Generate draft'}
+            </Button>
+          </div>
+        </form>
+
+        {scheduleDraft && (
+          <>
+            <div className="p-3 bg-blue-50/50 rounded-lg border border-blue-100 text-xs text-blue-900">
+              {settings.language === 'fr'
+                ? `${scheduleDiff.length} cellule(s) modifiée(s), dont ${scheduleDiff.filter(d => d.previous).length} déjà renseignée(s).`
+                : `${scheduleDiff.length} cell(s) changed, ${scheduleDiff.filter(d => d.previous).length} already filled.`}
+            </div>
+
+            {scheduleDraft.gaps.length > 0 && (
+              <div className="p-3 bg-red-50 rounded-lg border border-red-100 text-xs text-red-700 max-h-28 overflow-y-auto">
+                <p className="font-bold mb-1">{settings.language === 'fr' ? 'Objectifs non atteints' : 'Unmet targets'} ({scheduleDraft.gaps.length})</p>
+                {scheduleDraft.gaps.map(gap => (
+                  <div key={`${gap.date}_${gap.shift}`} className="flex justify-between">
+                    <span className="capitalize">{formatModalDate(gap.date)} · {gap.shift}</span>
+                    <span className="font-black">{gap.count}/{gap.target} (min. {gap.min})</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="border border-gray-100 rounded-lg overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Employé' : 'Employee'}</th>
+                    <th className="px-3 py-2 text-center">Shifts</th>
+                    <th className="px-3 py-2 text-center">{settings.language === 'fr' ? 'Nuits' : 'Nights'}</th>
+                    <th className="px-3 py-2 text-center">{settings.language === 'fr' ? 'Week-ends' : 'Weekends'}</th>
+                    <th className="px-3 py-2 text-center">{settings.language === 'fr' ? 'Heures' : 'Hours'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {scheduleDraft.load.map(l => {
+                    const emp = employees.find(e => e.id === l.employeeId);
+                    return (
+                      <tr key={l.employeeId}>
+                        <td className="px-3 py-1.5 font-medium text-gray-800">{emp ? `${emp.firstName} ${emp.lastName}` : l.employeeId}</td>
+                        <td className="px-3 py-1.5 text-center">{l.shifts}</td>
+                        <td className="px-3 py-1.5 text-center">{l.nights}</td>
+                        <td className="px-3 py-1.5 text-center">{l.weekends}</td>
+                        <td className="px-3 py-1.5 text-center">{l.hours}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {scheduleDiff.length > 0 && (
+              <div className="border border-gray-100 rounded-lg max-h-56 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Employé' : 'Employee'}</th>
+                      <th className="px-3 py-2 text-left">Date</th>
+                      <th className="px-3 py-2 text-left">{settings.language === 'fr' ? 'Changement' : 'Change'}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {scheduleDiff.slice(0, 200).map(d => {
+                      const emp = employees.find(e => e.id === d.employeeId);
+                      return (
+                        <tr key={d.key}>
+                          <td className="px-3 py-1.5 font-medium text-gray-800">{emp ? `${emp.firstName} ${emp.lastName}` : d.employeeId}</td>
+                          <td className="px-3 py-1.5 text-gray-500">{formatDisplayDateLocal(d.date, settings.dateFormat)}</td>
+                          <td className="px-3 py-1.5 text-gray-700 flex items-center gap-1">
+                            <span className={d.previous ? 'line-through text-gray-400' : 'text-gray-300'}>{d.previous || (settings.language === 'fr' ? 'Vide' : 'Empty')}</span>
+                            <ArrowRight size={10} className="text-gray-400" />
+                            <span className="font-bold">{d.next || (settings.language === 'fr' ? 'Vide' : 'Empty')}</span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {scheduleDiff.length > 200 && (
+                  <p className="text-[10px] text-gray-400 text-center py-2">+{scheduleDiff.length - 200}</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button type="button" variant="ghost" onClick={onClose}>{t.cancel}</Button>
+          <Button icon={Wand2} onClick={handleApplySchedule} disabled={!scheduleDraft || scheduleDiff.length === 0}>
+            {settings.language === 'fr' ? 'Valider le planning' : 'Commit schedule'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
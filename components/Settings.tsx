@@ -1,10 +1,12 @@
 
 import React, { useState, useMemo } from 'react';
-import { Plus, Trash2, CheckSquare, Square, Globe, Briefcase, Users as UsersIcon, Clock, Edit2, CalendarOff, CalendarDays, List, MapPin, Info, ChevronRight, Hash } from 'lucide-react';
-import { AppSettings, Team, Employee, Shift, Holiday, AbsenceType, User } from '../types';
+import { Plus, Trash2, CheckSquare, Square, Globe, Briefcase, Users as UsersIcon, Clock, Edit2, CalendarOff, CalendarDays, List, MapPin, Info, ChevronRight, Hash, Repeat, ShieldAlert, ShieldCheck, Target, Lock, Moon, Wallet } from 'lucide-react';
+import { AppSettings, Team, Employee, Shift, Holiday, AbsenceType, User, RotationPattern, LaborRules, CoverageTarget, PremiumRules, LeaveAccrualRule } from '../types';
 import { Button } from './ui/Button';
 import { Modal } from './ui/Modal';
 import { TRANSLATIONS, formatDisplayDate } from '../constants';
+import { parseRotationSequence, formatRotationSequence } from '../services/rotation';
+import { checkTeamIntegrity, TeamIntegrityIssue } from '../services/teamIntegrity';
 
 interface SettingsProps {
   currentUser: User;
@@ -12,13 +14,15 @@ interface SettingsProps {
   teams: Team[];
   employees: Employee[];
   onUpdateSettings: (key: keyof AppSettings, value: any) => void;
+  onSetPlanningLock: (until: string | null, reason?: string) => void;
   onAddTeam: (team: Omit<Team, 'id'>) => void;
   onUpdateTeam?: (id: number, team: Partial<Team>) => void;
   onDeleteTeam: (id: number) => void;
+  onRepairTeamIntegrity: () => Promise<void>;
 }
 
 export const Settings: React.FC<SettingsProps> = ({ 
-  currentUser, settings, teams, employees, onUpdateSettings, onAddTeam, onUpdateTeam, onDeleteTeam 
+  currentUser, settings, teams, employees, onUpdateSettings, onSetPlanningLock, onAddTeam, onUpdateTeam, onDeleteTeam, onRepairTeamIntegrity 
 }) => {
   const t = TRANSLATIONS[settings.language];
   const isAdmin = currentUser.role === 'admin';
@@ -54,6 +58,36 @@ export const Settings: React.FC<SettingsProps> = ({
   const [editingShiftIndex, setEditingShiftIndex] = useState<number | null>(null);
   const [shiftForm, setShiftForm] = useState<Shift>({ name: '', start: '08:00', end: '16:00', color: '#3b82f6' });
 
+  // Rotation State
+  const [isRotationModalOpen, setIsRotationModalOpen] = useState(false);
+  const [editingRotationId, setEditingRotationId] = useState<number | null>(null);
+  const [rotationName, setRotationName] = useState('');
+  const [rotationSequenceInput, setRotationSequenceInput] = useState('');
+
+  const parsedRotation = useMemo(() => parseRotationSequence(rotationSequenceInput, settings), [rotationSequenceInput, settings]);
+
+  // Labor Rules State (edited locally, saved at once)
+  const [laborRulesForm, setLaborRulesForm] = useState<LaborRules>(settings.laborRules);
+
+  // Premium Rules State (tiers edited as "35, 43")
+  const [premiumRulesForm, setPremiumRulesForm] = useState<PremiumRules>(settings.premiumRules);
+  const [overtimeTiersInput, setOvertimeTiersInput] = useState(settings.premiumRules.overtimeTiers.join(', '));
+
+  // Planning Lock State
+  const [lockForm, setLockForm] = useState({ until: settings.planningLockedUntil || '', reason: '' });
+  const isUnlocking = !!settings.planningLockedUntil && (!lockForm.until || lockForm.until < settings.planningLockedUntil);
+
+  // Coverage Targets State
+  const [coverageForm, setCoverageForm] = useState({ teamId: '', shift: '', weekday: '', min: 1, target: 1 });
+
+  // Leave Accrual State
+  const [accrualForm, setAccrualForm] = useState({ absenceType: '', monthlyDays: 2.08, carryOverCap: '' });
+
+  const weekdayNames = useMemo(() => {
+    // 2023-01-01 was a Sunday: index matches Date.getDay()
+    return Array.from({ length: 7 }, (_, i) => new Date(2023, 0, 1 + i).toLocaleDateString(settings.language === 'fr' ? 'fr-FR' : 'en-US', { weekday: 'long' }));
+  }, [settings.language]);
+
   // Team Modal State
   const [isTeamModalOpen, setIsTeamModalOpen] = useState(false);
   const [editingTeamId, setEditingTeamId] = useState<number | null>(null); 
@@ -61,10 +95,15 @@ export const Settings: React.FC<SettingsProps> = ({
   const [newTeamLeader, setNewTeamLeader] = useState<string>('');
   const [selectedMembers, setSelectedMembers] = useState<number[]>([]);
 
+  // Team integrity check (admins)
+  const [isIntegrityModalOpen, setIsIntegrityModalOpen] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const integrityReport = useMemo(() => checkTeamIntegrity(teams, employees), [teams, employees]);
+
   // Deletion Confirmation State
-  const [deleteConfirm, setDeleteConfirm] = useState<{ type: 'shift' | 'absence' | 'holiday' | 'team', id: any } | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<{ type: 'shift' | 'absence' | 'holiday' | 'team' | 'rotation', id: any } | null>(null);
 
-  const confirmDelete = (type: 'shift' | 'absence' | 'holiday' | 'team', id: any) => {
+  const confirmDelete = (type: 'shift' | 'absence' | 'holiday' | 'team' | 'rotation', id: any) => {
     setDeleteConfirm({ type, id });
   };
 
@@ -81,6 +120,8 @@ export const Settings: React.FC<SettingsProps> = ({
         if (editingHolidayOldDate === id) handleCancelEditHoliday();
     } else if (type === 'team') {
         onDeleteTeam(id);
+    } else if (type === 'rotation') {
+        onUpdateSettings('rotations', settings.rotations.filter(r => r.id !== id));
     }
     setDeleteConfirm(null);
   };
@@ -126,15 +167,17 @@ export const Settings: React.FC<SettingsProps> = ({
       if (!absenceForm.name) return;
       
       let newAbsences = [...settings.absenceTypes];
+      // Firestore rejects undefined fields (workedHours is optional)
+      const absence: AbsenceType = JSON.parse(JSON.stringify(absenceForm));
       
       if (editingAbsenceOldName) {
-          newAbsences = newAbsences.map(a => a.name === editingAbsenceOldName ? absenceForm : a);
+          newAbsences = newAbsences.map(a => a.name === editingAbsenceOldName ? absence : a);
       } else {
-          if (newAbsences.some(a => a.name === absenceForm.name)) {
+          if (newAbsences.some(a => a.name === absence.name)) {
               alert("Name already exists");
               return;
           }
-          newAbsences.push(absenceForm);
+          newAbsences.push(absence);
       }
       onUpdateSettings('absenceTypes', newAbsences);
       setIsAbsenceModalOpen(false);
@@ -206,6 +249,118 @@ export const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  // Rotation Handlers
+  const handleOpenRotationModal = (rotation?: RotationPattern) => {
+    if (rotation) {
+      setEditingRotationId(rotation.id);
+      setRotationName(rotation.name);
+      setRotationSequenceInput(rotation.sequence.join(' '));
+    } else {
+      setEditingRotationId(null);
+      setRotationName('');
+      setRotationSequenceInput('');
+    }
+    setIsRotationModalOpen(true);
+  };
+
+  const handleSaveRotation = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rotationName || parsedRotation.sequence.length === 0 || parsedRotation.unknown.length > 0) return;
+    const rotation: RotationPattern = {
+      id: editingRotationId ?? Date.now(),
+      name: rotationName,
+      sequence: parsedRotation.sequence
+    };
+    const newRotations = editingRotationId !== null
+      ? settings.rotations.map(r => r.id === editingRotationId ? rotation : r)
+      : [...settings.rotations, rotation];
+    onUpdateSettings('rotations', newRotations);
+    setIsRotationModalOpen(false);
+  };
+
+  // Labor Rules Handlers
+  const handleSaveLaborRules = (e: React.FormEvent) => {
+    e.preventDefault();
+    onUpdateSettings('laborRules', laborRulesForm);
+  };
+
+  // Premium Rules Handlers
+  const handleSavePremiumRules = (e: React.FormEvent) => {
+    e.preventDefault();
+    const overtimeTiers = overtimeTiersInput.split(/[\s,;]+/).filter(Boolean).map(Number).filter(n => !isNaN(n) && n > 0).sort((a, b) => a - b);
+    onUpdateSettings('premiumRules', { ...premiumRulesForm, overtimeTiers });
+    setOvertimeTiersInput(overtimeTiers.join(', '));
+  };
+
+  const togglePremiumWeekendDay = (day: number) => {
+    const weekendDays = premiumRulesForm.weekendDays.includes(day)
+      ? premiumRulesForm.weekendDays.filter(d => d !== day)
+      : [...premiumRulesForm.weekendDays, day].sort();
+    setPremiumRulesForm({ ...premiumRulesForm, weekendDays });
+  };
+
+  // Planning Lock Handlers
+  const handleSavePlanningLock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isUnlocking && !lockForm.reason.trim()) return;
+    onSetPlanningLock(lockForm.until || null, lockForm.reason);
+    setLockForm({ ...lockForm, reason: '' });
+  };
+
+  const getEndOfLastMonth = () => {
+    const now = new Date();
+    const last = new Date(now.getFullYear(), now.getMonth(), 0);
+    return `${last.getFullYear()}-${String(last.getMonth() + 1).padStart(2, '0')}-${String(last.getDate()).padStart(2, '0')}`;
+  };
+
+  // Coverage Target Handlers
+  const handleAddCoverageTarget = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!coverageForm.teamId || !coverageForm.shift) return;
+    const weekday = coverageForm.weekday === '' ? null : Number(coverageForm.weekday);
+    const duplicate = settings.coverageTargets.some(c => c.teamId === Number(coverageForm.teamId) && c.shift === coverageForm.shift && (c.weekday ?? null) === weekday);
+    if (duplicate) {
+      alert(settings.language === 'fr' ? 'Un objectif existe déjà pour cette combinaison.' : 'A target already exists for this combination.');
+      return;
+    }
+    const newTarget: CoverageTarget = {
+      id: Date.now(),
+      teamId: Number(coverageForm.teamId),
+      shift: coverageForm.shift,
+      weekday,
+      min: coverageForm.min,
+      target: Math.max(coverageForm.min, coverageForm.target)
+    };
+    onUpdateSettings('coverageTargets', [...settings.coverageTargets, newTarget]);
+    setCoverageForm({ ...coverageForm, weekday: '', min: 1, target: 1 });
+  };
+
+  const handleRemoveCoverageTarget = (id: number) => {
+    onUpdateSettings('coverageTargets', settings.coverageTargets.filter(c => c.id !== id));
+  };
+
+  // Leave Accrual Handlers
+  const handleAddAccrualRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accrualForm.absenceType) return;
+    if (settings.leaveAccrualRules.some(r => r.absenceType === accrualForm.absenceType)) {
+      alert(settings.language === 'fr' ? 'Une règle existe déjà pour ce type d\'absence.' : 'A rule already exists for this absence type.');
+      return;
+    }
+    const newRule: LeaveAccrualRule = {
+      id: Date.now(),
+      absenceType: accrualForm.absenceType,
+      monthlyDays: Math.max(0, accrualForm.monthlyDays),
+      carryOverCap: accrualForm.carryOverCap === '' ? null : Math.max(0, Number(accrualForm.carryOverCap))
+    };
+    onUpdateSettings('leaveAccrualRules', [...settings.leaveAccrualRules, newRule]);
+    setAccrualForm({ absenceType: '', monthlyDays: 2.08, carryOverCap: '' });
+  };
+
+  const handleRemoveAccrualRule = (id: number) => {
+    onUpdateSettings('leaveAccrualRules', settings.leaveAccrualRules.filter(r => r.id !== id));
+  };
+
   // Team Handlers
   const handleOpenTeamModal = (team?: Team) => {
     if (team) {
@@ -246,6 +401,35 @@ export const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  const getEmployeeName = (id: number | null) => {
+    const emp = employees.find(e => e.id == id);
+    return emp ? `${emp.firstName} ${emp.lastName}` : `#${id}`;
+  };
+  const getTeamName = (id: number | null) => teams.find(team => team.id == id)?.name || `#${id}`;
+
+  const describeIntegrityIssue = (issue: TeamIntegrityIssue) => {
+    const fr = settings.language === 'fr';
+    const emp = getEmployeeName(issue.employeeId);
+    const team = getTeamName(issue.teamId);
+    const ownTeamId = employees.find(e => e.id == issue.employeeId)?.teamId;
+    switch (issue.kind) {
+      case 'missing_member': return fr ? `${emp} est rattaché(e) à ${team} mais absent(e) de ses membres` : `${emp} belongs to ${team} but is not among its members`;
+      case 'stale_member': return fr
+        ? `${team} liste ${emp}, rattaché(e) à ${ownTeamId ? getTeamName(ownTeamId) : 'aucune équipe'}`
+        : `${team} lists ${emp}, who belongs to ${ownTeamId ? getTeamName(ownTeamId) : 'no team'}`;
+      case 'multiple_teams': return fr ? `${emp} est membre de plusieurs équipes` : `${emp} is a member of several teams`;
+      case 'unknown_member': return fr ? `${team} liste un employé inexistant (#${issue.employeeId})` : `${team} lists a missing employee (#${issue.employeeId})`;
+      case 'unknown_team': return fr ? `${emp} est rattaché(e) à une équipe inexistante (#${issue.teamId})` : `${emp} belongs to a missing team (#${issue.teamId})`;
+      case 'unknown_leader': return fr ? `Le chef de ${team} n'existe plus (#${issue.employeeId})` : `The leader of ${team} no longer exists (#${issue.employeeId})`;
+    }
+  };
+
+  const handleRepairTeams = async () => {
+    setIsRepairing(true);
+    await onRepairTeamIntegrity();
+    setIsRepairing(false);
+  };
+
   const availableEmployees = employees.filter(e => 
     !e.teamId || (editingTeamId && e.teamId === editingTeamId)
   );
@@ -345,6 +529,7 @@ export const Settings: React.FC<SettingsProps> = ({
                         <div className="flex items-center gap-3">
                             <div className="w-4 h-4 rounded-full shadow-sm" style={{ backgroundColor: abs.color }}></div>
                             <span className="font-semibold text-gray-800 text-sm">{abs.name}</span>
+                            {!!abs.workedHours && <span className="text-[10px] text-green-600 font-bold">{abs.workedHours}h</span>}
                         </div>
                         <div className="flex items-center gap-2">
                             <button onClick={() => handleOpenAbsenceModal(abs)} className="p-1.5 text-gray-400 hover:text-blue-600 rounded hover:bg-white transition-colors">
@@ -361,15 +546,177 @@ export const Settings: React.FC<SettingsProps> = ({
                 </section>
             </div>
 
+            <section>
+                <h3 className="text-sm uppercase tracking-wider text-gray-500 font-semibold mb-4 flex items-center gap-2">
+                    <Lock size={16} /> {settings.language === 'fr' ? 'Verrouillage du planning' : 'Planning Lock'}
+                </h3>
+                <form onSubmit={handleSavePlanningLock} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-4">
+                    <p className="text-sm text-gray-600">
+                        {settings.planningLockedUntil
+                            ? (settings.language === 'fr' ? `Le planning est verrouillé jusqu'au ${formatDisplayDate(settings.planningLockedUntil, settings.dateFormat)} inclus.` : `Planning is locked up to and including ${formatDisplayDate(settings.planningLockedUntil, settings.dateFormat)}.`)
+                            : (settings.language === 'fr' ? 'Aucune période verrouillée.' : 'No locked period.')}
+                    </p>
+                    <div className="flex flex-wrap items-end gap-3">
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Verrouiller jusqu\'au' : 'Lock until'}</label>
+                            <input type="date" value={lockForm.until} onChange={(e) => setLockForm({...lockForm, until: e.target.value})} className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                        </div>
+                        <Button type="button" variant="ghost" size="sm" onClick={() => setLockForm({...lockForm, until: getEndOfLastMonth()})}>
+                            {settings.language === 'fr' ? 'Fin du mois dernier' : 'End of last month'}
+                        </Button>
+                        {settings.planningLockedUntil && (
+                            <Button type="button" variant="ghost" size="sm" onClick={() => setLockForm({...lockForm, until: ''})}>
+                                {settings.language === 'fr' ? 'Tout déverrouiller' : 'Unlock all'}
+                            </Button>
+                        )}
+                    </div>
+                    {isUnlocking && (
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-red-500 uppercase ml-1">{settings.language === 'fr' ? 'Motif du déverrouillage (obligatoire)' : 'Unlock reason (required)'}</label>
+                            <input required type="text" value={lockForm.reason} onChange={(e) => setLockForm({...lockForm, reason: e.target.value})} className="w-full px-3 py-2 border border-red-200 rounded-lg text-sm focus:ring-2 focus:ring-red-500 bg-white" />
+                        </div>
+                    )}
+                    <div className="flex justify-end">
+                        <Button type="submit" size="sm" variant={isUnlocking ? 'danger' : 'primary'} icon={Lock} disabled={(lockForm.until || null) === settings.planningLockedUntil}>
+                            {isUnlocking ? (settings.language === 'fr' ? 'Déverrouiller' : 'Unlock') : t.save}
+                        </Button>
+                    </div>
+                </form>
+            </section>
+
+            <section>
+                <h3 className="text-sm uppercase tracking-wider text-gray-500 font-semibold mb-4 flex items-center gap-2">
+                    <ShieldAlert size={16} /> {settings.language === 'fr' ? 'Règles du travail' : 'Labor Rules'}
+                </h3>
+                <form onSubmit={handleSaveLaborRules} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Repos min. entre shifts (h)' : 'Min. rest between shifts (h)'}</label>
+                            <input type="number" min={0} step={0.5} value={laborRulesForm.minRestHours} onChange={(e) => setLaborRulesForm({...laborRulesForm, minRestHours: Number(e.target.value)})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Jours consécutifs max.' : 'Max. consecutive days'}</label>
+                            <input type="number" min={1} value={laborRulesForm.maxConsecutiveDays} onChange={(e) => setLaborRulesForm({...laborRulesForm, maxConsecutiveDays: Number(e.target.value)})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Heures max. / semaine' : 'Max. hours / week'}</label>
+                            <input type="number" min={0} value={laborRulesForm.maxWeeklyHours} onChange={(e) => setLaborRulesForm({...laborRulesForm, maxWeeklyHours: Number(e.target.value)})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Jours de repos min. / semaine' : 'Min. rest days / week'}</label>
+                            <input type="number" min={0} max={7} value={laborRulesForm.minWeeklyRestDays} onChange={(e) => setLaborRulesForm({...laborRulesForm, minWeeklyRestDays: Number(e.target.value)})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap items-center justify-between gap-4 pt-2">
+                        <div className="flex flex-wrap items-center gap-6">
+                            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                <input type="checkbox" checked={laborRulesForm.enabled} onChange={(e) => setLaborRulesForm({...laborRulesForm, enabled: e.target.checked})} className="rounded border-gray-300" />
+                                {settings.language === 'fr' ? 'Contrôler le planning' : 'Check the planning'}
+                            </label>
+                            <select 
+                                value={laborRulesForm.mode}
+                                onChange={(e) => setLaborRulesForm({...laborRulesForm, mode: e.target.value as LaborRules['mode']})}
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white"
+                            >
+                                <option value="warn">{settings.language === 'fr' ? 'Avertir seulement' : 'Warn only'}</option>
+                                <option value="block">{settings.language === 'fr' ? 'Bloquer la saisie' : 'Block the change'}</option>
+                            </select>
+                        </div>
+                        <Button type="submit" size="sm">{t.save}</Button>
+                    </div>
+                </form>
+            </section>
+
+            <section>
+                <h3 className="text-sm uppercase tracking-wider text-gray-500 font-semibold mb-4 flex items-center gap-2">
+                    <Moon size={16} /> {settings.language === 'fr' ? 'Heures majorées' : 'Premium Hours'}
+                </h3>
+                <form onSubmit={handleSavePremiumRules} className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Début de nuit' : 'Night starts'}</label>
+                            <input type="time" required value={premiumRulesForm.nightStart} onChange={(e) => setPremiumRulesForm({...premiumRulesForm, nightStart: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Fin de nuit' : 'Night ends'}</label>
+                            <input type="time" required value={premiumRulesForm.nightEnd} onChange={(e) => setPremiumRulesForm({...premiumRulesForm, nightEnd: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Seuils heures sup. / semaine' : 'Weekly overtime thresholds'}</label>
+                            <input type="text" value={overtimeTiersInput} onChange={(e) => setOvertimeTiersInput(e.target.value)} placeholder="35, 43" className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Jours majorés' : 'Premium days'}</label>
+                        <div className="flex flex-wrap gap-2">
+                            {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                                <button type="button" key={day} onClick={() => togglePremiumWeekendDay(day)} className={`px-3 py-1.5 rounded-lg border text-xs font-semibold capitalize transition-colors ${premiumRulesForm.weekendDays.includes(day) ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'}`}>
+                                    {weekdayNames[day]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-4 pt-2">
+                        <p className="text-xs text-gray-400">
+                            {settings.language === 'fr' ? 'Les heures des jours fériés sont reprises de la liste des jours fériés.' : 'Holiday hours use the public holidays list.'}
+                        </p>
+                        <Button type="submit" size="sm">{t.save}</Button>
+                    </div>
+                </form>
+            </section>
+
+            <section>
+                <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm uppercase tracking-wider text-gray-500 font-semibold flex items-center gap-2">
+                    <Repeat size={16} /> Rotations
+                </h3>
+                <Button onClick={() => handleOpenRotationModal()} icon={Plus} size="sm">
+                    {t.add}
+                </Button>
+                </div>
+                <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {settings.rotations.length === 0 && (
+                    <div className="col-span-full text-center py-4 text-gray-400 italic text-sm">
+                        {settings.language === 'fr' ? 'Aucune rotation configurée.' : 'No rotation configured.'}
+                    </div>
+                    )}
+                    {settings.rotations.map(rotation => (
+                    <div key={rotation.id} className="flex items-center justify-between p-3 border border-gray-100 rounded-lg bg-gray-50">
+                        <div className="min-w-0">
+                        <div className="font-semibold text-gray-800 text-sm">{rotation.name}</div>
+                        <div className="text-xs text-gray-500 font-mono truncate">
+                            {formatRotationSequence(rotation.sequence)} · {rotation.sequence.length} {settings.language === 'fr' ? 'jours' : 'days'}
+                        </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                        <button onClick={() => handleOpenRotationModal(rotation)} className="p-1.5 text-gray-400 hover:text-blue-600 rounded hover:bg-white transition-colors">
+                            <Edit2 size={14} />
+                        </button>
+                        <button onClick={() => confirmDelete('rotation', rotation.id)} className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-white transition-colors">
+                            <Trash2 size={14} />
+                        </button>
+                        </div>
+                    </div>
+                    ))}
+                </div>
+                </div>
+            </section>
+
             <section>
                 <div className="flex items-center justify-between mb-4">
                 <h3 className="text-sm uppercase tracking-wider text-gray-500 font-semibold flex items-center gap-2">
                     <UsersIcon size={16} /> {t.teams}
                 </h3>
+                <div className="flex gap-2">
+                <Button onClick={() => setIsIntegrityModalOpen(true)} icon={ShieldCheck} size="sm" variant={integrityReport.issues.length > 0 ? 'danger' : 'secondary'}>
+                    {settings.language === 'fr' ? 'Vérifier' : 'Check'}{integrityReport.issues.length > 0 ? ` (${integrityReport.issues.length})` : ''}
+                </Button>
                 <Button onClick={() => handleOpenTeamModal()} icon={Plus} size="sm">
                     {t.create}
                 </Button>
                 </div>
+                </div>
                 
                 <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -407,6 +754,130 @@ export const Settings: React.FC<SettingsProps> = ({
                 </div>
             </section>
 
+            <section>
+                <h3 className="text-sm uppercase tracking-wider text-gray-500 font-semibold mb-4 flex items-center gap-2">
+                    <Target size={16} /> {settings.language === 'fr' ? 'Effectifs requis' : 'Coverage Targets'}
+                </h3>
+                <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+                <form onSubmit={handleAddCoverageTarget} className="grid grid-cols-2 lg:grid-cols-6 gap-3 items-end mb-6 bg-gray-50 p-4 rounded-xl border border-gray-100">
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Équipe' : 'Team'}</label>
+                        <select required value={coverageForm.teamId} onChange={(e) => setCoverageForm({...coverageForm, teamId: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white">
+                            <option value="">-</option>
+                            {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                        </select>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">Shift</label>
+                        <select required value={coverageForm.shift} onChange={(e) => setCoverageForm({...coverageForm, shift: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white">
+                            <option value="">-</option>
+                            {settings.shifts.map(shift => <option key={shift.name} value={shift.name}>{shift.name}</option>)}
+                        </select>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Jour' : 'Day'}</label>
+                        <select value={coverageForm.weekday} onChange={(e) => setCoverageForm({...coverageForm, weekday: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white capitalize">
+                            <option value="">{settings.language === 'fr' ? 'Tous les jours' : 'Every day'}</option>
+                            {[1, 2, 3, 4, 5, 6, 0].map(day => <option key={day} value={day}>{weekdayNames[day]}</option>)}
+                        </select>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">Min.</label>
+                        <input type="number" min={0} value={coverageForm.min} onChange={(e) => setCoverageForm({...coverageForm, min: Number(e.target.value)})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Cible' : 'Target'}</label>
+                        <input type="number" min={0} value={coverageForm.target} onChange={(e) => setCoverageForm({...coverageForm, target: Number(e.target.value)})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                    </div>
+                    <Button type="submit" size="sm" icon={Plus}>{t.add}</Button>
+                </form>
+                {settings.coverageTargets.length === 0 ? (
+                    <p className="text-sm text-gray-400 italic">{settings.language === 'fr' ? 'Aucun objectif configuré.' : 'No target configured.'}</p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {settings.coverageTargets.map(c => {
+                            const team = teams.find(tm => tm.id == c.teamId);
+                            const shift = settings.shifts.find(sh => sh.name === c.shift);
+                            return (
+                                <div key={c.id} className="flex items-center justify-between p-3 border border-gray-100 rounded-lg bg-gray-50">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: shift?.color || '#9ca3af' }}></div>
+                                        <div className="min-w-0">
+                                            <div className="font-semibold text-gray-800 text-sm truncate">{team?.name || '?'} · {c.shift}</div>
+                                            <div className="text-xs text-gray-500 capitalize">
+                                                {c.weekday === null || c.weekday === undefined ? (settings.language === 'fr' ? 'Tous les jours' : 'Every day') : weekdayNames[c.weekday]}
+                                                {' · '}Min. {c.min} · {settings.language === 'fr' ? 'Cible' : 'Target'} {c.target}
+                                            </div>
+                                        </div>
+                                    </div>
+                                    <button onClick={() => handleRemoveCoverageTarget(c.id)} className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-white transition-colors">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+                </div>
+            </section>
+
+            <section>
+                <h3 className="text-sm uppercase tracking-wider text-gray-500 font-semibold mb-4 flex items-center gap-2">
+                    <Wallet size={16} /> {settings.language === 'fr' ? 'Acquisition des congés' : 'Leave Accrual'}
+                </h3>
+                <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+                <p className="text-xs text-gray-500 mb-4">
+                    {settings.language === 'fr'
+                        ? 'Jours acquis chaque mois (au prorata de la présence) et plafond de report au 1er janvier. Chaque jour planifié avec ce type est décompté du solde.'
+                        : 'Days earned each month (pro-rated on presence) and carry-over cap on January 1st. Each planned day of the type is deducted from the balance.'}
+                </p>
+                <form onSubmit={handleAddAccrualRule} className="grid grid-cols-2 lg:grid-cols-4 gap-3 items-end mb-6 bg-gray-50 p-4 rounded-xl border border-gray-100">
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Type d\'absence' : 'Absence type'}</label>
+                        <select required value={accrualForm.absenceType} onChange={(e) => setAccrualForm({...accrualForm, absenceType: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white">
+                            <option value="">-</option>
+                            {settings.absenceTypes.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+                        </select>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Jours / mois' : 'Days / month'}</label>
+                        <input type="number" min={0} step={0.01} value={accrualForm.monthlyDays} onChange={(e) => setAccrualForm({...accrualForm, monthlyDays: Number(e.target.value)})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase ml-1">{settings.language === 'fr' ? 'Report max.' : 'Carry-over cap'}</label>
+                        <input type="number" min={0} step={0.5} value={accrualForm.carryOverCap} placeholder={settings.language === 'fr' ? 'Illimité' : 'Unlimited'} onChange={(e) => setAccrualForm({...accrualForm, carryOverCap: e.target.value})} className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 bg-white" />
+                    </div>
+                    <Button type="submit" size="sm" icon={Plus}>{t.add}</Button>
+                </form>
+                {settings.leaveAccrualRules.length === 0 ? (
+                    <p className="text-sm text-gray-400 italic">{settings.language === 'fr' ? 'Aucune règle configurée.' : 'No rule configured.'}</p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {settings.leaveAccrualRules.map(r => {
+                            const absence = settings.absenceTypes.find(a => a.name === r.absenceType);
+                            return (
+                                <div key={r.id} className="flex items-center justify-between p-3 border border-gray-100 rounded-lg bg-gray-50">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: absence?.color || '#9ca3af' }}></div>
+                                        <div className="min-w-0">
+                                            <div className="font-semibold text-gray-800 text-sm truncate">{r.absenceType}</div>
+                                            <div className="text-xs text-gray-500">
+                                                {r.monthlyDays} {settings.language === 'fr' ? 'j / mois' : 'd / month'}
+                                                {' · '}{settings.language === 'fr' ? 'Report' : 'Carry-over'} {r.carryOverCap === null ? '∞' : r.carryOverCap}
+                                            </div>
+                                        </div>
+                                    </div>
+                                    <button onClick={() => handleRemoveAccrualRule(r.id)} className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-white transition-colors">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+                </div>
+            </section>
+
             <section>
                 <h3 className="text-sm uppercase tracking-wider text-gray-500 font-semibold mb-4 flex items-center gap-2">
                 <CalendarDays size={16} /> {t.holidays}
@@ -575,6 +1046,41 @@ export const Settings: React.FC<SettingsProps> = ({
       )}
 
 
+      {/* TEAM INTEGRITY MODAL */}
+      <Modal
+        isOpen={isIntegrityModalOpen}
+        onClose={() => setIsIntegrityModalOpen(false)}
+        title={settings.language === 'fr' ? 'Intégrité des équipes' : 'Team integrity'}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {settings.language === 'fr'
+              ? 'Compare les membres et le chef de chaque équipe avec l\'équipe indiquée sur chaque employé. La réparation garde l\'équipe de l\'employé quand elle existe.'
+              : 'Compares the members and leader of each team with the team set on each employee. Repairing keeps the employee\'s team when it exists.'}
+          </p>
+          {integrityReport.issues.length === 0 ? (
+            <div className="text-center py-6 text-green-600 font-medium">
+              {settings.language === 'fr' ? 'Aucune incohérence détectée.' : 'No mismatch found.'}
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg max-h-80 overflow-y-auto">
+              {integrityReport.issues.map((issue, index) => (
+                <li key={index} className="px-3 py-2 text-sm text-gray-700 flex items-start gap-2">
+                  <ShieldAlert size={16} className="text-red-500 shrink-0 mt-0.5" />
+                  {describeIntegrityIssue(issue)}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="secondary" onClick={() => setIsIntegrityModalOpen(false)}>{t.cancel}</Button>
+            <Button onClick={handleRepairTeams} icon={ShieldCheck} disabled={integrityReport.issues.length === 0 || isRepairing}>
+              {settings.language === 'fr' ? 'Réparer' : 'Repair'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* CREATE/EDIT TEAM MODAL */}
       <Modal
         isOpen={isTeamModalOpen}
@@ -747,6 +1253,30 @@ export const Settings: React.FC<SettingsProps> = ({
                     <span className="text-xs text-gray-500">{absenceForm.color}</span>
                 </div>
             </div>
+            <div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={!!absenceForm.workedHours}
+                        onChange={(e) => setAbsenceForm({...absenceForm, workedHours: e.target.checked ? 8 : undefined})}
+                        className="rounded border-gray-300"
+                    />
+                    {settings.language === 'fr' ? 'Compte comme temps travaillé' : 'Counts as worked time'}
+                </label>
+                {!!absenceForm.workedHours && (
+                    <div className="flex items-center gap-2 mt-2">
+                        <input
+                            type="number"
+                            min={0.5}
+                            step={0.5}
+                            value={absenceForm.workedHours}
+                            onChange={(e) => setAbsenceForm({...absenceForm, workedHours: Number(e.target.value) || undefined})}
+                            className="w-24 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm"
+                        />
+                        <span className="text-xs text-gray-500">{settings.language === 'fr' ? 'heures par jour' : 'hours per day'}</span>
+                    </div>
+                )}
+            </div>
             <div className="flex justify-end gap-3 pt-4 border-t">
                 <Button type="button" variant="ghost" onClick={() => setIsAbsenceModalOpen(false)}>
                     {t.cancel}
@@ -758,6 +1288,70 @@ export const Settings: React.FC<SettingsProps> = ({
         </form>
       </Modal>
 
+      {/* CREATE/EDIT ROTATION MODAL */}
+      <Modal
+        isOpen={isRotationModalOpen}
+        onClose={() => setIsRotationModalOpen(false)}
+        title={editingRotationId !== null ? (settings.language === 'fr' ? 'Modifier la rotation' : 'Edit Rotation') : (settings.language === 'fr' ? 'Nouvelle rotation' : 'New Rotation')}
+        size="sm"
+      >
+        <form onSubmit={handleSaveRotation} className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input 
+                    required
+                    type="text" 
+                    value={rotationName} 
+                    onChange={(e) => setRotationName(e.target.value)}
+                    placeholder="Ex: 3x8"
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white"
+                />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{settings.language === 'fr' ? 'Séquence' : 'Sequence'}</label>
+                <input 
+                    required
+                    type="text" 
+                    value={rotationSequenceInput} 
+                    onChange={(e) => setRotationSequenceInput(e.target.value)}
+                    placeholder="M M A A N N R R"
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 bg-white font-mono"
+                />
+                <p className="text-[11px] text-gray-500 mt-1 flex items-center gap-1.5">
+                    <Info size={12} className="text-blue-500 shrink-0" />
+                    {settings.language === 'fr' 
+                        ? 'Un jour par mot : nom complet ou début du nom d\'un shift ou d\'un motif d\'absence.' 
+                        : 'One day per word: full name or start of a shift or absence type name.'}
+                </p>
+            </div>
+            {parsedRotation.sequence.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {parsedRotation.sequence.map((name, index) => {
+                        const color = settings.shifts.find(s => s.name === name)?.color || settings.absenceTypes.find(a => a.name === name)?.color || '#9ca3af';
+                        return (
+                            <span key={index} className="px-2 py-0.5 rounded border text-[10px] font-bold" style={{ backgroundColor: `${color}20`, color, borderColor: `${color}40` }}>
+                                {name}
+                            </span>
+                        );
+                    })}
+                </div>
+            )}
+            {parsedRotation.unknown.length > 0 && (
+                <p className="text-xs text-red-600">
+                    {settings.language === 'fr' ? 'Codes inconnus' : 'Unknown codes'}: {parsedRotation.unknown.join(', ')}
+                </p>
+            )}
+            <div className="flex justify-end gap-3 pt-4 border-t">
+                <Button type="button" variant="ghost" onClick={() => setIsRotationModalOpen(false)}>
+                    {t.cancel}
+                </Button>
+                <Button type="submit" disabled={parsedRotation.sequence.length === 0 || parsedRotation.unknown.length > 0}>
+                    {t.save}
+                </Button>
+            </div>
+        </form>
+      </Modal>
+
       <Modal
         isOpen={!!deleteConfirm}
         onClose={() => setDeleteConfirm(null)}
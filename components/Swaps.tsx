@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AppSettings, Employee, PlanningData, PlanningMeta, PlanningWindow, SwapRequest, Team, User } from '../types';
+import { TRANSLATIONS, formatDisplayDate } from '../constants';
+import { ArrowLeftRight, Check, X, AlertTriangle, Send, Ban, Clock } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Modal } from './ui/Modal';
+import { buildSwapChanges, getExtraSwapKeys, isSwapOutdated } from '../services/swaps';
+import { findNewViolations, describeViolation } from '../services/laborRules';
+import { planningKey, toLocalISO } from '../services/planning';
+
+interface SwapsProps {
+  employees: Employee[];
+  teams: Team[];
+  planning: PlanningData;
+  planningMeta: PlanningMeta;
+  swapRequests: SwapRequest[];
+  currentUser: User;
+  settings: AppSettings;
+  onCreate: (data: Pick<SwapRequest, 'requesterId' | 'requesterDate' | 'targetId' | 'targetDate' | 'comment'>) => Promise<void>;
+  onRespond: (id: number, accept: boolean) => Promise<void>;
+  onCancel: (id: number) => Promise<void>;
+  onDecide: (id: number, approve: boolean, reason?: string) => Promise<void>;
+  onSetPlanningWindow: (id: string, window: PlanningWindow | null) => void;
+}
+
+const STATUS_STYLES: Record<SwapRequest['status'], string> = {
+  pending_colleague: 'bg-amber-100 text-amber-700',
+  pending_approval: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-500'
+};
+
+export const Swaps: React.FC<SwapsProps> = ({ employees, teams, planning, planningMeta, swapRequests, currentUser, settings, onCreate, onRespond, onCancel, onDecide, onSetPlanningWindow }) => {
+  const t = TRANSLATIONS[settings.language];
+  const isFr = settings.language === 'fr';
+  const isAdmin = currentUser.role === 'admin';
+  const me = employees.find(e => e.id == currentUser.employeeId);
+  const today = toLocalISO(new Date());
+
+  const [form, setForm] = useState({ requesterDate: '', targetId: '', targetDate: '', comment: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [rejecting, setRejecting] = useState<SwapRequest | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  // The cells picked in the form; pending requests are always loaded by the store
+  useEffect(() => {
+    if (!form.requesterDate) return;
+    onSetPlanningWindow('swap-requester', { from: form.requesterDate, to: form.requesterDate });
+    return () => onSetPlanningWindow('swap-requester', null);
+  }, [form.requesterDate, onSetPlanningWindow]);
+
+  useEffect(() => {
+    if (!form.targetDate) return;
+    onSetPlanningWindow('swap-target', { from: form.targetDate, to: form.targetDate });
+    return () => onSetPlanningWindow('swap-target', null);
+  }, [form.targetDate, onSetPlanningWindow]);
+
+  const statusLabels: Record<SwapRequest['status'], string> = {
+    pending_colleague: isFr ? 'Attente collègue' : 'Awaiting colleague',
+    pending_approval: isFr ? 'Attente validation' : 'Awaiting approval',
+    approved: isFr ? 'Validé' : 'Approved',
+    rejected: isFr ? 'Refusé' : 'Rejected',
+    cancelled: isFr ? 'Annulé' : 'Cancelled'
+  };
+
+  const getName = (id: number) => {
+    const emp = employees.find(e => e.id == id);
+    return emp ? `${emp.firstName} ${emp.lastName}` : String(id);
+  };
+
+  const isShift = (value: string | undefined) => settings.shifts.some(s => s.name === value);
+
+  const colleagues = useMemo(() => {
+    if (!me) return [];
+    return employees
+      .filter(e => e.id !== me.id && e.teamId == me.teamId && (!e.exitDate || e.exitDate > today))
+      .sort((a, b) => a.lastName.localeCompare(b.lastName));
+  }, [employees, me, today]);
+
+  const isMine = (request: SwapRequest) => currentUser.employeeId != null && request.requesterId == currentUser.employeeId;
+  const isForMe = (request: SwapRequest) => currentUser.employeeId != null && request.targetId == currentUser.employeeId;
+
+  // Team leaders decide when they lead the teams of both employees, and never on a swap of their own
+  const canDecide = (request: SwapRequest) => !isMine(request) && !isForMe(request) && (isAdmin
+    || [request.requesterId, request.targetId].every(id => teams.some(team =>
+      currentUser.employeeId != null && team.leaderId == currentUser.employeeId && team.members.some(m => m == id))));
+
+  const myRequests = swapRequests.filter(r => isMine(r) && (r.status === 'pending_colleague' || r.status === 'pending_approval'));
+  const toAnswer = swapRequests.filter(r => isForMe(r) && r.status === 'pending_colleague');
+  const toApprove = swapRequests.filter(r => r.status === 'pending_approval' && canDecide(r));
+  const history = swapRequests.filter(r =>
+    (r.status === 'approved' || r.status === 'rejected' || r.status === 'cancelled') && (isMine(r) || isForMe(r) || canDecide(r)));
+
+  const requesterValue = me && form.requesterDate ? planning[planningKey(me.id, form.requesterDate)] : undefined;
+  const targetValue = form.targetId && form.targetDate ? planning[planningKey(Number(form.targetId), form.targetDate)] : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!me || !form.targetId || !form.requesterDate || !form.targetDate) return;
+    setIsSubmitting(true);
+    await onCreate({
+      requesterId: me.id,
+      requesterDate: form.requesterDate,
+      targetId: Number(form.targetId),
+      targetDate: form.targetDate,
+      comment: form.comment.trim()
+    });
+    setIsSubmitting(false);
+    setForm({ requesterDate: '', targetId: '', targetDate: '', comment: '' });
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+    await onDecide(rejecting.id, false, rejectReason);
+    setRejecting(null);
+    setRejectReason('');
+  };
+
+  // A swap across two days also exchanges the requester's cell on the target date and the colleague's on the requester date
+  const renderSummary = (request: SwapRequest) => {
+    const [requesterExtra, targetExtra] = getExtraSwapKeys(request);
+    const valueOf = (key: string) => (request.cells ? request.cells[key] : planning[key]) || (isFr ? 'Vide' : 'Empty');
+    return (
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <span className="font-semibold">{getName(request.requesterId)}</span>
+          <span className="text-gray-500">{formatDisplayDate(request.requesterDate, settings.dateFormat)}</span>
+          <span className="px-2 py-0.5 rounded bg-slate-100 text-xs font-bold">{request.requesterShift}</span>
+          <ArrowLeftRight size={14} className="text-gray-400" />
+          <span className="font-semibold">{getName(request.targetId)}</span>
+          <span className="text-gray-500">{formatDisplayDate(request.targetDate, settings.dateFormat)}</span>
+          <span className="px-2 py-0.5 rounded bg-slate-100 text-xs font-bold">{request.targetShift || (isFr ? 'Vide' : 'Empty')}</span>
+        </div>
+        {requesterExtra && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+            <span>{isFr ? 'Aussi échangés :' : 'Also exchanged:'}</span>
+            <span>{getName(request.requesterId)} {formatDisplayDate(request.targetDate, settings.dateFormat)}</span>
+            <span className="px-1.5 py-0.5 rounded bg-slate-100 font-bold">{valueOf(requesterExtra)}</span>
+            <ArrowLeftRight size={12} className="text-gray-400" />
+            <span>{getName(request.targetId)} {formatDisplayDate(request.requesterDate, settings.dateFormat)}</span>
+            <span className="px-1.5 py-0.5 rounded bg-slate-100 font-bold">{valueOf(targetExtra)}</span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderRequest = (request: SwapRequest, actions?: React.ReactNode, withChecks = false) => {
+    const outdated = withChecks && isSwapOutdated(planning, request);
+    const violations = withChecks && !outdated ? findNewViolations(planning, buildSwapChanges(planning, request), settings, planningMeta) : [];
+    return (
+      <div key={request.id} className="p-4 border-b border-gray-100 last:border-0 space-y-2">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          {renderSummary(request)}
+          <div className="flex items-center gap-2 shrink-0">
+            <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${STATUS_STYLES[request.status]}`}>{statusLabels[request.status]}</span>
+            {actions}
+          </div>
+        </div>
+        {request.comment && <p className="text-xs text-gray-500 italic">"{request.comment}"</p>}
+        {request.reason && <p className="text-xs text-red-600">{isFr ? 'Motif' : 'Reason'}: {request.reason}</p>}
+        {outdated && (
+          <p className="text-[10px] font-bold text-amber-600 flex items-center gap-1.5"><AlertTriangle size={12} /> {isFr ? 'Le planning a changé depuis la demande' : 'The planning changed since the request'}</p>
+        )}
+        {violations.map((v, index) => (
+          <p key={index} className="text-[10px] font-bold text-red-600 flex items-center gap-1.5"><AlertTriangle size={12} /> {getName(v.employeeId)} - {formatDisplayDate(v.date, settings.dateFormat)}: {describeViolation(v, settings)}</p>
+        ))}
+        {request.decidedAt && (
+          <p className="text-[10px] text-gray-400 flex items-center gap-1"><Clock size={10} /> {request.decidedBy} - {new Date(request.decidedAt).toLocaleString(isFr ? 'fr-FR' : 'en-US')}</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderSection = (title: string, items: SwapRequest[], render: (request: SwapRequest) => React.ReactNode) => (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+        <h3 className="font-bold text-gray-700 text-sm">{title}</h3>
+        <span className="text-xs font-bold text-gray-400">{items.length}</span>
+      </div>
+      {items.length === 0
+        ? <p className="p-4 text-sm text-gray-400 italic">{isFr ? 'Aucune demande' : 'No request'}</p>
+        : items.map(render)}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 pb-10">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">{t.swaps}</h2>
+        <p className="text-gray-500">{isFr ? 'Proposez un échange de shift à un collègue, soumis à la validation du chef d\'équipe.' : 'Offer a shift swap to a colleague, subject to team leader approval.'}</p>
+      </div>
+
+      {me ? (
+        <form onSubmit={handleSubmit} className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm space-y-4">
+          <h3 className="font-bold text-gray-700 text-sm">{isFr ? 'Nouvelle demande' : 'New request'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-gray-500 mb-1">{isFr ? 'Mon shift du' : 'My shift on'}</label>
+              <input type="date" required min={today} value={form.requesterDate} onChange={e => setForm({ ...form, requesterDate: e.target.value })} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+              {form.requesterDate && (
+                <p className={`text-xs mt-1 ${isShift(requesterValue) ? 'text-gray-500' : 'text-red-600'}`}>
+                  {isShift(requesterValue) ? requesterValue : (isFr ? 'Aucun shift planifié' : 'No planned shift')}
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 mb-1">{isFr ? 'Collègue' : 'Colleague'}</label>
+              <select required value={form.targetId} onChange={e => setForm({ ...form, targetId: e.target.value })} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20">
+                <option value="">--</option>
+                {colleagues.map(c => <option key={c.id} value={c.id}>{c.lastName} {c.firstName}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 mb-1">{isFr ? 'Contre son jour du' : 'For their day on'}</label>
+              <input type="date" required min={today} value={form.targetDate} onChange={e => setForm({ ...form, targetDate: e.target.value })} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+              {form.targetId && form.targetDate && (
+                <p className="text-xs mt-1 text-gray-500">{targetValue || (isFr ? 'Vide' : 'Empty')}</p>
+              )}
+            </div>
+          </div>
+          <textarea value={form.comment} onChange={e => setForm({ ...form, comment: e.target.value })} rows={2} placeholder={isFr ? 'Commentaire (optionnel)' : 'Comment (optional)'} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+          <div className="flex justify-end">
+            <Button type="submit" icon={Send} disabled={isSubmitting || !isShift(requesterValue)}>{isFr ? 'Envoyer' : 'Send'}</Button>
+          </div>
+        </form>
+      ) : (
+        <div className="bg-amber-50 border border-amber-200 text-amber-700 text-sm rounded-xl p-4">
+          {isFr ? 'Votre compte n\'est lié à aucun employé : vous ne pouvez pas proposer d\'échange.' : 'Your account is not linked to an employee: you cannot offer swaps.'}
+        </div>
+      )}
+
+      {me && renderSection(isFr ? 'Mes demandes' : 'My requests', myRequests, request => renderRequest(request,
+        <Button size="xs" variant="ghost" icon={Ban} onClick={() => onCancel(request.id)}>{isFr ? 'Annuler' : 'Cancel'}</Button>
+      ))}
+
+      {me && renderSection(isFr ? 'Demandes reçues' : 'Received requests', toAnswer, request => renderRequest(request, <>
+        <Button size="xs" variant="secondary" icon={X} onClick={() => onRespond(request.id, false)}>{isFr ? 'Refuser' : 'Decline'}</Button>
+        <Button size="xs" icon={Check} onClick={() => onRespond(request.id, true)}>{isFr ? 'Accepter' : 'Accept'}</Button>
+      </>))}
+
+      {(isAdmin || teams.some(team => currentUser.employeeId != null && team.leaderId == currentUser.employeeId)) &&
+        renderSection(isFr ? 'À valider' : 'To approve', toApprove, request => renderRequest(request, <>
+          <Button size="xs" variant="danger" icon={X} onClick={() => setRejecting(request)}>{isFr ? 'Refuser' : 'Reject'}</Button>
+          <Button size="xs" icon={Check} disabled={isSwapOutdated(planning, request)} onClick={() => onDecide(request.id, true)}>{isFr ? 'Valider' : 'Approve'}</Button>
+        </>, true))}
+
+      {renderSection(isFr ? 'Historique' : 'History', history, request => renderRequest(request))}
+
+      <Modal isOpen={!!rejecting} onClose={() => setRejecting(null)} title={isFr ? 'Refuser l\'échange' : 'Reject swap'} size="sm">
+        <div className="space-y-4">
+          {rejecting && renderSummary(rejecting)}
+          <textarea value={rejectReason} onChange={e => setRejectReason(e.target.value)} rows={3} placeholder={isFr ? 'Motif (optionnel)' : 'Reason (optional)'} className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20" />
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setRejecting(null)}>{t.cancel}</Button>
+            <Button variant="danger" icon={X} onClick={handleReject}>{isFr ? 'Refuser' : 'Reject'}</Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
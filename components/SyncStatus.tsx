@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { AppSettings, Employee, PendingPlanningWrite, PlanningConflict } from '../types';
+import { formatDisplayDate } from '../constants';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+
+interface SyncStatusProps {
+  settings: AppSettings;
+  employees: Employee[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingWrites: PendingPlanningWrite[];
+  conflicts: PlanningConflict[];
+  onRetry: () => void;
+  onDismissConflicts: (ids: string[]) => void;
+  onKeepConflictValue: (conflict: PlanningConflict) => void;
+}
+
+// Connection and save state of the planning changes, with the waiting queue and the conflict report
+export const SyncStatus: React.FC<SyncStatusProps> = ({
+  settings, employees, isOnline, isSyncing, pendingWrites, conflicts, onRetry, onDismissConflicts, onKeepConflictValue
+}) => {
+  const lang = settings.language;
+  const [isOpen, setIsOpen] = useState(false);
+  const pendingCells = pendingWrites.reduce((total, write) => total + Object.keys(write.cells).length, 0);
+
+  const status = !isOnline
+    ? { icon: CloudOff, style: 'bg-amber-50 text-amber-700 border-amber-200', label: lang === 'fr' ? 'Hors ligne' : 'Offline' }
+    : pendingCells > 0
+      ? { icon: RefreshCw, style: 'bg-blue-50 text-blue-700 border-blue-200', label: lang === 'fr' ? 'Synchronisation' : 'Syncing' }
+      : { icon: Cloud, style: 'bg-green-50 text-green-700 border-green-200', label: lang === 'fr' ? 'Synchronisé' : 'Synced' };
+  const StatusIcon = status.icon;
+
+  const getEmployeeName = (employeeId: number) => {
+    const emp = employees.find(e => e.id == employeeId);
+    return emp ? `${emp.firstName} ${emp.lastName}` : String(employeeId);
+  };
+
+  const formatTime = (iso: string) => new Date(iso).toLocaleString(lang === 'fr' ? 'fr-FR' : 'en-GB', { dateStyle: 'short', timeStyle: 'short' });
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-medium ${status.style}`}
+        title={status.label}
+        aria-label={status.label}
+      >
+        <StatusIcon size={14} className={isSyncing ? 'animate-spin' : ''} aria-hidden="true" />
+        <span>{status.label}</span>
+        {pendingCells > 0 && <span className="font-bold">{pendingCells}</span>}
+        {conflicts.length > 0 && (
+          <span className="flex items-center gap-0.5 text-red-600 font-bold">
+            <AlertTriangle size={12} aria-hidden="true" />{conflicts.length}
+          </span>
+        )}
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title={lang === 'fr' ? 'Synchronisation du planning' : 'Planning sync'} size="lg">
+        <div className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-600">
+              {!isOnline
+                ? (lang === 'fr' ? 'Pas de connexion : les modifications sont conservées sur cet appareil et seront envoyées au retour du réseau.' : 'No connection: changes are kept on this device and will be sent when the network is back.')
+                : pendingCells > 0
+                  ? (lang === 'fr' ? 'Envoi des modifications en cours.' : 'Sending changes.')
+                  : (lang === 'fr' ? 'Toutes les modifications sont enregistrées.' : 'All changes are saved.')}
+            </p>
+            <Button variant="secondary" size="sm" icon={RefreshCw} onClick={onRetry} disabled={!isOnline || pendingWrites.length === 0}>
+              {lang === 'fr' ? 'Réessayer' : 'Retry'}
+            </Button>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-800 mb-2">
+              {lang === 'fr' ? `En attente (${pendingCells} cellule(s))` : `Waiting (${pendingCells} cell(s))`}
+            </h4>
+            {pendingWrites.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">{lang === 'fr' ? 'Aucune modification en attente' : 'No waiting change'}</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {pendingWrites.map(write => (
+                    <tr key={write.id}>
+                      <td className="py-2 pr-3 text-gray-500 whitespace-nowrap">{formatTime(write.createdAt)}</td>
+                      <td className="py-2 pr-3 font-mono text-xs text-gray-500">{write.action}</td>
+                      <td className="py-2 text-gray-700">
+                        {write.details}
+                        {write.draft && <span className="ml-2 text-xs text-amber-600">{lang === 'fr' ? '(brouillon)' : '(draft)'}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-gray-800">
+                {lang === 'fr' ? `Conflits (${conflicts.length})` : `Conflicts (${conflicts.length})`}
+              </h4>
+              {conflicts.length > 0 && (
+                <Button variant="ghost" size="xs" onClick={() => onDismissConflicts(conflicts.map(c => c.id))}>
+                  {lang === 'fr' ? 'Tout ignorer' : 'Dismiss all'}
+                </Button>
+              )}
+            </div>
+            {conflicts.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">{lang === 'fr' ? 'Aucun conflit' : 'No conflict'}</p>
+            ) : (
+              <>
+                <p className="text-xs text-gray-500 mb-2">
+                  {lang === 'fr'
+                    ? 'Ces cellules ont été modifiées par quelqu\'un d\'autre pendant que vos changements attendaient. La valeur enregistrée a été conservée.'
+                    : 'These cells were changed by someone else while your changes were waiting. The saved value was kept.'}
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+                      <th className="py-2 pr-3 font-medium">{lang === 'fr' ? 'Employé' : 'Employee'}</th>
+                      <th className="py-2 pr-3 font-medium">Date</th>
+                      <th className="py-2 pr-3 font-medium">{lang === 'fr' ? 'Avant' : 'Before'}</th>
+                      <th className="py-2 pr-3 font-medium">{lang === 'fr' ? 'Enregistré' : 'Saved'}</th>
+                      <th className="py-2 pr-3 font-medium">{lang === 'fr' ? 'Le vôtre' : 'Yours'}</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {conflicts.map(conflict => (
+                      <tr key={conflict.id}>
+                        <td className="py-2 pr-3 text-gray-800">
+                          {getEmployeeName(conflict.employeeId)}
+                          {conflict.draft && <span className="ml-2 text-xs text-amber-600">{lang === 'fr' ? '(brouillon)' : '(draft)'}</span>}
+                        </td>
+                        <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">{formatDisplayDate(conflict.date, settings.dateFormat)}</td>
+                        <td className="py-2 pr-3 text-gray-400">{conflict.expected || '-'}</td>
+                        <td className="py-2 pr-3 font-medium text-gray-800">{conflict.found || '-'}</td>
+                        <td className="py-2 pr-3 text-blue-700">{conflict.attempted || '-'}</td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          <Button variant="secondary" size="xs" onClick={() => onKeepConflictValue(conflict)} className="mr-1">
+                            {lang === 'fr' ? 'Garder le mien' : 'Keep mine'}
+                          </Button>
+                          <Button variant="ghost" size="xs" onClick={() => onDismissConflicts([conflict.id])}>
+                            {lang === 'fr' ? 'Ignorer' : 'Dismiss'}
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+};
@@ -29,10 +29,34 @@ export const DEFAULT_SETTINGS: AppSettings = {
     { name: 'Récupération', color: '#6366f1' }, // Indigo
     { name: 'Maladie', color: '#ef4444' }, // Red
     { name: 'Absence', color: '#b91c1c' }, // Dark Red
-    { name: 'Formation', color: '#10b981' }, // Emerald
+    { name: 'Formation', color: '#10b981', workedHours: 8 }, // Emerald
     { name: 'Congé', color: '#14b8a6' } // Teal
   ],
   holidays: [],
+  rotations: [
+    { id: 1, name: '3x8', sequence: ['Matin', 'Matin', 'Après-midi', 'Après-midi', 'Nuit', 'Nuit', 'Repos', 'Repos'] }
+  ],
+  laborRules: {
+    enabled: true,
+    minRestHours: 11,
+    maxConsecutiveDays: 6,
+    maxWeeklyHours: 48,
+    minWeeklyRestDays: 1,
+    mode: 'warn'
+  },
+  premiumRules: {
+    nightStart: '21:00',
+    nightEnd: '06:00',
+    weekendDays: [0],
+    overtimeTiers: [35, 43]
+  },
+  coverageTargets: [],
+  leaveAccrualRules: [
+    { id: 1, absenceType: 'Congé', monthlyDays: 2.08, carryOverCap: 5 }
+  ],
+  planningLockedUntil: null,
+  planningSchemaVersion: 0,
+  idSchemaVersion: 0,
   dateFormat: 'DD/MM/YYYY',
   language: getBrowserLanguage()
 };
@@ -63,6 +87,8 @@ export const TRANSLATIONS: Record<'fr' | 'en', Record<string, string>> = {
     bonus: 'Primes',
     audit: 'Traçabilité',
     training: 'Formations',
+    swaps: 'Échanges',
+    leaves: 'Congés',
     logout: 'Déconnexion',
     search: 'Rechercher...',
     new_employee: 'Nouveau collaborateur',
@@ -164,6 +190,8 @@ export const TRANSLATIONS: Record<'fr' | 'en', Record<string, string>> = {
     bonus: 'Bonuses',
     audit: 'Audit Log',
     training: 'Training',
+    swaps: 'Shift Swaps',
+    leaves: 'Leave Requests',
     logout: 'Logout',
     search: 'Search...',
     new_employee: 'New Employee',
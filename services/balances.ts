@@ -0,0 +1,124 @@
+import { AppSettings, Employee, LeaveAdjustment, PlanningCellMeta, PlanningData, PlanningMeta } from '../types';
+import { getCellParts, getPartialAbsence } from './cellDetails';
+import { round } from './hours';
+import { addDays, getDateRange, parseLocalDate, parsePlanningKey, planningKey } from './planning';
+
+export interface LedgerEntry {
+  date: string;
+  kind: 'accrual' | 'taken' | 'adjustment' | 'expired';
+  days: number; // Signed movement
+  balance: number; // Balance after the movement
+  label: string; // Period taken, accrual month or adjustment reason
+}
+
+export interface LeaveBalance {
+  absenceType: string;
+  accrued: number;
+  taken: number;
+  adjusted: number;
+  expired: number;
+  balance: number;
+}
+
+const isLastDayOfMonth = (dateStr: string) => addDays(dateStr, 1).endsWith('-01');
+
+// Days of `absenceType` consumed by a cell: 1 for a full day, 0.5 for a half-day or a partial absence
+export const getCellLeaveDays = (value: string | undefined, meta: PlanningCellMeta | undefined, absenceType: string, settings: AppSettings) => {
+  const days = getCellParts(value, meta).filter(part => part.value === absenceType).reduce((total, part) => total + part.fraction, 0);
+  return getPartialAbsence(value, meta, settings)?.absence === absenceType ? days + 0.5 : days;
+};
+
+// Absence types with a balance: those with an accrual rule or at least one manual adjustment
+export const getBalanceTypes = (settings: AppSettings, adjustments: LeaveAdjustment[]) =>
+  Array.from(new Set([...settings.leaveAccrualRules.map(r => r.absenceType), ...adjustments.map(a => a.absenceType)]));
+
+/**
+ * Day-by-day replay of one employee's balance for an absence type, up to `until`.
+ * Accrual is credited on the last day of each month, pro-rated on the days between `entryDate` and `exitDate`.
+ * On January 1st, the balance above the carry-over cap expires. Planned cells of the type consume one day, half-days
+ * and partial absences half a day; consecutive days are grouped in one entry.
+ * Without `entryDate`, the replay starts at the employee's first planned day or adjustment, so `planning` must hold
+ * the employee's whole history (see PlanningWindow.employeeId).
+ */
+export const computeLeaveLedger = (
+  planning: PlanningData,
+  employee: Employee,
+  absenceType: string,
+  settings: AppSettings,
+  adjustments: LeaveAdjustment[],
+  until: string,
+  meta: PlanningMeta = {}
+): LedgerEntry[] => {
+  const rule = settings.leaveAccrualRules.find(r => r.absenceType === absenceType);
+  const ownAdjustments = adjustments
+    .filter(a => a.employeeId == employee.id && a.absenceType === absenceType)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const firstPlannedDate = Object.keys(planning)
+    .filter(key => !!planning[key])
+    .map(parsePlanningKey)
+    .filter(cell => cell.employeeId == employee.id)
+    .map(cell => cell.date)
+    .sort()[0];
+  const start = [employee.entryDate || firstPlannedDate, ownAdjustments[0]?.date, `${until.slice(0, 4)}-01-01`]
+    .filter((date): date is string => !!date)
+    .sort()[0];
+
+  const entries: LedgerEntry[] = [];
+  let balance = 0;
+  const push = (date: string, kind: LedgerEntry['kind'], days: number, label: string) => {
+    balance = round(balance + days);
+    entries.push({ date, kind, days: round(days), balance, label });
+  };
+
+  let run: { from: string; to: string; days: number } | null = null;
+  const closeRun = () => {
+    if (!run) return;
+    push(run.from, 'taken', -run.days, run.from === run.to ? run.from : `${run.from} - ${run.to}`);
+    run = null;
+  };
+
+  let presentDays = 0;
+  getDateRange(start, until).forEach(dateStr => {
+    if (dateStr.endsWith('-01-01') && dateStr !== start && rule && rule.carryOverCap !== null && balance > rule.carryOverCap) {
+      closeRun();
+      push(dateStr, 'expired', rule.carryOverCap - balance, String(Number(dateStr.slice(0, 4)) - 1));
+    }
+
+    ownAdjustments.filter(a => a.date === dateStr).forEach(a => {
+      closeRun();
+      push(dateStr, 'adjustment', a.days, a.reason);
+    });
+
+    const key = planningKey(employee.id, dateStr);
+    const taken = getCellLeaveDays(planning[key], meta[key], absenceType, settings);
+    if (taken > 0) {
+      if (run) { run.to = dateStr; run.days += taken; }
+      else run = { from: dateStr, to: dateStr, days: taken };
+    } else {
+      closeRun();
+    }
+
+    const present = (!employee.entryDate || employee.entryDate <= dateStr) && (!employee.exitDate || employee.exitDate > dateStr);
+    if (present) presentDays++;
+    if (isLastDayOfMonth(dateStr)) {
+      closeRun();
+      const daysInMonth = parseLocalDate(dateStr).getDate();
+      if (rule && presentDays > 0) push(dateStr, 'accrual', rule.monthlyDays * presentDays / daysInMonth, dateStr.slice(0, 7));
+      presentDays = 0;
+    }
+  });
+  closeRun();
+  return entries;
+};
+
+export const summarizeLedger = (absenceType: string, entries: LedgerEntry[]): LeaveBalance => {
+  const sum = (kind: LedgerEntry['kind']) => round(entries.filter(e => e.kind === kind).reduce((total, e) => total + e.days, 0));
+  return {
+    absenceType,
+    accrued: sum('accrual'),
+    taken: -sum('taken'),
+    adjusted: sum('adjustment'),
+    expired: -sum('expired'),
+    balance: entries.length > 0 ? entries[entries.length - 1].balance : 0
+  };
+};
@@ -0,0 +1,69 @@
+import { AppSettings, PlanningCellMeta, Shift } from '../types';
+import { toMinutes } from './hours';
+import { getShiftHours } from './laborRules';
+
+const DAY = 24 * 60;
+
+/**
+ * Details of a cell that apply to its value. A half-day or partial absence set on another value is left out:
+ * clearing, reassigning or swapping a cell does not carry them over to what comes next.
+ * Documents without `detailsFor` were written before it was recorded and apply as they are.
+ */
+export const getCurrentDetails = (value: string | undefined, meta: PlanningCellMeta | undefined): PlanningCellMeta | undefined => {
+  if (!meta || meta.detailsFor === undefined || meta.detailsFor === (value || null)) return meta;
+  return { ...meta, secondHalf: null, partialAbsence: null };
+};
+
+// Values sharing a cell and the fraction of the day each one covers
+export const getCellParts = (value: string | undefined, meta: PlanningCellMeta | undefined) => {
+  if (!value) return [];
+  const secondHalf = getCurrentDetails(value, meta)?.secondHalf;
+  if (secondHalf) return [{ value, fraction: 0.5 }, { value: secondHalf, fraction: 0.5 }];
+  return [{ value, fraction: 1 }];
+};
+
+// Partial absence only applies to a full-day shift
+export const getPartialAbsence = (value: string | undefined, meta: PlanningCellMeta | undefined, settings: AppSettings) => {
+  const details = getCurrentDetails(value, meta);
+  if (!details?.partialAbsence || details.secondHalf || !settings.shifts.some(s => s.name === value)) return null;
+  return details.partialAbsence;
+};
+
+// Absence in minutes from midnight of the shift's day; an overnight shift accepts times after midnight
+export const getPartialAbsenceWindow = (shift: Shift, start: string, end: string) => {
+  const shiftStart = toMinutes(shift.start);
+  let absenceStart = toMinutes(start);
+  if (absenceStart < shiftStart) absenceStart += DAY;
+  let absenceEnd = toMinutes(end);
+  while (absenceEnd <= absenceStart) absenceEnd += DAY;
+  return { start: absenceStart, end: absenceEnd };
+};
+
+// Hours of the absence falling inside the shift
+export const getPartialAbsenceHours = (shift: Shift, start: string, end: string) => {
+  const shiftStart = toMinutes(shift.start);
+  const shiftEnd = shiftStart + getShiftHours(shift) * 60;
+  const absence = getPartialAbsenceWindow(shift, start, end);
+  return Math.max(0, Math.min(absence.end, shiftEnd) - Math.max(absence.start, shiftStart)) / 60;
+};
+
+// Whether the employee works at least part of the day
+export const isWorkingCell = (value: string | undefined, meta: PlanningCellMeta | undefined, settings: AppSettings) =>
+  getCellParts(value, meta).some(part => settings.shifts.some(s => s.name === part.value));
+
+// Whether the day is not fully worked: half-day or partial absence
+export const isPartialCell = (value: string | undefined, meta: PlanningCellMeta | undefined, settings: AppSettings) =>
+  getCellParts(value, meta).length > 1 || !!getPartialAbsence(value, meta, settings);
+
+// Whether any detail is set; an empty detail document is deleted rather than stored
+export const hasCellDetails = (meta: PlanningCellMeta | undefined) =>
+  !!(meta && (meta.secondHalf || meta.partialAbsence || meta.note || meta.attachment));
+
+// Text used in exports: "Congé / Matin" for half-days, "Matin (Maladie 08:00-10:00)" for a partial absence
+export const formatCellLabel = (value: string | undefined, meta: PlanningCellMeta | undefined, settings: AppSettings) => {
+  if (!value) return '';
+  const secondHalf = getCurrentDetails(value, meta)?.secondHalf;
+  if (secondHalf) return `${value} / ${secondHalf}`;
+  const partial = getPartialAbsence(value, meta, settings);
+  return partial ? `${value} (${partial.absence} ${partial.start}-${partial.end})` : value;
+};
@@ -0,0 +1,96 @@
+import { AppSettings, AuditLogEntry, Bonus, Employee, LeaveAdjustment, LeaveRequest, PlanningDocument, PlanningHistoryEntry, SwapRequest, Team, Training, User } from '../types';
+import { DocumentConverter, DocumentData, FirstAdminDocument, PlanningDraftDocument, PlanningDraftRangesDocument, PlanningMetaDocument, UserRoleDocument } from './repository';
+
+// Documents are plain JSON: Firestore refuses undefined values
+const toStored = (item: unknown): DocumentData => JSON.parse(JSON.stringify(item));
+
+// Ids written as strings by older versions (form values, manual edits) are read back as numbers
+const toOptionalId = (value: unknown) => value === undefined || value === null || value === '' ? undefined : Number(value);
+
+const createConverter = <T>(fromStored: (data: DocumentData, id: string) => T): DocumentConverter<T> => ({ toStored, fromStored });
+
+export const employeeConverter = createConverter<Employee>((data, id) => ({
+  ...data,
+  id: Number(data.id ?? id),
+  teamId: toOptionalId(data.teamId) ?? null
+} as Employee));
+
+export const teamConverter = createConverter<Team>((data, id) => ({
+  ...data,
+  id: Number(data.id ?? id),
+  leaderId: toOptionalId(data.leaderId) ?? '',
+  members: (data.members || []).map(Number)
+} as Team));
+
+export const userConverter = createConverter<User>((data, id) => ({
+  ...data,
+  id: Number(data.id ?? id),
+  ...(data.employeeId !== undefined ? { employeeId: toOptionalId(data.employeeId) ?? null } : {})
+} as User));
+
+export const userRoleConverter = createConverter<UserRoleDocument>(data => ({ role: data.role }));
+
+export const firstAdminConverter = createConverter<FirstAdminDocument>(data => ({ email: data.email, claimedAt: data.claimedAt }));
+
+export const trainingConverter = createConverter<Training>((data, id) => ({
+  ...data,
+  id: Number(data.id ?? id),
+  targetTeamIds: (data.targetTeamIds || []).map(Number),
+  participants: (data.participants || []).map((p: DocumentData) => ({ ...p, employeeId: Number(p.employeeId) }))
+} as Training));
+
+export const bonusConverter = createConverter<Bonus>((data, id) => ({
+  ...data,
+  id: String(data.id ?? id),
+  employeeId: Number(data.employeeId)
+} as Bonus));
+
+export const swapRequestConverter = createConverter<SwapRequest>((data, id) => ({
+  ...data,
+  id: Number(data.id ?? id),
+  requesterId: Number(data.requesterId),
+  targetId: Number(data.targetId)
+} as SwapRequest));
+
+export const leaveRequestConverter = createConverter<LeaveRequest>((data, id) => ({
+  ...data,
+  id: Number(data.id ?? id),
+  employeeId: Number(data.employeeId)
+} as LeaveRequest));
+
+export const leaveAdjustmentConverter = createConverter<LeaveAdjustment>((data, id) => ({
+  ...data,
+  id: Number(data.id ?? id),
+  employeeId: Number(data.employeeId)
+} as LeaveAdjustment));
+
+export const auditLogConverter = createConverter<AuditLogEntry>((data, id) => ({
+  ...data,
+  id: String(data.id ?? id)
+} as AuditLogEntry));
+
+export const planningHistoryConverter = createConverter<PlanningHistoryEntry>((data, id) => ({
+  ...data,
+  id: String(data.id ?? id),
+  employeeId: Number(data.employeeId)
+} as PlanningHistoryEntry));
+
+export const planningConverter = createConverter<PlanningDocument>(data => ({
+  ...data,
+  shift: data.shift,
+  employeeId: Number(data.employeeId),
+  teamId: toOptionalId(data.teamId) ?? null
+} as PlanningDocument));
+
+export const planningMetaConverter = createConverter<PlanningMetaDocument>(data => ({ ...data } as PlanningMetaDocument));
+
+export const planningDraftConverter = createConverter<PlanningDraftDocument>(data => ({ shift: data.shift ?? null }));
+
+export const planningDraftRangesConverter = createConverter<PlanningDraftRangesDocument>((data, id) => ({
+  teamId: Number(data.teamId ?? id),
+  ranges: data.ranges || []
+}));
+
+export const settingsConverter = createConverter<Partial<AppSettings>>(data => ({ ...data }));
+
+export const counterConverter = createConverter<{ value: number }>(data => ({ value: Number(data.value) || 0 }));
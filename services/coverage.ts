@@ -0,0 +1,104 @@
+import { AppSettings, CoverageTarget, Employee, PlanningCellMeta, PlanningData, PlanningMeta } from '../types';
+import { getCellParts, getPartialAbsence, getPartialAbsenceHours } from './cellDetails';
+import { round } from './hours';
+import { getShiftHours } from './laborRules';
+import { parseLocalDate, planningKey } from './planning';
+
+export type CoverageStatus = 'under' | 'short' | 'ok' | 'over';
+
+export interface ShiftCoverage {
+  shift: string;
+  count: number; // Headcount; a half-day or a partial absence counts for the share of the shift worked
+  min: number;
+  target: number;
+  status: CoverageStatus;
+}
+
+// Target for a team / shift on a given day: a weekday-specific target overrides the every-day one
+export const getCoverageTarget = (targets: CoverageTarget[], teamId: number, shift: string, dateStr: string) => {
+  const weekday = parseLocalDate(dateStr).getDay();
+  const candidates = targets.filter(t => t.teamId == teamId && t.shift === shift);
+  return candidates.find(t => t.weekday === weekday)
+    || candidates.find(t => t.weekday === null || t.weekday === undefined);
+};
+
+export const getCoverageStatus = (count: number, min: number, target: number): CoverageStatus => {
+  if (count < min) return 'under';
+  if (count < target) return 'short';
+  if (count > target) return 'over';
+  return 'ok';
+};
+
+// Share of the shift covered by one cell: half for a half-day, less the time of a partial absence
+const getCoveredShare = (value: string | undefined, meta: PlanningCellMeta | undefined, shift: string, settings: AppSettings) => {
+  const share = getCellParts(value, meta).filter(part => part.value === shift).reduce((sum, part) => sum + part.fraction, 0);
+  const partial = getPartialAbsence(value, meta, settings);
+  const definition = settings.shifts.find(s => s.name === shift);
+  if (!share || !partial || !definition || !getShiftHours(definition)) return share;
+  return share * (1 - getPartialAbsenceHours(definition, partial.start, partial.end) / getShiftHours(definition));
+};
+
+/**
+ * Headcount per shift for one day, summed over the given teams. Only shifts with a configured
+ * target for at least one of those teams are returned.
+ */
+export const computeDayCoverage = (
+  planning: PlanningData,
+  employees: Employee[],
+  settings: AppSettings,
+  teamIds: number[],
+  dateStr: string,
+  meta: PlanningMeta = {}
+) => {
+  const targets = settings.coverageTargets;
+  const coverage: ShiftCoverage[] = [];
+  settings.shifts.map(s => s.name).forEach(shift => {
+    let min = 0;
+    let target = 0;
+    let hasTarget = false;
+    teamIds.forEach(teamId => {
+      const t = getCoverageTarget(targets, teamId, shift, dateStr);
+      if (t) {
+        hasTarget = true;
+        min += t.min;
+        target += t.target;
+      }
+    });
+    if (!hasTarget) return;
+
+    const count = round(employees
+      .filter(e => e.teamId != null && teamIds.some(id => id == e.teamId) && (!e.exitDate || e.exitDate > dateStr))
+      .reduce((sum, e) => {
+        const key = planningKey(e.id, dateStr);
+        return sum + getCoveredShare(planning[key], meta[key], shift, settings);
+      }, 0));
+
+    coverage.push({ shift, count, min, target, status: getCoverageStatus(count, min, target) });
+  });
+  return coverage;
+};
+
+export interface CoverageGap extends ShiftCoverage {
+  date: string;
+  teamId: number;
+}
+
+// Team / shift / day combinations staffed below their target, most critical first
+export const findCoverageGaps = (
+  planning: PlanningData,
+  employees: Employee[],
+  settings: AppSettings,
+  teamIds: number[],
+  dates: string[],
+  meta: PlanningMeta = {}
+) => {
+  const gaps: CoverageGap[] = [];
+  dates.forEach(date => {
+    teamIds.forEach(teamId => {
+      computeDayCoverage(planning, employees, settings, [teamId], date, meta)
+        .filter(c => c.status === 'under' || c.status === 'short')
+        .forEach(c => gaps.push({ ...c, date, teamId }));
+    });
+  });
+  return gaps.sort((a, b) => a.date.localeCompare(b.date) || (a.count - a.min) - (b.count - b.min));
+};
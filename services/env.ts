@@ -0,0 +1,14 @@
+// Helper to safely get environment variables from Vite or Create-React-App
+export const getEnv = (key: string): string | undefined => {
+  // @ts-ignore - Vite support
+  if (typeof import.meta !== 'undefined' && import.meta.env) {
+    // @ts-ignore
+    return import.meta.env[`VITE_${key}`];
+  }
+  // @ts-ignore - CRA support
+  if (typeof process !== 'undefined' && process.env) {
+    // @ts-ignore
+    return process.env[`REACT_APP_${key}`];
+  }
+  return undefined;
+};
@@ -1,23 +1,8 @@
-
-import { initializeApp } from "firebase/app";
+import { initializeApp, FirebaseApp } from "firebase/app";
 import { getAnalytics } from "firebase/analytics";
-import { getFirestore } from "firebase/firestore";
-import { getAuth } from "firebase/auth";
-
-// Helper to safely get environment variables from Vite or Create-React-App
-const getEnv = (key: string) => {
-  // @ts-ignore - Vite support
-  if (typeof import.meta !== 'undefined' && import.meta.env) {
-    // @ts-ignore
-    return import.meta.env[`VITE_${key}`];
-  }
-  // @ts-ignore - CRA support
-  if (typeof process !== 'undefined' && process.env) {
-    // @ts-ignore
-    return process.env[`REACT_APP_${key}`];
-  }
-  return undefined;
-};
+import { initializeFirestore, persistentLocalCache, persistentMultipleTabManager, Firestore } from "firebase/firestore";
+import { getAuth, Auth } from "firebase/auth";
+import { getEnv } from "./env";
 
 // Config prioritizes Environment Variables, falls back to hardcoded values for immediate demo functionality.
 const firebaseConfig = {
@@ -30,8 +15,22 @@ const firebaseConfig = {
   measurementId: getEnv("FIREBASE_MEASUREMENT_ID") || "G-Y1PLB7DC8F"
 };
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
-const analytics = getAnalytics(app);
-export const db = getFirestore(app);
-export const auth = getAuth(app);
+// Initialized on first use, so that the local storage backend never contacts the Firebase project
+let app: FirebaseApp | null = null;
+let db: Firestore | null = null;
+let auth: Auth | null = null;
+
+const getApp = () => {
+  if (!app) {
+    app = initializeApp(firebaseConfig);
+    getAnalytics(app);
+  }
+  return app;
+};
+
+// Documents are cached in IndexedDB (shared by the open tabs), so the app still loads and reads offline
+export const getDb = () => db || (db = initializeFirestore(getApp(), {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+}));
+
+export const getFirebaseAuth = () => auth || (auth = getAuth(getApp()));
@@ -0,0 +1,122 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  onSnapshot,
+  query,
+  where,
+  orderBy,
+  limit,
+  writeBatch,
+  runTransaction,
+  FirestoreDataConverter,
+  QueryConstraint
+} from 'firebase/firestore';
+import {
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signOut,
+  onAuthStateChanged,
+  updateProfile,
+  sendEmailVerification,
+  setPersistence,
+  browserLocalPersistence,
+  browserSessionPersistence,
+  User as FirebaseUser
+} from 'firebase/auth';
+import { getDb, getFirebaseAuth } from './firebase';
+import { AuthService, AuthUser, CollectionRef, DocumentData, QueryOptions, StorageBackend } from './repository';
+
+const toAuthUser = (user: FirebaseUser | null): AuthUser | null => user
+  ? { uid: user.uid, email: user.email, displayName: user.displayName, emailVerified: user.emailVerified }
+  : null;
+
+const toConstraints = (options: QueryOptions) => {
+  const constraints: QueryConstraint[] = (options.where || []).map(filter => where(filter.field, filter.op, filter.value));
+  if (options.orderBy) constraints.push(orderBy(options.orderBy.field, options.orderBy.direction || 'asc'));
+  if (options.limit !== undefined) constraints.push(limit(options.limit));
+  return constraints;
+};
+
+const toFirestoreConverter = <T>({ converter }: CollectionRef<T>): FirestoreDataConverter<T> => ({
+  toFirestore: (item: T) => converter.toStored(item),
+  fromFirestore: snapshot => converter.fromStored(snapshot.data(), snapshot.id)
+});
+
+const collectionOf = <T>(ref: CollectionRef<T>) => collection(getDb(), ref.collection).withConverter(toFirestoreConverter(ref));
+
+const docOf = <T>(ref: CollectionRef<T>, id: string) => doc(collectionOf(ref), id);
+
+// Updates are partial and skip the converter, as in Firestore, so they go to the untyped document
+const rawDocOf = <T>(ref: CollectionRef<T>, id: string) => doc(getDb(), ref.collection, id);
+
+const firestoreAuth: AuthService = {
+  getCurrentUser: () => toAuthUser(getFirebaseAuth().currentUser),
+  onChange: callback => onAuthStateChanged(getFirebaseAuth(), user => callback(toAuthUser(user))),
+  setPersistence: async remember => {
+    await setPersistence(getFirebaseAuth(), remember ? browserLocalPersistence : browserSessionPersistence);
+  },
+  signIn: async (email, password) => {
+    await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+  },
+  signUp: async (email, password, displayName) => {
+    const { user } = await createUserWithEmailAndPassword(getFirebaseAuth(), email, password);
+    await sendEmailVerification(user);
+    await updateProfile(user, { displayName });
+    return toAuthUser(user)!;
+  },
+  sendVerification: async () => {
+    const user = getFirebaseAuth().currentUser;
+    if (user) await sendEmailVerification(user);
+  },
+  reload: async () => {
+    const user = getFirebaseAuth().currentUser;
+    if (user) await user.reload();
+    return toAuthUser(getFirebaseAuth().currentUser);
+  },
+  signOut: () => signOut(getFirebaseAuth())
+};
+
+// Backend of the Firebase project: Firestore documents and Firebase Authentication accounts
+export const createFirestoreBackend = (): StorageBackend => ({
+  auth: firestoreAuth,
+  watchCollection: (ref, options, onData, onError) => onSnapshot(query(collectionOf(ref), ...toConstraints(options)), snapshot => {
+    onData(snapshot.docs.map(d => ({ id: d.id, data: d.data() })));
+  }, onError),
+  watchDocument: (ref, id, onData, onError) => onSnapshot(docOf(ref, id), snapshot => {
+    onData(snapshot.exists() ? snapshot.data() : null);
+  }, onError),
+  query: async (ref, options) => {
+    const snapshot = await getDocs(query(collectionOf(ref), ...toConstraints(options)));
+    return snapshot.docs.map(d => ({ id: d.id, data: d.data() }));
+  },
+  get: async (ref, id) => {
+    const snapshot = await getDoc(docOf(ref, id));
+    return snapshot.exists() ? snapshot.data() : null;
+  },
+  set: (ref, id, data, options = {}) => setDoc(docOf(ref, id), data, { merge: !!options.merge }),
+  update: (ref, id, data) => updateDoc<DocumentData, DocumentData>(rawDocOf(ref, id), data),
+  delete: (ref, id) => deleteDoc(docOf(ref, id)),
+  commitBatch: async write => {
+    const batch = writeBatch(getDb());
+    write({
+      set: (ref, id, data) => batch.set(docOf(ref, id), data),
+      update: (ref, id, data) => batch.update<DocumentData, DocumentData>(rawDocOf(ref, id), data),
+      delete: (ref, id) => batch.delete(docOf(ref, id))
+    });
+    await batch.commit();
+  },
+  runTransaction: run => runTransaction(getDb(), transaction => run({
+    get: async (ref, id) => {
+      const snapshot = await transaction.get(docOf(ref, id));
+      return snapshot.exists() ? snapshot.data() : null;
+    },
+    set: (ref, id, data) => transaction.set(docOf(ref, id), data),
+    update: (ref, id, data) => transaction.update<DocumentData, DocumentData>(rawDocOf(ref, id), data),
+    delete: (ref, id) => transaction.delete(docOf(ref, id))
+  }))
+});
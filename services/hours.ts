@@ -0,0 +1,92 @@
+import { AppSettings, PlanningCellMeta, PlanningData, PlanningMeta } from '../types';
+import { getCellParts, getPartialAbsence, getPartialAbsenceHours } from './cellDetails';
+import { getShiftHours } from './laborRules';
+import { addDays, findHoliday, getDateRange, getWeekStart, planningKey } from './planning';
+
+export interface HoursSummary {
+  worked: number; // Hours of planned shifts
+  credited: number; // Absences counted as worked time (training...)
+  holiday: number; // Part of `worked` done on public holidays
+  total: number; // worked + credited
+}
+
+export interface WeekHours {
+  weekStart: string; // Monday
+  from: string; // Clipped to the requested range
+  to: string;
+  hours: HoursSummary;
+}
+
+// "HH:MM" as minutes since midnight
+export const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+// Hours and days are reported with two decimals
+export const round = (value: number) => Math.round(value * 100) / 100;
+
+const getValueHours = (value: string | undefined, settings: AppSettings) => {
+  const shift = settings.shifts.find(s => s.name === value);
+  if (shift) return { worked: getShiftHours(shift), credited: 0 };
+  const absence = settings.absenceTypes.find(a => a.name === value);
+  return { worked: 0, credited: absence?.workedHours || 0 };
+};
+
+/**
+ * Hours of a single cell. An overnight shift counts entirely on the day it starts. Each half of a half-day cell
+ * counts for half its value; a partial absence is taken off the shift, and credited back if the absence counts as worked time.
+ */
+export const getCellHours = (value: string | undefined, settings: AppSettings, meta?: PlanningCellMeta) => {
+  const hours = { worked: 0, credited: 0 };
+  getCellParts(value, meta).forEach(part => {
+    const partHours = getValueHours(part.value, settings);
+    hours.worked += partHours.worked * part.fraction;
+    hours.credited += partHours.credited * part.fraction;
+  });
+  const partial = getPartialAbsence(value, meta, settings);
+  const shift = settings.shifts.find(s => s.name === value);
+  if (partial && shift) {
+    const absent = getPartialAbsenceHours(shift, partial.start, partial.end);
+    hours.worked -= absent;
+    if (settings.absenceTypes.find(a => a.name === partial.absence)?.workedHours) hours.credited += absent;
+  }
+  return hours;
+};
+
+export const computeHours = (planning: PlanningData, employeeId: number, settings: AppSettings, from: string, to: string, meta: PlanningMeta = {}): HoursSummary => {
+  const summary: HoursSummary = { worked: 0, credited: 0, holiday: 0, total: 0 };
+  getDateRange(from, to).forEach(dateStr => {
+    const key = planningKey(employeeId, dateStr);
+    const { worked, credited } = getCellHours(planning[key], settings, meta[key]);
+    summary.worked += worked;
+    summary.credited += credited;
+    if (worked && findHoliday(settings.holidays, dateStr)) summary.holiday += worked;
+  });
+  summary.worked = round(summary.worked);
+  summary.credited = round(summary.credited);
+  summary.holiday = round(summary.holiday);
+  summary.total = round(summary.worked + summary.credited);
+  return summary;
+};
+
+// Monday to Sunday weeks overlapping the range; the first and last weeks are cut at the range limits
+export const getWeeksInRange = (from: string, to: string) => {
+  const weeks: Omit<WeekHours, 'hours'>[] = [];
+  for (let weekStart = getWeekStart(from); weekStart <= to; weekStart = addDays(weekStart, 7)) {
+    const weekEnd = addDays(weekStart, 6);
+    weeks.push({ weekStart, from: weekStart < from ? from : weekStart, to: weekEnd > to ? to : weekEnd });
+  }
+  return weeks;
+};
+
+export const computeWeeklyHours = (planning: PlanningData, employeeId: number, settings: AppSettings, from: string, to: string, meta: PlanningMeta = {}): WeekHours[] => {
+  return getWeeksInRange(from, to).map(week => ({ ...week, hours: computeHours(planning, employeeId, settings, week.from, week.to, meta) }));
+};
+
+// First and last day of a "YYYY-MM" month
+export const getMonthRange = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(year, monthIndex, 0).getDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
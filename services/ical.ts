@@ -0,0 +1,114 @@
+import { AppSettings, Employee, PlanningData, PlanningMeta } from '../types';
+import { getCellParts, getPartialAbsence } from './cellDetails';
+import { addDays, getDateRange, planningKey } from './planning';
+
+const CRLF = '\r\n';
+
+// TEXT values escape backslashes, separators and line breaks (RFC 5545 §3.3.11)
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets, continuation lines start with a space (RFC 5545 §3.1)
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  chunks.push(current);
+  return chunks.join(`${CRLF} `);
+};
+
+const formatDate = (dateStr: string) => dateStr.replace(/-/g, '');
+
+// Floating local time: events stay at the planned hour whatever the phone's time zone
+const formatDateTime = (dateStr: string, time: string) => `${formatDate(dateStr)}T${time.replace(':', '').padEnd(4, '0')}00`;
+
+const formatTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Seconds since 2024-01-01: grows with every export and stays within the 32-bit integers calendar apps expect
+const SEQUENCE_EPOCH = Date.UTC(2024, 0, 1);
+const toSequence = (date: Date) => Math.max(0, Math.floor((date.getTime() - SEQUENCE_EPOCH) / 1000));
+
+/**
+ * RFC 5545 calendar of the employees' cells between `from` and `to`. Each cell part gets a UID built from the employee,
+ * the date and the half, so importing a newer file updates the events instead of duplicating them: SEQUENCE and
+ * LAST-MODIFIED come from the export time, and the parts a cell no longer has are sent as cancelled events.
+ * Shifts are timed events (an overnight shift ends the next day), absences are all-day events.
+ */
+export const buildICalendar = (
+  planning: PlanningData,
+  employees: Employee[],
+  settings: AppSettings,
+  from: string,
+  to: string,
+  meta: PlanningMeta = {},
+  calendarName = 'Team LP'
+) => {
+  const now = new Date();
+  const stamp = formatTimestamp(now);
+  const sequence = toSequence(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Team LP//Planning//FR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ];
+
+  employees.forEach(emp => {
+    const name = `${emp.firstName} ${emp.lastName}`;
+    getDateRange(from, to).forEach(dateStr => {
+      const key = planningKey(emp.id, dateStr);
+      const value = planning[key];
+      const partial = getPartialAbsence(value, meta[key], settings);
+      const uidOf = (index: number) => `${emp.id}-${formatDate(dateStr)}-${index + 1}@team-lp`;
+      const exported = new Set<number>();
+      getCellParts(value, meta[key]).forEach((part, index) => {
+        const shift = settings.shifts.find(s => s.name === part.value);
+        const absence = settings.absenceTypes.find(a => a.name === part.value);
+        if (!shift && !absence) return;
+
+        const description = [
+          part.fraction < 1 ? (settings.language === 'fr' ? 'Demi-journée' : 'Half day') : '',
+          partial ? `${partial.absence} ${partial.start}-${partial.end}` : '',
+          meta[key]?.note || ''
+        ].filter(Boolean).join('\n');
+
+        exported.add(index);
+        lines.push('BEGIN:VEVENT', `UID:${uidOf(index)}`, `DTSTAMP:${stamp}`, `LAST-MODIFIED:${stamp}`, `SEQUENCE:${sequence}`);
+        if (shift) {
+          const endDate = shift.end <= shift.start ? addDays(dateStr, 1) : dateStr;
+          lines.push(`DTSTART:${formatDateTime(dateStr, shift.start)}`, `DTEND:${formatDateTime(endDate, shift.end)}`);
+        } else {
+          lines.push(`DTSTART;VALUE=DATE:${formatDate(dateStr)}`, `DTEND;VALUE=DATE:${formatDate(addDays(dateStr, 1))}`, 'TRANSP:TRANSPARENT');
+        }
+        lines.push(`SUMMARY:${escapeText(employees.length > 1 ? `${part.value} - ${name}` : part.value)}`);
+        if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+        const attachment = meta[key]?.attachment;
+        if (attachment) lines.push(`ATTACH:${attachment.url}`);
+        lines.push(`CATEGORIES:${shift ? 'Shift' : 'Absence'}`, 'END:VEVENT');
+      });
+      // An emptied cell, or a half-day turned back into a full day, removes the events exported before
+      [0, 1].filter(index => !exported.has(index)).forEach(index => {
+        lines.push(
+          'BEGIN:VEVENT', `UID:${uidOf(index)}`, `DTSTAMP:${stamp}`, `LAST-MODIFIED:${stamp}`, `SEQUENCE:${sequence}`,
+          `DTSTART;VALUE=DATE:${formatDate(dateStr)}`, `DTEND;VALUE=DATE:${formatDate(addDays(dateStr, 1))}`,
+          'STATUS:CANCELLED', 'TRANSP:TRANSPARENT', `SUMMARY:${settings.language === 'fr' ? 'Annulé' : 'Cancelled'}`, 'END:VEVENT'
+        );
+      });
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
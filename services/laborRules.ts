@@ -0,0 +1,138 @@
+import { AppSettings, PlanningData, PlanningMeta, RuleViolation, Shift } from '../types';
+import { getCellParts } from './cellDetails';
+import { getCellHours, round, toMinutes } from './hours';
+import { addDays, getDateRange, getWeekStart, parseLocalDate, parsePlanningKey, planningKey } from './planning';
+
+const HOUR = 3600000;
+
+// Shift length in hours. A shift ending at or before its start time ends the next day (Nuit 22:00 - 06:00 = 8h).
+export const getShiftHours = (shift: Shift) => {
+  const start = toMinutes(shift.start);
+  let end = toMinutes(shift.end);
+  if (end <= start) end += 24 * 60;
+  return (end - start) / 60;
+};
+
+// Absolute start / end timestamps of a shift worked on the given day
+export const getShiftInterval = (shift: Shift, dateStr: string) => {
+  const start = parseLocalDate(dateStr).getTime() + toMinutes(shift.start) * 60000;
+  return { start, end: start + getShiftHours(shift) * HOUR };
+};
+
+// Dates that validating (or changing) cells between `from` and `to` reads: whole weeks and the preceding working streak
+export const getRuleContextRange = (from: string, to: string, settings: AppSettings) => {
+  const maxConsecutiveDays = settings.laborRules?.maxConsecutiveDays || 0;
+  return {
+    from: [getWeekStart(from), addDays(from, -maxConsecutiveDays)].sort()[0],
+    to: addDays(getWeekStart(addDays(to, Math.max(7, maxConsecutiveDays))), 6)
+  };
+};
+
+/**
+ * Checks the rest, consecutive days, weekly hours and weekly rest rules for each employee.
+ * Neighbouring days and whole calendar weeks are read for context, but only violations dated
+ * between `from` and `to` are returned. Empty cells and absences count as days off; a half-day
+ * with a shift is a working day, and weekly hours leave out half-days off and partial absences.
+ */
+export const validatePlanning = (planning: PlanningData, employeeIds: number[], settings: AppSettings, from: string, to: string, meta: PlanningMeta = {}) => {
+  const rules = settings.laborRules;
+  const violations: RuleViolation[] = [];
+  if (!rules?.enabled || from > to) return violations;
+
+  const contextFrom = [getWeekStart(from), addDays(from, -rules.maxConsecutiveDays)].sort()[0];
+  const contextTo = addDays(getWeekStart(to), 6);
+  const days = getDateRange(contextFrom, contextTo);
+  const inRange = (dateStr: string) => dateStr >= from && dateStr <= to;
+
+  employeeIds.forEach(empId => {
+    const push = (date: string, rule: RuleViolation['rule'], value: number) => {
+      if (inRange(date)) violations.push({ employeeId: empId, date, rule, value });
+    };
+
+    let previous: { start: number; end: number } | null = null;
+    let consecutive = 0;
+    let weekHours = 0;
+    let weekRestDays = 0;
+    let weekHoursFlagged = false;
+
+    days.forEach((dateStr, index) => {
+      const key = planningKey(empId, dateStr);
+      const parts = getCellParts(planning[key], meta[key]);
+      const shift = settings.shifts.find(s => parts.some(part => part.value === s.name));
+
+      if (parseLocalDate(dateStr).getDay() === 1) {
+        weekHours = 0;
+        weekRestDays = 0;
+        weekHoursFlagged = false;
+      }
+
+      if (shift) {
+        const interval = getShiftInterval(shift, dateStr);
+        if (previous) {
+          const restHours = (interval.start - previous.end) / HOUR;
+          if (restHours < rules.minRestHours) push(dateStr, 'min_rest', Math.round(restHours * 10) / 10);
+        }
+        previous = interval;
+
+        consecutive++;
+        if (consecutive > rules.maxConsecutiveDays) push(dateStr, 'max_consecutive_days', consecutive);
+
+        weekHours += getCellHours(planning[key], settings, meta[key]).worked;
+        if (weekHours > rules.maxWeeklyHours && !weekHoursFlagged) {
+          push(dateStr, 'max_weekly_hours', round(weekHours));
+          weekHoursFlagged = true;
+        }
+      } else {
+        consecutive = 0;
+        weekRestDays++;
+      }
+
+      const isSunday = parseLocalDate(dateStr).getDay() === 0;
+      if (isSunday && index >= 6 && weekRestDays < rules.minWeeklyRestDays) {
+        push(dateStr, 'weekly_rest', weekRestDays);
+      }
+    });
+  });
+
+  return violations;
+};
+
+const violationId = (v: RuleViolation) => `${v.employeeId}_${v.date}_${v.rule}`;
+
+// Violations that a set of pending cell changes would introduce, compared to the current planning
+export const findNewViolations = (planning: PlanningData, changes: Record<string, string | null>, settings: AppSettings, meta: PlanningMeta = {}) => {
+  const keys = Object.keys(changes);
+  if (!settings.laborRules?.enabled || keys.length === 0) return [];
+
+  const next: PlanningData = { ...planning };
+  keys.forEach(key => {
+    const value = changes[key];
+    if (value) next[key] = value;
+    else delete next[key];
+  });
+
+  const cells = keys.map(parsePlanningKey);
+  const employeeIds = Array.from(new Set(cells.map(c => c.employeeId)));
+  const changedDates = cells.map(c => c.date).sort();
+  // A change can break a rule up to a week later (consecutive days, weekly totals)
+  const from = changedDates[0];
+  const to = addDays(changedDates[changedDates.length - 1], Math.max(7, settings.laborRules.maxConsecutiveDays));
+
+  const before = new Set(validatePlanning(planning, employeeIds, settings, from, to, meta).map(violationId));
+  return validatePlanning(next, employeeIds, settings, from, to, meta).filter(v => !before.has(violationId(v)));
+};
+
+export const describeViolation = (v: RuleViolation, settings: AppSettings) => {
+  const rules = settings.laborRules;
+  const fr = settings.language === 'fr';
+  switch (v.rule) {
+    case 'min_rest':
+      return fr ? `Repos de ${v.value}h entre deux shifts (min. ${rules.minRestHours}h)` : `${v.value}h rest between shifts (min. ${rules.minRestHours}h)`;
+    case 'max_consecutive_days':
+      return fr ? `${v.value} jours travaillés consécutifs (max. ${rules.maxConsecutiveDays})` : `${v.value} consecutive working days (max. ${rules.maxConsecutiveDays})`;
+    case 'max_weekly_hours':
+      return fr ? `${v.value}h dans la semaine (max. ${rules.maxWeeklyHours}h)` : `${v.value}h this week (max. ${rules.maxWeeklyHours}h)`;
+    case 'weekly_rest':
+      return fr ? `${v.value} jour(s) de repos dans la semaine (min. ${rules.minWeeklyRestDays})` : `${v.value} rest day(s) this week (min. ${rules.minWeeklyRestDays})`;
+  }
+};
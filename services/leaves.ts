@@ -0,0 +1,28 @@
+import { AppSettings, LeaveRequest, PlanningData } from '../types';
+import { findHoliday, getDateRange, planningKey } from './planning';
+
+/**
+ * Cells written when a leave request is approved. Public holidays and days already holding an absence
+ * (rest, sick leave...) are left as they are.
+ */
+export const buildLeaveChanges = (planning: PlanningData, request: LeaveRequest, settings: AppSettings) => {
+  const changes: Record<string, string | null> = {};
+  getDateRange(request.from, request.to).forEach(dateStr => {
+    if (findHoliday(settings.holidays, dateStr)) return;
+    const key = planningKey(request.employeeId, dateStr);
+    if (settings.absenceTypes.some(a => a.name === planning[key])) return;
+    changes[key] = request.absenceType;
+  });
+  return changes;
+};
+
+// Pending request covering each cell, for display in the planning grid
+export const getPendingLeaveByCell = (requests: LeaveRequest[]) => {
+  const byCell: Record<string, LeaveRequest> = {};
+  requests
+    .filter(request => request.status === 'pending')
+    .forEach(request => getDateRange(request.from, request.to).forEach(dateStr => {
+      byCell[planningKey(request.employeeId, dateStr)] = request;
+    }));
+  return byCell;
+};
@@ -0,0 +1,212 @@
+import { AuthService, AuthUser, BackendWriter, CollectionRef, DocumentData, QueryFilter, QueryOptions, StorageBackend, StoredDocument } from './repository';
+
+interface LocalAccount {
+  password: string; // Demo accounts only: kept as typed, in this browser
+  user: AuthUser;
+}
+
+interface LocalState {
+  collections: Record<string, Record<string, DocumentData>>;
+  accounts: Record<string, LocalAccount>; // By lowercase email
+}
+
+type LocalWrite =
+  | { type: 'set'; collection: string; id: string; data: DocumentData; merge: boolean }
+  | { type: 'update'; collection: string; id: string; data: DocumentData }
+  | { type: 'delete'; collection: string; id: string };
+
+const STORAGE_KEY = 'team_lp_local_db';
+const SESSION_KEY = 'team_lp_local_session';
+
+// Errors carry a Firebase-like code, so callers handle both backends the same way
+const storageError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+// Documents are stored as JSON, like Firestore they never hold undefined values nor share references with callers
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const matches = (data: DocumentData, filter: QueryFilter) => {
+  const value = data[filter.field];
+  if (value === undefined) return false;
+  switch (filter.op) {
+    case '==': return value === filter.value;
+    case '<': return value < filter.value;
+    case '<=': return value <= filter.value;
+    case '>': return value > filter.value;
+    case '>=': return value >= filter.value;
+  }
+};
+
+const compareValues = (a: any, b: any) => a < b ? -1 : a > b ? 1 : 0;
+
+/**
+ * Backend kept in this browser, for demos and automated tests: no Firebase project or network is needed.
+ * With `persist`, data and accounts survive reloads in localStorage; otherwise every load starts empty.
+ * Accounts are created verified since no email can be sent.
+ */
+export const createLocalBackend = (persist: boolean): StorageBackend => {
+  const load = (): LocalState => {
+    try {
+      const saved = persist ? localStorage.getItem(STORAGE_KEY) : null;
+      if (saved) return JSON.parse(saved);
+    } catch (e) {
+      console.warn("Local storage: unreadable data, starting empty", e);
+    }
+    return { collections: {}, accounts: {} };
+  };
+
+  const state = load();
+  const save = () => {
+    if (persist) localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  };
+
+  const getCollection = (name: string) => state.collections[name] || (state.collections[name] = {});
+
+  // The converter applies on the way out, so that callers never see raw documents
+  const read = <T>({ collection, converter }: CollectionRef<T>, id: string): T | null => {
+    const data = getCollection(collection)[id];
+    return data === undefined ? null : converter.fromStored(clone(data), id);
+  };
+
+  const runQuery = <T>(ref: CollectionRef<T>, options: QueryOptions): StoredDocument<T>[] => {
+    let docs = Object.keys(getCollection(ref.collection))
+      .sort()
+      .map(id => ({ id, data: getCollection(ref.collection)[id] }))
+      .filter(d => (options.where || []).every(filter => matches(d.data, filter)));
+    if (options.orderBy) {
+      const { field, direction } = options.orderBy;
+      docs = docs.filter(d => d.data[field] !== undefined).sort((a, b) => compareValues(a.data[field], b.data[field]) * (direction === 'desc' ? -1 : 1));
+    }
+    if (options.limit !== undefined) docs = docs.slice(0, options.limit);
+    return docs.map(d => ({ id: d.id, data: ref.converter.fromStored(clone(d.data), d.id) }));
+  };
+
+  // Listeners re-run on every write and only call back when their result changed
+  const listeners = new Set<() => void>();
+  const notifyListeners = () => listeners.forEach(listener => listener());
+
+  const watch = <T>(read: () => T, onData: (result: T) => void) => {
+    let last: string | null = null;
+    const listener = () => {
+      const result = read();
+      const serialized = JSON.stringify(result);
+      if (serialized === last) return;
+      last = serialized;
+      onData(result);
+    };
+    listeners.add(listener);
+    // The first result arrives asynchronously, as with Firestore
+    Promise.resolve().then(() => { if (listeners.has(listener)) listener(); });
+    return () => { listeners.delete(listener); };
+  };
+
+  // All writes apply or none does
+  const applyWrites = (writes: LocalWrite[]) => {
+    const previous = JSON.stringify(state.collections);
+    try {
+      writes.forEach(write => {
+        const docs = getCollection(write.collection);
+        if (write.type === 'delete') {
+          delete docs[write.id];
+        } else if (write.type === 'update') {
+          if (!docs[write.id]) throw storageError('not-found', `No document to update: ${write.collection}/${write.id}`);
+          docs[write.id] = clone({ ...docs[write.id], ...write.data });
+        } else {
+          docs[write.id] = clone(write.merge ? { ...docs[write.id], ...write.data } : write.data);
+        }
+      });
+    } catch (e) {
+      state.collections = JSON.parse(previous);
+      throw e;
+    }
+    save();
+    notifyListeners();
+  };
+
+  const collectWrites = (writes: LocalWrite[]): BackendWriter => ({
+    set: ({ collection, converter }, id, data) => { writes.push({ type: 'set', collection, id, data: converter.toStored(data), merge: false }); },
+    update: ({ collection }, id, data) => { writes.push({ type: 'update', collection, id, data }); },
+    delete: ({ collection }, id) => { writes.push({ type: 'delete', collection, id }); }
+  });
+
+  // Session: the signed-in email, kept like Firebase's local or session persistence
+  let sessionStore: Storage | null = persist ? (localStorage.getItem(SESSION_KEY) ? localStorage : sessionStorage) : null;
+  let sessionEmail: string | null = sessionStore?.getItem(SESSION_KEY) || null;
+  const authListeners = new Set<(user: AuthUser | null) => void>();
+
+  const getCurrentUser = () => sessionEmail && state.accounts[sessionEmail] ? clone(state.accounts[sessionEmail].user) : null;
+
+  const setSession = (email: string | null) => {
+    sessionEmail = email;
+    if (persist) [localStorage, sessionStorage].forEach(store => store.removeItem(SESSION_KEY));
+    if (email && sessionStore) sessionStore.setItem(SESSION_KEY, email);
+    authListeners.forEach(callback => callback(getCurrentUser()));
+  };
+
+  const auth: AuthService = {
+    getCurrentUser,
+    onChange: callback => {
+      authListeners.add(callback);
+      Promise.resolve().then(() => { if (authListeners.has(callback)) callback(getCurrentUser()); });
+      return () => { authListeners.delete(callback); };
+    },
+    setPersistence: async remember => {
+      if (persist) sessionStore = remember ? localStorage : sessionStorage;
+    },
+    signIn: async (email, password) => {
+      const account = state.accounts[email.trim().toLowerCase()];
+      if (!account || account.password !== password) throw storageError('auth/invalid-credential', 'Invalid email or password.');
+      setSession(email.trim().toLowerCase());
+    },
+    signUp: async (email, password, displayName) => {
+      const key = email.trim().toLowerCase();
+      if (state.accounts[key]) throw storageError('auth/email-already-in-use', 'This email is already in use.');
+      if (password.length < 6) throw storageError('auth/weak-password', 'Password should be at least 6 characters.');
+      state.accounts[key] = { password, user: { uid: `local-${Date.now()}`, email: key, displayName, emailVerified: true } };
+      save();
+      setSession(key);
+      return getCurrentUser()!;
+    },
+    sendVerification: async () => {},
+    reload: async () => getCurrentUser(),
+    signOut: async () => setSession(null)
+  };
+
+  return {
+    auth,
+    watchCollection: (ref, options, onData) => watch(() => runQuery(ref, options), onData),
+    watchDocument: (ref, id, onData) => watch(() => read(ref, id), onData),
+    query: async (ref, options) => runQuery(ref, options),
+    get: async (ref, id) => read(ref, id),
+    set: async ({ collection, converter }, id, data, options = {}) => applyWrites([{ type: 'set', collection, id, data: converter.toStored(data), merge: !!options.merge }]),
+    update: async ({ collection }, id, data) => applyWrites([{ type: 'update', collection, id, data }]),
+    delete: async ({ collection }, id) => applyWrites([{ type: 'delete', collection, id }]),
+    commitBatch: async write => {
+      const writes: LocalWrite[] = [];
+      write(collectWrites(writes));
+      applyWrites(writes);
+    },
+    // Optimistic like Firestore: the run starts over when a document it read was changed before its writes apply
+    runTransaction: async run => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const reads: Record<string, string> = {};
+        const writes: LocalWrite[] = [];
+        const result = await run({
+          ...collectWrites(writes),
+          get: async (ref, id) => {
+            reads[`${ref.collection}/${id}`] = JSON.stringify(getCollection(ref.collection)[id] ?? null);
+            return read(ref, id);
+          }
+        });
+        const changed = Object.keys(reads).some(path => {
+          const [name, id] = path.split('/');
+          return JSON.stringify(getCollection(name)[id] ?? null) !== reads[path];
+        });
+        if (!changed) {
+          applyWrites(writes);
+          return result;
+        }
+      }
+      throw storageError('aborted', 'Transaction failed: too much contention on the documents');
+    }
+  };
+};
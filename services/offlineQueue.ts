@@ -0,0 +1,47 @@
+import { PendingPlanningWrite, PlanningData } from '../types';
+
+export const PENDING_WRITES_KEY = 'team_lp_pending_writes';
+export const PLANNING_CONFLICTS_KEY = 'team_lp_planning_conflicts';
+
+// The queue and the conflict report are kept in the browser so that a reload or a closed tab loses nothing
+export const loadStoredList = <T>(key: string): T[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const storeList = <T>(key: string, items: T[]) => {
+  if (items.length > 0) localStorage.setItem(key, JSON.stringify(items));
+  else localStorage.removeItem(key);
+};
+
+/**
+ * Saved planning and drafts with the queued changes applied on top, in queue order, so that the grid shows
+ * what the user did before it reaches the server. A queued draft equal to the published value removes the draft.
+ */
+export const applyPendingWrites = (planning: PlanningData, drafts: Record<string, string | null>, pending: PendingPlanningWrite[]) => {
+  if (pending.length === 0) return { planning, drafts };
+  const mergedPlanning: PlanningData = { ...planning };
+  const mergedDrafts = { ...drafts };
+  pending.forEach(write => {
+    Object.keys(write.cells).forEach(key => {
+      const next = write.cells[key].next;
+      if (write.draft) {
+        if ((mergedPlanning[key] || null) === next) delete mergedDrafts[key];
+        else mergedDrafts[key] = next;
+      } else if (next) {
+        mergedPlanning[key] = next;
+      } else {
+        delete mergedPlanning[key];
+      }
+    });
+  });
+  return { planning: mergedPlanning, drafts: mergedDrafts };
+};
+
+// Connection and contention errors leave the change queued for the next attempt; any other error drops it
+export const isRetryableError = (error: any) =>
+  !navigator.onLine || ['unavailable', 'deadline-exceeded', 'aborted', 'resource-exhausted', 'internal', 'unknown'].includes(error?.code);
@@ -0,0 +1,130 @@
+import { Holiday, PlanningData } from '../types';
+
+// Shared date helpers for the planning grid and everything that derives planning entries.
+// Dates are handled as local "YYYY-MM-DD" strings, which is also the format used in planning keys.
+
+export const toLocalISO = (date: Date) => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+// Parses "YYYY-MM-DD" as a local date (new Date(str) would parse it as UTC midnight)
+export const parseLocalDate = (dateStr: string) => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// "YYYY-MM-DD" in the date format of the settings, without going through a UTC date
+export const formatDisplayDateLocal = (dateStr: string, format: string) => {
+  const d = parseLocalDate(dateStr);
+  const day = String(d.getDate()).padStart(2, '0');
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const year = d.getFullYear();
+  return format === 'DD/MM/YYYY' ? `${day}/${month}/${year}` : `${year}-${month}-${day}`;
+};
+
+export const addDays = (dateStr: string, days: number) => {
+  const d = parseLocalDate(dateStr);
+  d.setDate(d.getDate() + days);
+  return toLocalISO(d);
+};
+
+// Inclusive list of dates between two "YYYY-MM-DD" strings
+export const getDateRange = (from: string, to: string) => {
+  const dates: string[] = [];
+  let current = from;
+  while (current <= to) {
+    dates.push(current);
+    current = addDays(current, 1);
+  }
+  return dates;
+};
+
+// Monday of the week containing the date
+export const getWeekStart = (dateStr: string) => {
+  const day = parseLocalDate(dateStr).getDay();
+  return addDays(dateStr, day === 0 ? -6 : 1 - day);
+};
+
+// ISO 8601 week number: weeks start on Monday and week 1 holds the year's first Thursday
+export const getIsoWeek = (dateStr: string) => {
+  const thursday = addDays(getWeekStart(dateStr), 3);
+  const firstThursday = addDays(getWeekStart(`${thursday.slice(0, 4)}-01-04`), 3);
+  return 1 + Math.round((parseLocalDate(thursday).getTime() - parseLocalDate(firstThursday).getTime()) / (7 * 86400000));
+};
+
+export const planningKey = (employeeId: number, dateStr: string) => `${employeeId}_${dateStr}`;
+
+export const parsePlanningKey = (key: string) => {
+  const separator = key.indexOf('_');
+  return { employeeId: Number(key.slice(0, separator)), date: key.slice(separator + 1) };
+};
+
+export const isDateLocked = (lockedUntil: string | null | undefined, dateStr: string) => !!lockedUntil && dateStr <= lockedUntil;
+
+export const findHoliday = (holidays: Holiday[], dateStr: string) => {
+  return holidays.find(h => {
+    if (h.type === 'civil') {
+      // Civil holidays repeat every year: compare only Month and Day (MM-DD)
+      return h.date.substring(5) === dateStr.substring(5);
+    }
+    // Religious/Variable holidays are tied to a precise date
+    return h.date === dateStr;
+  });
+};
+
+export interface PeriodCopy {
+  employeeIds: number[];
+  sourceFrom: string;
+  days: number;
+  targetFrom: string;
+  repeat: number; // Number of consecutive copies placed after targetFrom
+  includeEmpty: boolean; // Empty source cells clear the target cell
+}
+
+// Replicates a window of the grid onto one or more target windows. Returns only the cells whose value changes.
+export const buildPeriodCopyChanges = (planning: PlanningData, { employeeIds, sourceFrom, days, targetFrom, repeat, includeEmpty }: PeriodCopy) => {
+  const changes: Record<string, string | null> = {};
+  for (let r = 0; r < repeat; r++) {
+    const copyStart = addDays(targetFrom, r * days);
+    for (let i = 0; i < days; i++) {
+      const sourceDate = addDays(sourceFrom, i);
+      const targetDate = addDays(copyStart, i);
+      employeeIds.forEach(empId => {
+        const value = planning[planningKey(empId, sourceDate)] || null;
+        const targetKey = planningKey(empId, targetDate);
+        if (!value && !includeEmpty) return;
+        if ((planning[targetKey] || null) === value) return;
+        changes[targetKey] = value;
+      });
+    }
+  }
+  return changes;
+};
+
+// Merges overlapping ranges, and ranges less than `gapDays` apart, into sorted disjoint ranges
+export const mergeDateRanges = (ranges: { from: string; to: string }[], gapDays = 0) => {
+  const merged: { from: string; to: string }[] = [];
+  [...ranges].filter(r => r.from <= r.to).sort((a, b) => a.from.localeCompare(b.from)).forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && addDays(last.to, gapDays + 1) >= range.from) {
+      if (range.to > last.to) last.to = range.to;
+    } else {
+      merged.push({ ...range });
+    }
+  });
+  return merged;
+};
+
+// Collapses a list of dates into consecutive { from, to } ranges
+export const groupDateRanges = (dates: string[]) => {
+  const ranges: { from: string; to: string }[] = [];
+  Array.from(new Set(dates)).sort().forEach(date => {
+    const last = ranges[ranges.length - 1];
+    if (last && addDays(last.to, 1) === date) last.to = date;
+    else ranges.push({ from: date, to: date });
+  });
+  return ranges;
+};
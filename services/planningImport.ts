@@ -0,0 +1,211 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { AppSettings, Employee, PlanningData, PlanningMeta, RuleViolation } from '../types';
+import { findNewViolations } from './laborRules';
+import { isDateLocked, planningKey, toLocalISO } from './planning';
+
+export interface ImportIssue {
+  row: number; // 1-based row of the file
+  matricule: string;
+  kind: 'unknown_employee' | 'inactive_employee' | 'locked';
+  detail: string;
+}
+
+export interface ImportReport {
+  dates: string[]; // Date columns recognised in the header row
+  codes: { code: string; count: number; mappedTo: string | null }[]; // Every distinct cell value of the file
+  changes: Record<string, string>; // Cells to write
+  overwrites: number; // Changes replacing a different value
+  unchanged: number; // Cells already holding the imported value
+  unmapped: number; // Cells skipped because their code is not mapped yet
+  employeeCount: number;
+  issues: ImportIssue[];
+  violations: RuleViolation[]; // Labor rules the changes would break; in "block" mode the import is refused
+}
+
+// Code from the file -> shift or absence name; '' skips the code
+export type ImportMapping = Record<string, string>;
+
+/**
+ * Minimal RFC 4180 parser. The delimiter is the one found most in the first line, so both comma CSV and the semicolon
+ * CSV written by French Excel are read.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/)[0] || '';
+  const delimiter = [';', ',', '\t'].reduce((best, candidate) => firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows;
+};
+
+// "AB12" -> 27 (0-based column index)
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/\d+$/, '');
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const childText = (element: Element, tag: string) => Array.from(element.getElementsByTagName(tag)).map(node => node.textContent || '').join('');
+
+/**
+ * Cells of the first worksheet of an .xlsx file as strings. Dates stay as Excel serial numbers;
+ * `parseImportDate` converts them.
+ */
+export const parseXlsx = (buffer: ArrayBuffer): string[][] => {
+  const files = unzipSync(new Uint8Array(buffer));
+  const readXml = (path: string) => files[path] ? new DOMParser().parseFromString(strFromU8(files[path]), 'application/xml') : null;
+
+  const sharedStrings = Array.from(readXml('xl/sharedStrings.xml')?.getElementsByTagName('si') || []).map(si => childText(si, 't'));
+
+  // The first sheet of the workbook is not always sheet1.xml: follow its relationship
+  const workbook = readXml('xl/workbook.xml');
+  const relationId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const relation = Array.from(readXml('xl/_rels/workbook.xml.rels')?.getElementsByTagName('Relationship') || []).find(r => r.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target')?.replace(/^\/?(xl\/)?/, '');
+  const sheet = readXml(target ? `xl/${target}` : 'xl/worksheets/sheet1.xml');
+  if (!sheet) throw new Error('No worksheet found');
+
+  const sheetRows = Array.from(sheet.getElementsByTagName('row')).reduce((rows, rowElement) => {
+    const rowIndex = Number(rowElement.getAttribute('r') || rows.length + 1) - 1;
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const type = cell.getAttribute('t');
+      const raw = childText(cell, 'v');
+      const value = type === 's' ? sharedStrings[Number(raw)] || ''
+        : type === 'inlineStr' ? childText(cell, 't')
+        : raw;
+      row[ref ? columnIndex(ref) : position] = value;
+    });
+    rows[rowIndex] = Array.from(row, value => value || '');
+    return rows;
+  }, [] as string[][]);
+  // Rows absent from the sheet XML leave holes
+  return Array.from(sheetRows, row => row || []);
+};
+
+/**
+ * Header cell to a YYYY-MM-DD date: ISO dates, DD/MM/YYYY (or DD-MM-YYYY, DD.MM.YY) and Excel serial numbers.
+ * Returns null for any other header (name column, totals...).
+ */
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const local = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (local) {
+    const year = local[3].length === 2 ? `20${local[3]}` : local[3];
+    const date = new Date(Number(year), Number(local[2]) - 1, Number(local[1]));
+    return date.getDate() === Number(local[1]) ? toLocalISO(date) : null;
+  }
+  // Serial days since 1899-12-30, limited to 1954-2119 so that plain numbers are not taken for dates
+  if (/^\d+(\.0+)?$/.test(text) && Number(text) > 20000 && Number(text) < 80000) {
+    const date = new Date(1899, 11, 30);
+    date.setDate(date.getDate() + Math.floor(Number(text)));
+    return toLocalISO(date);
+  }
+  return null;
+};
+
+// Codes equal to a shift or absence name (case and accents aside) map to it without user input
+export const getDefaultMapping = (codes: string[], settings: AppSettings): ImportMapping => {
+  const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+  const names = [...settings.shifts.map(s => s.name), ...settings.absenceTypes.map(a => a.name)];
+  return codes.reduce((mapping, code) => {
+    const match = names.find(name => normalize(name) === normalize(code));
+    if (match) mapping[code] = match;
+    return mapping;
+  }, {} as ImportMapping);
+};
+
+/**
+ * Dry run of a grid import: the header row is the first one with a date column, the first column holds the matricule.
+ * Empty cells are left untouched. Cells of unknown employees, on or after an employee's exit date or on locked dates
+ * are reported and skipped, as are codes not mapped yet. The changes then go through the labor rules, as the import will.
+ */
+export const analyzePlanningImport = (
+  rows: string[][],
+  employees: Employee[],
+  settings: AppSettings,
+  planning: PlanningData,
+  mapping: ImportMapping,
+  meta: PlanningMeta = {}
+): ImportReport => {
+  const report: ImportReport = { dates: [], codes: [], changes: {}, overwrites: 0, unchanged: 0, unmapped: 0, employeeCount: 0, issues: [], violations: [] };
+  const headerIndex = rows.findIndex(row => row.some((cell, index) => index > 0 && parseImportDate(cell)));
+  if (headerIndex === -1) return report;
+
+  const dateColumns = rows[headerIndex]
+    .map((cell, index) => ({ index, date: index > 0 ? parseImportDate(cell) : null }))
+    .filter((column): column is { index: number; date: string } => column.date !== null);
+  report.dates = dateColumns.map(column => column.date);
+
+  const counts: Record<string, number> = {};
+  const lockedRows = new Set<number>();
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const rowNumber = headerIndex + offset + 2;
+    const matricule = (row[0] || '').trim();
+    const cells = dateColumns.map(column => ({ date: column.date, code: (row[column.index] || '').trim() })).filter(cell => cell.code);
+    if (!matricule || cells.length === 0) return;
+    cells.forEach(cell => { counts[cell.code] = (counts[cell.code] || 0) + 1; });
+
+    const emp = employees.find(e => e.matricule.trim().toLowerCase() === matricule.toLowerCase());
+    if (!emp) {
+      report.issues.push({ row: rowNumber, matricule, kind: 'unknown_employee', detail: `${cells.length}` });
+      return;
+    }
+    report.employeeCount++;
+
+    const exitDate = emp.exitDate;
+    const afterExit = exitDate ? cells.filter(cell => cell.date >= exitDate) : [];
+    if (afterExit.length > 0) {
+      report.issues.push({ row: rowNumber, matricule, kind: 'inactive_employee', detail: `${exitDate}: ${afterExit.length}` });
+    }
+
+    cells.forEach(cell => {
+      if (exitDate && cell.date >= exitDate) return;
+      if (isDateLocked(settings.planningLockedUntil, cell.date)) {
+        if (!lockedRows.has(rowNumber)) report.issues.push({ row: rowNumber, matricule, kind: 'locked', detail: settings.planningLockedUntil || '' });
+        lockedRows.add(rowNumber);
+        return;
+      }
+      const value = mapping[cell.code];
+      if (value === '') return;
+      if (!value) {
+        report.unmapped++;
+        return;
+      }
+      const key = planningKey(emp.id, cell.date);
+      if (planning[key] === value) {
+        report.unchanged++;
+        return;
+      }
+      if (planning[key]) report.overwrites++;
+      report.changes[key] = value;
+    });
+  });
+
+  report.codes = Object.keys(counts).sort().map(code => ({ code, count: counts[code], mappedTo: mapping[code] || null }));
+  report.violations = findNewViolations(planning, report.changes, settings, meta);
+  return report;
+};
@@ -0,0 +1,113 @@
+import { AppSettings, PartialAbsence, PlanningData, PlanningMeta, PremiumRules, Shift } from '../types';
+import { getCellParts, getPartialAbsence, getPartialAbsenceWindow } from './cellDetails';
+import { computeHours, getMonthRange, round, toMinutes } from './hours';
+import { getShiftHours } from './laborRules';
+import { addDays, findHoliday, getDateRange, getWeekStart, parseLocalDate, planningKey } from './planning';
+
+const DAY = 24 * 60;
+
+export interface PremiumBreakdown {
+  total: number; // Shift hours falling in the period
+  night: number;
+  weekend: number;
+  holiday: number;
+  overtime: number[]; // One value per tier of `overtimeTiers`
+}
+
+const overlap = (start: number, end: number, windowStart: number, windowEnd: number) =>
+  Math.max(0, Math.min(end, windowEnd) - Math.max(start, windowStart));
+
+// Minutes of [start, end) inside the night window of one day. A window like 21:00 - 06:00 wraps midnight.
+const nightMinutes = (start: number, end: number, rules: PremiumRules) => {
+  const windowStart = toMinutes(rules.nightStart);
+  const windowEnd = toMinutes(rules.nightEnd);
+  if (windowStart < windowEnd) return overlap(start, end, windowStart, windowEnd);
+  return overlap(start, end, 0, windowEnd) + overlap(start, end, windowStart, DAY);
+};
+
+// Minutes worked from midnight of the shift's day: a partial absence cuts the shift in up to two intervals
+const getWorkedIntervals = (shift: Shift, absence?: PartialAbsence) => {
+  const start = toMinutes(shift.start);
+  const end = start + getShiftHours(shift) * 60;
+  if (!absence) return [{ start, end }];
+  const window = getPartialAbsenceWindow(shift, absence.start, absence.end);
+  return [{ start, end: Math.min(end, window.start) }, { start: Math.max(start, window.end), end }].filter(interval => interval.end > interval.start);
+};
+
+/**
+ * Splits a shift at midnight and classifies each part on its own calendar day:
+ * Saturday 22:00 - 06:00 gives 2h of Saturday and 6h of Sunday. The time of a partial absence is left out.
+ */
+export const classifyShift = (shift: Shift, dateStr: string, settings: AppSettings, absence?: PartialAbsence) => {
+  const rules = settings.premiumRules;
+  const parts: { date: string; hours: number; night: number; weekend: boolean; holiday: boolean }[] = [];
+
+  getWorkedIntervals(shift, absence).forEach(({ start, end }) => {
+    for (let dayOffset = 0; dayOffset * DAY < end; dayOffset++) {
+      const segmentStart = Math.max(start, dayOffset * DAY) - dayOffset * DAY;
+      const segmentEnd = Math.min(end, (dayOffset + 1) * DAY) - dayOffset * DAY;
+      if (segmentEnd <= segmentStart) continue;
+      const date = addDays(dateStr, dayOffset);
+      parts.push({
+        date,
+        hours: (segmentEnd - segmentStart) / 60,
+        night: nightMinutes(segmentStart, segmentEnd, rules) / 60,
+        weekend: rules.weekendDays.includes(parseLocalDate(date).getDay()),
+        holiday: !!findHoliday(settings.holidays, date)
+      });
+    }
+  });
+  return parts;
+};
+
+// Hours above each weekly threshold, capped at the next one: tiers [35, 43] and 46h give [8, 3]
+export const splitOvertime = (weekHours: number, tiers: number[]) => {
+  const sorted = [...tiers].sort((a, b) => a - b);
+  return sorted.map((threshold, index) => {
+    const cap = index + 1 < sorted.length ? sorted[index + 1] : Infinity;
+    return Math.max(0, Math.min(weekHours, cap) - threshold);
+  });
+};
+
+/**
+ * Monthly premium breakdown for one employee. Night, weekend and holiday hours are counted on the calendar day
+ * they fall on; each half of a half-day cell counts for half its shift. Overtime is computed per Monday - Sunday
+ * week and booked in the month containing the Sunday.
+ */
+export const computeMonthlyPremiums = (planning: PlanningData, employeeId: number, settings: AppSettings, month: string, meta: PlanningMeta = {}): PremiumBreakdown => {
+  const { from, to } = getMonthRange(month);
+  const tiers = [...settings.premiumRules.overtimeTiers].sort((a, b) => a - b);
+  const breakdown: PremiumBreakdown = { total: 0, night: 0, weekend: 0, holiday: 0, overtime: tiers.map(() => 0) };
+
+  // Start the day before: an overnight shift on the last day of the previous month spills into this one
+  getDateRange(addDays(from, -1), to).forEach(dateStr => {
+    const key = planningKey(employeeId, dateStr);
+    const partial = getPartialAbsence(planning[key], meta[key], settings);
+    getCellParts(planning[key], meta[key]).forEach(({ value, fraction }) => {
+      const shift = settings.shifts.find(s => s.name === value);
+      if (!shift) return;
+      classifyShift(shift, dateStr, settings, partial || undefined)
+        .filter(part => part.date >= from && part.date <= to)
+        .forEach(part => {
+          breakdown.total += part.hours * fraction;
+          breakdown.night += part.night * fraction;
+          if (part.weekend) breakdown.weekend += part.hours * fraction;
+          if (part.holiday) breakdown.holiday += part.hours * fraction;
+        });
+    });
+  });
+
+  for (let weekStart = getWeekStart(from); addDays(weekStart, 6) <= to; weekStart = addDays(weekStart, 7)) {
+    const sunday = addDays(weekStart, 6);
+    const weekHours = computeHours(planning, employeeId, settings, weekStart, sunday, meta).worked;
+    splitOvertime(weekHours, tiers).forEach((hours, index) => { breakdown.overtime[index] += hours; });
+  }
+
+  return {
+    total: round(breakdown.total),
+    night: round(breakdown.night),
+    weekend: round(breakdown.weekend),
+    holiday: round(breakdown.holiday),
+    overtime: breakdown.overtime.map(round)
+  };
+};
@@ -0,0 +1,239 @@
+import { AppSettings, AuditLogEntry, Bonus, Employee, LeaveAdjustment, LeaveRequest, PlanningCellMeta, PlanningDocument, PlanningHistoryEntry, SwapRequest, Team, Training, User } from '../types';
+import {
+  auditLogConverter,
+  bonusConverter,
+  counterConverter,
+  employeeConverter,
+  firstAdminConverter,
+  leaveAdjustmentConverter,
+  leaveRequestConverter,
+  planningConverter,
+  planningDraftConverter,
+  planningDraftRangesConverter,
+  planningHistoryConverter,
+  planningMetaConverter,
+  settingsConverter,
+  swapRequestConverter,
+  teamConverter,
+  trainingConverter,
+  userConverter,
+  userRoleConverter
+} from './converters';
+import { getEnv } from './env';
+import { createFirestoreBackend } from './firestoreRepository';
+import { createLocalBackend } from './localRepository';
+
+export type DocumentData = Record<string, any>;
+
+export type Unsubscribe = () => void;
+
+export interface StoredDocument<T> {
+  id: string; // Document id; entities with an `id` field are stored under String(id)
+  data: T;
+}
+
+// Typed view of the stored JSON: `fromStored` normalizes what older versions wrote, `toStored` drops undefined values
+export interface DocumentConverter<T> {
+  toStored: (item: T) => DocumentData;
+  fromStored: (data: DocumentData, id: string) => T;
+}
+
+// A collection and the converter of its documents
+export interface CollectionRef<T> {
+  readonly collection: string;
+  readonly converter: DocumentConverter<T>;
+}
+
+export interface QueryFilter<T = DocumentData> {
+  field: keyof T & string;
+  op: '==' | '<' | '<=' | '>' | '>=';
+  value: string | number | boolean | null;
+}
+
+export interface QueryOptions<T = DocumentData> {
+  where?: QueryFilter<T>[];
+  orderBy?: { field: keyof T & string; direction?: 'asc' | 'desc' };
+  limit?: number;
+}
+
+// Signed-in account, whatever the backend
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  emailVerified: boolean;
+}
+
+export interface AuthService {
+  getCurrentUser: () => AuthUser | null;
+  onChange: (callback: (user: AuthUser | null) => void) => Unsubscribe;
+  // Keeps the session after the browser is closed when `remember` is set
+  setPersistence: (remember: boolean) => Promise<void>;
+  signIn: (email: string, password: string) => Promise<void>;
+  // Creates the account, names it and sends the verification email
+  signUp: (email: string, password: string, displayName: string) => Promise<AuthUser>;
+  sendVerification: () => Promise<void>;
+  // Fresh copy of the current account, to see a verification done in another tab
+  reload: () => Promise<AuthUser | null>;
+  signOut: () => Promise<void>;
+}
+
+// Writes of a batch or a transaction. Applied together or not at all.
+export interface BackendWriter {
+  set: <T>(ref: CollectionRef<T>, id: string, data: T) => void;
+  update: <T>(ref: CollectionRef<T>, id: string, data: Partial<T>) => void;
+  delete: <T>(ref: CollectionRef<T>, id: string) => void;
+}
+
+export interface BackendTransaction extends BackendWriter {
+  get: <T>(ref: CollectionRef<T>, id: string) => Promise<T | null>;
+}
+
+/**
+ * What a storage engine provides. Collections hold JSON documents by id, read and written through the converter of
+ * the collection; `update` bypasses it, fails on a missing document, and `set` with `merge` creates the document
+ * or merges its top-level fields.
+ */
+export interface StorageBackend {
+  auth: AuthService;
+  watchCollection: <T>(ref: CollectionRef<T>, options: QueryOptions, onData: (docs: StoredDocument<T>[]) => void, onError: (error: any) => void) => Unsubscribe;
+  watchDocument: <T>(ref: CollectionRef<T>, id: string, onData: (data: T | null) => void, onError: (error: any) => void) => Unsubscribe;
+  query: <T>(ref: CollectionRef<T>, options: QueryOptions) => Promise<StoredDocument<T>[]>;
+  get: <T>(ref: CollectionRef<T>, id: string) => Promise<T | null>;
+  set: <T>(ref: CollectionRef<T>, id: string, data: T, options?: { merge?: boolean }) => Promise<void>;
+  update: <T>(ref: CollectionRef<T>, id: string, data: Partial<T>) => Promise<void>;
+  delete: <T>(ref: CollectionRef<T>, id: string) => Promise<void>;
+  commitBatch: (write: (writer: BackendWriter) => void) => Promise<void>;
+  runTransaction: <R>(run: (transaction: BackendTransaction) => Promise<R>) => Promise<R>;
+}
+
+export interface Repository<T> extends CollectionRef<T> {
+  subscribe: (onData: (docs: StoredDocument<T>[]) => void, onError: (error: any) => void, options?: QueryOptions<T>) => Unsubscribe;
+  list: (options?: QueryOptions<T>) => Promise<StoredDocument<T>[]>;
+  get: (id: string) => Promise<T | null>;
+  set: (id: string, data: T) => Promise<void>;
+  update: (id: string, data: Partial<T>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// The shared settings document (config/settings)
+export interface SettingsRepository {
+  subscribe: (onData: (settings: Partial<AppSettings> | null) => void, onError: (error: any) => void) => Unsubscribe;
+  update: (patch: Partial<AppSettings>) => Promise<void>;
+}
+
+export interface WriteBatch {
+  set: <T>(repository: Repository<T>, id: string, data: T) => void;
+  update: <T>(repository: Repository<T>, id: string, data: Partial<T>) => void;
+  delete: <T>(repository: Repository<T>, id: string) => void;
+}
+
+export interface Transaction extends WriteBatch {
+  get: <T>(repository: Repository<T>, id: string) => Promise<T | null>;
+}
+
+export type PlanningMetaDocument = PlanningCellMeta & { employeeId: number; date: string };
+
+// Unpublished value of a cell; null clears it on publish
+export interface PlanningDraftDocument {
+  shift: string | null;
+}
+
+// Role of an active user, stored by lowercase email for the security rules, which cannot look users up by email
+export interface UserRoleDocument {
+  role: User['role'];
+}
+
+// Account that claimed the first admin role (config/first_admin); the rules let it be created once
+export interface FirstAdminDocument {
+  email: string;
+  claimedAt: string;
+}
+
+// Periods with drafts of a team, without their values, so that everyone sees what may still change
+export interface PlanningDraftRangesDocument {
+  teamId: number;
+  ranges: { from: string; to: string }[];
+}
+
+/**
+ * VITE_STORAGE_BACKEND selects the engine: "local" keeps everything in this browser (localStorage), "memory" starts
+ * empty on every load, for demos and automated tests. Anything else uses the Firebase project.
+ */
+const createBackend = (): StorageBackend => {
+  const mode = getEnv('STORAGE_BACKEND');
+  if (mode === 'local' || mode === 'memory') return createLocalBackend(mode === 'local');
+  return createFirestoreBackend();
+};
+
+const backend = createBackend();
+
+const createRepository = <T>(collection: string, converter: DocumentConverter<T>): Repository<T> => {
+  const ref: CollectionRef<T> = { collection, converter };
+  return {
+    ...ref,
+    subscribe: (onData, onError, options = {}) => backend.watchCollection(ref, options as QueryOptions, onData, onError),
+    list: (options = {}) => backend.query(ref, options as QueryOptions),
+    get: id => backend.get(ref, id),
+    set: (id, data) => backend.set(ref, id, data),
+    update: (id, data) => backend.update(ref, id, data),
+    remove: id => backend.delete(ref, id)
+  };
+};
+
+const settingsRef: CollectionRef<Partial<AppSettings>> = { collection: 'config', converter: settingsConverter };
+
+const settingsRepository: SettingsRepository = {
+  subscribe: (onData, onError) => backend.watchDocument(settingsRef, 'settings', onData, onError),
+  update: patch => backend.set(settingsRef, 'settings', patch, { merge: true })
+};
+
+export const repositories = {
+  employees: createRepository('employees', employeeConverter),
+  teams: createRepository('teams', teamConverter),
+  users: createRepository('users', userConverter),
+  userRoles: createRepository('user_roles', userRoleConverter),
+  // Only its FIRST_ADMIN_ID document: config also holds the settings
+  firstAdmin: createRepository('config', firstAdminConverter),
+  settings: settingsRepository,
+  planning: createRepository('planning', planningConverter),
+  planningDrafts: createRepository('planning_drafts', planningDraftConverter),
+  // One document per team id, kept in step with the drafts by the editing roles
+  planningDraftRanges: createRepository('planning_draft_ranges', planningDraftRangesConverter),
+  planningMeta: createRepository('planning_meta', planningMetaConverter),
+  planningHistory: createRepository('planning_history', planningHistoryConverter),
+  swapRequests: createRepository('swap_requests', swapRequestConverter),
+  leaveRequests: createRepository('leave_requests', leaveRequestConverter),
+  leaveAdjustments: createRepository('leave_adjustments', leaveAdjustmentConverter),
+  bonuses: createRepository('bonuses', bonusConverter),
+  trainings: createRepository('trainings', trainingConverter),
+  auditLogs: createRepository('audit_logs', auditLogConverter),
+  // Last id handed out per collection, by collection name
+  counters: createRepository('counters', counterConverter)
+};
+
+export const FIRST_ADMIN_ID = 'first_admin';
+
+export const authService = backend.auth;
+
+// Writes queued by `write` are committed atomically
+export const commitBatch = (write: (batch: WriteBatch) => void) => backend.commitBatch(write);
+
+// Reads must come before writes; the backend retries or fails the whole run if a read document changed meanwhile
+export const runTransaction = <R>(run: (transaction: Transaction) => Promise<R>) => backend.runTransaction(run);
+
+/**
+ * Next numeric id of a collection, from its counter document. The transaction makes concurrent calls get distinct
+ * ids, where `Date.now()` collided when two people created something in the same millisecond.
+ */
+export const nextId = (repository: { collection: string }) => runTransaction(async (transaction) => {
+  const counter = await transaction.get(repositories.counters, repository.collection);
+  const value = (counter?.value || 0) + 1;
+  transaction.set(repositories.counters, repository.collection, { value });
+  return value;
+});
+
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// Random id for append-only records (audit logs, history) that are never referenced by number
+export const newRecordId = () => Array.from(crypto.getRandomValues(new Uint8Array(20)), byte => ID_ALPHABET[byte % ID_ALPHABET.length]).join('');
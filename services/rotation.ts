@@ -0,0 +1,63 @@
+import { AppSettings, Holiday, RotationPattern } from '../types';
+import { findHoliday, getDateRange, planningKey, parseLocalDate } from './planning';
+
+const normalize = (str: string) => str.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Resolves a typed sequence such as "M M A A N N R R" into shift / absence names.
+ * A token matches a full name first, otherwise the first shift (then absence type), in settings order,
+ * whose name starts with it: "R" gives "Repos" while "Réc" gives "Récupération".
+ */
+export const parseRotationSequence = (input: string, settings: AppSettings) => {
+  const sequence: string[] = [];
+  const unknown: string[] = [];
+  const shiftNames = settings.shifts.map(s => s.name);
+  const absenceNames = settings.absenceTypes.map(a => a.name);
+
+  input.split(/[\s,;]+/).filter(Boolean).forEach(token => {
+    const needle = normalize(token);
+    const match = [...shiftNames, ...absenceNames].find(name => normalize(name) === needle)
+      || shiftNames.find(name => normalize(name).startsWith(needle))
+      || absenceNames.find(name => normalize(name).startsWith(needle));
+    if (match) sequence.push(match);
+    else unknown.push(token);
+  });
+
+  return { sequence, unknown };
+};
+
+// Short label used to display a sequence back in the "M M A A" form
+export const formatRotationSequence = (sequence: string[]) => sequence.map(name => name.substring(0, 3)).join(' ');
+
+export interface RotationApplication {
+  pattern: RotationPattern;
+  employeeIds: number[];
+  from: string;
+  to: string;
+  offset: number; // Position in the sequence used for the `from` date
+  skipHolidays: boolean;
+  holidays: Holiday[];
+}
+
+/**
+ * Expands a rotation into planning entries keyed by "employeeId_YYYY-MM-DD".
+ * The cycle stays aligned on the calendar: a skipped holiday leaves the cell untouched
+ * but still consumes its day in the sequence.
+ */
+export const buildRotationEntries = ({ pattern, employeeIds, from, to, offset, skipHolidays, holidays }: RotationApplication) => {
+  const entries: Record<string, string> = {};
+  const length = pattern.sequence.length;
+  if (length === 0 || from > to) return entries;
+
+  const startTime = parseLocalDate(from).getTime();
+  getDateRange(from, to).forEach(dateStr => {
+    if (skipHolidays && findHoliday(holidays, dateStr)) return;
+    const dayIndex = Math.round((parseLocalDate(dateStr).getTime() - startTime) / 86400000);
+    const value = pattern.sequence[(((dayIndex + offset) % length) + length) % length];
+    employeeIds.forEach(empId => {
+      entries[planningKey(empId, dateStr)] = value;
+    });
+  });
+
+  return entries;
+};
@@ -0,0 +1,205 @@
+import { AppSettings, Employee, PlanningData, Shift } from '../types';
+import { CoverageGap, getCoverageStatus, getCoverageTarget } from './coverage';
+import { getShiftHours, getShiftInterval } from './laborRules';
+import { addDays, getDateRange, getWeekStart, parseLocalDate, planningKey } from './planning';
+
+const HOUR = 3600000;
+
+export interface ScheduleRequest {
+  teamId: number;
+  from: string;
+  to: string;
+  keepExisting: boolean; // Shifts already planned are kept; absences are always kept
+  restValue: string | null; // Absence type set on days off; null leaves them empty
+}
+
+export interface ScheduleLoad {
+  employeeId: number;
+  shifts: number;
+  nights: number;
+  weekends: number;
+  hours: number;
+}
+
+export interface ScheduleResult {
+  changes: Record<string, string | null>; // Only the cells whose value changes
+  gaps: CoverageGap[]; // Targets the generator could not reach
+  load: ScheduleLoad[];
+}
+
+interface RuleState {
+  lastEnd: number | null;
+  consecutive: number;
+  weekHours: number;
+  weekRestDays: number;
+}
+
+// A shift ending at or before its start time runs overnight
+export const isNightShift = (shift: Shift) => shift.end <= shift.start;
+
+// Weekend days are those of the premium rules, so that fairness follows what is paid as weekend
+const isWeekend = (dateStr: string, settings: AppSettings) => settings.premiumRules.weekendDays.includes(parseLocalDate(dateStr).getDay());
+
+// Absence type offered for days off: the one named as a rest day, if any
+export const getDefaultRestValue = (settings: AppSettings) =>
+  settings.absenceTypes.find(a => ['repos', 'rest'].includes(a.name.trim().toLowerCase()))?.name ?? null;
+
+const isAvailable = (emp: Employee, dateStr: string) =>
+  (!emp.entryDate || emp.entryDate <= dateStr) && (!emp.exitDate || emp.exitDate > dateStr);
+
+const startDay = (state: RuleState, dateStr: string) => {
+  if (parseLocalDate(dateStr).getDay() === 1) {
+    state.weekHours = 0;
+    state.weekRestDays = 0;
+  }
+};
+
+const endDay = (state: RuleState, dateStr: string, shift: Shift | undefined) => {
+  if (shift) {
+    state.lastEnd = getShiftInterval(shift, dateStr).end;
+    state.consecutive++;
+    state.weekHours += getShiftHours(shift);
+  } else {
+    state.consecutive = 0;
+    state.weekRestDays++;
+  }
+};
+
+/**
+ * Builds a proposal for one team over a date range. Each day, coverage targets are filled in two passes
+ * (minimums first, then ideal headcount) with employees that keep every labor rule satisfied.
+ * Night and weekend shifts go to whoever has worked the fewest of them so far, other shifts prefer
+ * the employee's default shift. Remaining employees work their default shift when it has no target,
+ * otherwise they are set to rest.
+ */
+export const generateSchedule = (
+  planning: PlanningData,
+  employees: Employee[],
+  settings: AppSettings,
+  { teamId, from, to, keepExisting, restValue: requestedRestValue }: ScheduleRequest
+): ScheduleResult => {
+  const rules = settings.laborRules;
+  const members = employees.filter(e => e.teamId == teamId && (!e.exitDate || e.exitDate > from));
+  const result: ScheduleResult = { changes: {}, gaps: [], load: [] };
+  if (members.length === 0 || from > to) return result;
+
+  const findShift = (name: string | undefined) => settings.shifts.find(s => s.name === name);
+  const isAbsence = (name: string | undefined) => settings.absenceTypes.some(a => a.name === name);
+  const restValue = isAbsence(requestedRestValue || undefined) ? requestedRestValue : null;
+
+  // Cells the generator must not touch
+  const isFixed = (empId: number, dateStr: string) => {
+    const value = planning[planningKey(empId, dateStr)];
+    return isAbsence(value) || (keepExisting && !!findShift(value));
+  };
+
+  // Replay the days before `from` so rest, streak and weekly counters start from the real planning
+  const states: Record<number, RuleState> = {};
+  const loads: Record<number, ScheduleLoad> = {};
+  const contextFrom = [getWeekStart(from), addDays(from, -(rules?.maxConsecutiveDays || 0))].sort()[0];
+  members.forEach(emp => {
+    const state: RuleState = { lastEnd: null, consecutive: 0, weekHours: 0, weekRestDays: 0 };
+    getDateRange(contextFrom, addDays(from, -1)).forEach(dateStr => {
+      startDay(state, dateStr);
+      endDay(state, dateStr, findShift(planning[planningKey(emp.id, dateStr)]));
+    });
+    states[emp.id] = state;
+    loads[emp.id] = { employeeId: emp.id, shifts: 0, nights: 0, weekends: 0, hours: 0 };
+  });
+
+  const canWork = (empId: number, shift: Shift, dateStr: string) => {
+    if (!rules?.enabled) return true;
+    const state = states[empId];
+    const interval = getShiftInterval(shift, dateStr);
+    if (state.lastEnd !== null && (interval.start - state.lastEnd) / HOUR < rules.minRestHours) return false;
+    if (state.consecutive + 1 > rules.maxConsecutiveDays) return false;
+    if (state.weekHours + getShiftHours(shift) > rules.maxWeeklyHours) return false;
+    // Days left until Sunday must still allow the weekly rest
+    const daysLeftInWeek = (7 - parseLocalDate(dateStr).getDay()) % 7;
+    if (state.weekRestDays + daysLeftInWeek < rules.minWeeklyRestDays) return false;
+    // A kept shift on the next day must still get its rest
+    const nextDate = addDays(dateStr, 1);
+    const nextShift = isFixed(empId, nextDate) ? findShift(planning[planningKey(empId, nextDate)]) : undefined;
+    if (nextShift && (getShiftInterval(nextShift, nextDate).start - interval.end) / HOUR < rules.minRestHours) return false;
+    return true;
+  };
+
+  const recordLoad = (empId: number, shift: Shift, dateStr: string) => {
+    const load = loads[empId];
+    load.shifts++;
+    load.hours += getShiftHours(shift);
+    if (isNightShift(shift)) load.nights++;
+    if (isWeekend(dateStr, settings)) load.weekends++;
+  };
+
+  const targetedShifts = settings.shifts
+    .filter(shift => settings.coverageTargets.some(c => c.teamId == teamId && c.shift === shift.name))
+    // Nights are the hardest to staff under rest rules: fill them first
+    .sort((a, b) => Number(isNightShift(b)) - Number(isNightShift(a)));
+
+  getDateRange(from, to).forEach(dateStr => {
+    const assigned: Record<number, Shift | undefined> = {};
+    const open = members.filter(emp => isAvailable(emp, dateStr));
+    open.forEach(emp => startDay(states[emp.id], dateStr));
+
+    const free = open.filter(emp => !isFixed(emp.id, dateStr));
+    open.filter(emp => isFixed(emp.id, dateStr)).forEach(emp => {
+      const shift = findShift(planning[planningKey(emp.id, dateStr)]);
+      assigned[emp.id] = shift;
+      if (shift) recordLoad(emp.id, shift, dateStr);
+    });
+
+    const countOn = (shift: Shift) => open.filter(emp => assigned[emp.id] === shift).length;
+
+    const fill = (shift: Shift, headcount: number) => {
+      const fairnessOf = (empId: number) =>
+        (isNightShift(shift) ? loads[empId].nights : 0) + (isWeekend(dateStr, settings) ? loads[empId].weekends : 0);
+      const candidates = free
+        .filter(emp => !(emp.id in assigned) && canWork(emp.id, shift, dateStr))
+        .sort((a, b) =>
+          fairnessOf(a.id) - fairnessOf(b.id)
+          || Number(!!a.defaultShift && a.defaultShift !== shift.name) - Number(!!b.defaultShift && b.defaultShift !== shift.name)
+          || loads[a.id].shifts - loads[b.id].shifts
+          || a.id - b.id
+        );
+      for (const emp of candidates) {
+        if (countOn(shift) >= headcount) break;
+        assigned[emp.id] = shift;
+        recordLoad(emp.id, shift, dateStr);
+      }
+    };
+
+    const targets = targetedShifts
+      .map(shift => ({ shift, target: getCoverageTarget(settings.coverageTargets, teamId, shift.name, dateStr) }))
+      .filter(entry => !!entry.target);
+    targets.forEach(({ shift, target }) => fill(shift, target!.min));
+    targets.forEach(({ shift, target }) => fill(shift, target!.target));
+
+    targets.forEach(({ shift, target }) => {
+      const count = countOn(shift);
+      const status = getCoverageStatus(count, target!.min, target!.target);
+      if (status === 'under' || status === 'short') {
+        result.gaps.push({ date: dateStr, teamId, shift: shift.name, count, min: target!.min, target: target!.target, status });
+      }
+    });
+
+    free.forEach(emp => {
+      if (!(emp.id in assigned)) {
+        const fallback = findShift(emp.defaultShift);
+        const hasTarget = targets.some(entry => entry.shift === fallback);
+        if (fallback && !hasTarget && canWork(emp.id, fallback, dateStr)) {
+          assigned[emp.id] = fallback;
+          recordLoad(emp.id, fallback, dateStr);
+        }
+      }
+      const value = assigned[emp.id]?.name || restValue;
+      const key = planningKey(emp.id, dateStr);
+      if ((planning[key] || null) !== value) result.changes[key] = value;
+    });
+
+    open.forEach(emp => endDay(states[emp.id], dateStr, assigned[emp.id]));
+  });
+
+  result.load = members.map(emp => loads[emp.id]);
+  return result;
+};
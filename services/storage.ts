@@ -1,31 +1,14 @@
-
-import { useState, useEffect, useMemo, useRef } from 'react';
-import { Employee, User, Team, AppSettings, PlanningData, Bonus, AuditLogEntry, Notification, Training } from '../types';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Employee, User, Team, AppSettings, PlanningData, Bonus, AuditLogEntry, Notification, Training, PlanningHistoryEntry, SwapRequest, LeaveRequest, LeaveAdjustment, PlanningCellMeta, PlanningMeta, PlanningDocument, PlanningWindow, PendingPlanningWrite, PlanningConflict } from '../types';
 import { DEFAULT_USERS, DEFAULT_SETTINGS, getBrowserLanguage } from '../constants';
-import { db, auth } from './firebase';
-import { 
-  collection, 
-  doc, 
-  setDoc, 
-  deleteDoc, 
-  onSnapshot, 
-  updateDoc,
-  query,
-  orderBy,
-  getDocs,
-  limit,
-  where,
-  writeBatch
-} from 'firebase/firestore';
-import { 
-  signInWithEmailAndPassword, 
-  createUserWithEmailAndPassword,
-  signOut, 
-  onAuthStateChanged,
-  updateProfile,
-  sendEmailVerification,
-  User as FirebaseUser
-} from 'firebase/auth';
+import { findNewViolations, describeViolation, getRuleContextRange } from './laborRules';
+import { addDays, getDateRange, groupDateRanges, isDateLocked, mergeDateRanges, parsePlanningKey, planningKey, toLocalISO } from './planning';
+import { buildSwapChanges, getSwapAbsenceKeys, getSwapKeys, isSwapOutdated, snapshotSwapCells } from './swaps';
+import { buildLeaveChanges } from './leaves';
+import { hasCellDetails } from './cellDetails';
+import { checkTeamIntegrity } from './teamIntegrity';
+import { PENDING_WRITES_KEY, PLANNING_CONFLICTS_KEY, applyPendingWrites, isRetryableError, loadStoredList, storeList } from './offlineQueue';
+import { repositories, authService, commitBatch, runTransaction, nextId, newRecordId, FIRST_ADMIN_ID, AuthUser, PlanningDraftRangesDocument, QueryFilter, Repository, WriteBatch } from './repository';
 
 // Helper to calculate diffs for logging
 const getDiff = (oldObj: any, newObj: any) => {
@@ -49,6 +32,19 @@ const getDiff = (oldObj: any, newObj: any) => {
   return changes.join(', ');
 };
 
+// Keeps the role document read by the security rules in step with a user: only active users get a role
+const writeUserRole = (batch: WriteBatch, user: Pick<User, 'email' | 'role' | 'active'>) => {
+  const email = user.email.toLowerCase();
+  if (user.active) batch.set(repositories.userRoles, email, { role: user.role });
+  else batch.delete(repositories.userRoles, email);
+};
+
+// The rules grant the admin role without a role document once, to the account that creates config/first_admin
+const claimFirstAdmin = (batch: WriteBatch, email: string) => {
+  batch.set(repositories.userRoles, email.toLowerCase(), { role: 'admin' });
+  batch.set(repositories.firstAdmin, FIRST_ADMIN_ID, { email: email.toLowerCase(), claimedAt: new Date().toISOString() });
+};
+
 const capitalize = (str: string) => {
     if (!str) return '';
     return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
@@ -67,14 +63,32 @@ export const useDataStore = () => {
     return DEFAULT_SETTINGS;
   });
 
-  const [planning, setPlanning] = useState<PlanningData>({});
+  // As saved on the server; `planning` and `planningDrafts` add the queued changes
+  const [savedPlanning, setSavedPlanning] = useState<PlanningData>({});
+  // Unpublished changes keyed like `planning`; null means the cell will be cleared on publish
+  const [savedDrafts, setSavedDrafts] = useState<Record<string, string | null>>({});
+  const [draftsLoaded, setDraftsLoaded] = useState(false);
+  // Public summary of the drafts (team and dates only); null until loaded
+  const [draftRanges, setDraftRanges] = useState<PlanningDraftRangesDocument[] | null>(null);
+  const [pendingWrites, setPendingWrites] = useState<PendingPlanningWrite[]>(() => loadStoredList(PENDING_WRITES_KEY));
+  const [planningConflicts, setPlanningConflicts] = useState<PlanningConflict[]>(() => loadStoredList(PLANNING_CONFLICTS_KEY));
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [retryTick, setRetryTick] = useState(0);
+  const [planningMeta, setPlanningMeta] = useState<PlanningMeta>({});
+  // Period displayed by each open screen, by screen id (see `setPlanningWindow`)
+  const [planningWindows, setPlanningWindows] = useState<Record<string, PlanningWindow>>({});
+  const [planningMode, setPlanningMode] = useState<'live' | 'draft'>('live');
   const [bonuses, setBonuses] = useState<Bonus[]>([]);
   const [logs, setLogs] = useState<AuditLogEntry[]>([]);
   const [trainings, setTrainings] = useState<Training[]>([]);
+  const [swapRequests, setSwapRequests] = useState<SwapRequest[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [leaveAdjustments, setLeaveAdjustments] = useState<LeaveAdjustment[]>([]);
   
   const [notifications, setNotifications] = useState<Notification[]>([]);
   
-  const [firebaseUser, setFirebaseUser] = useState<FirebaseUser | null>(null);
+  const [firebaseUser, setFirebaseUser] = useState<AuthUser | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
   const [usersLoading, setUsersLoading] = useState(true);
   const [settingsLoading, setSettingsLoading] = useState(true);
@@ -82,6 +96,10 @@ export const useDataStore = () => {
 
   const isSigningUp = useRef(false);
   const hasCleanedLogs = useRef(false);
+  const hasMigratedPlanning = useRef(false);
+  const hasMigratedIds = useRef(false);
+  const hasSyncedRoles = useRef(false);
+  const isSavingQueue = useRef(false);
 
   const notify = (message: string, type: 'success' | 'error' | 'info' = 'success') => {
     const id = Date.now();
@@ -97,13 +115,9 @@ export const useDataStore = () => {
       const twoMonthsAgo = new Date();
       twoMonthsAgo.setMonth(twoMonthsAgo.getMonth() - 2);
       const isoThreshold = twoMonthsAgo.toISOString();
-      const logsRef = collection(db, "audit_logs");
-      const q = query(logsRef, where("timestamp", "<", isoThreshold));
-      const snapshot = await getDocs(q);
-      if (!snapshot.empty) {
-        const batch = writeBatch(db);
-        snapshot.docs.forEach(doc => batch.delete(doc.ref));
-        await batch.commit();
+      const oldLogs = await repositories.auditLogs.list({ where: [{ field: 'timestamp', op: '<', value: isoThreshold }] });
+      if (oldLogs.length > 0) {
+        await commitBatch(batch => oldLogs.forEach(log => batch.delete(repositories.auditLogs, log.id)));
       }
       hasCleanedLogs.current = true;
     } catch (e) {
@@ -129,14 +143,16 @@ export const useDataStore = () => {
   };
 
   useEffect(() => {
-      const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      const unsubscribe = authService.onChange((user) => {
           setFirebaseUser(user);
           setAuthLoading(false);
           if (!user) {
               setEmployees([]);
               setTeams([]);
               setUsers([]);
-              setPlanning({});
+              setSavedPlanning({});
+              setSavedDrafts({});
+              setPlanningMeta({});
               setBonuses([]);
               setLogs([]);
               setTrainings([]);
@@ -144,6 +160,9 @@ export const useDataStore = () => {
               setUsersLoading(true);
               setSettingsLoading(true);
               hasCleanedLogs.current = false;
+              hasMigratedPlanning.current = false;
+              hasMigratedIds.current = false;
+              hasSyncedRoles.current = false;
           }
       });
       return () => unsubscribe();
@@ -154,11 +173,20 @@ export const useDataStore = () => {
     if (me?.role === 'admin' && !hasCleanedLogs.current) {
         cleanupOldLogs();
     }
-  }, [users, firebaseUser]);
+    if (me?.role === 'admin' && !settingsLoading && settings.planningSchemaVersion < 2 && employees.length > 0 && !hasMigratedPlanning.current) {
+        migratePlanningDocuments();
+    }
+    if (me?.role === 'admin' && !settingsLoading && settings.idSchemaVersion < 1 && !hasMigratedIds.current) {
+        migrateDocumentIds();
+    }
+    if (me?.role === 'admin' && !hasSyncedRoles.current) {
+        syncUserRoles(me);
+    }
+  }, [users, firebaseUser, settingsLoading, settings.planningSchemaVersion, settings.idSchemaVersion, employees]);
 
   const login = async (email: string, pass: string) => {
       try {
-          await signInWithEmailAndPassword(auth, email, pass);
+          await authService.signIn(email, pass);
           return true;
       } catch (error: any) {
           notify("Invalid email or password.", 'error');
@@ -169,28 +197,27 @@ export const useDataStore = () => {
   const signUp = async (email: string, pass: string, firstName: string = '', lastName: string = '') => {
       isSigningUp.current = true;
       try {
-          const userCredential = await createUserWithEmailAndPassword(auth, email, pass);
-          const user = userCredential.user;
-          await sendEmailVerification(user);
           const fullName = `${capitalize(firstName.trim())} ${capitalize(lastName.trim())}`.trim() || email.split('@')[0];
-          await updateProfile(user, { displayName: fullName });
+          const user = await authService.signUp(email, pass, fullName);
           
           let isFirstUser = false;
           try {
-              const usersRef = collection(db, "users");
-              const allUsersSnap = await getDocs(query(usersRef, limit(1)));
-              isFirstUser = allUsersSnap.empty;
+              const someUsers = await repositories.users.list({ limit: 1 });
+              isFirstUser = someUsers.length === 0;
           } catch(e) {}
 
           const newUser: User = {
-              id: Date.now(),
+              id: await nextId(repositories.users),
               name: fullName,
               email: user.email!,
               role: isFirstUser ? 'admin' : 'viewer',
               active: isFirstUser,
               emailVerified: isFirstUser
           };
-          await setDoc(doc(db, "users", String(newUser.id)), newUser);
+          await commitBatch(batch => {
+              batch.set(repositories.users, String(newUser.id), newUser);
+              if (isFirstUser) claimFirstAdmin(batch, newUser.email);
+          });
           notify("Account created! Please check your email to verify.", "info");
           return true;
       } catch (error: any) {
@@ -202,9 +229,10 @@ export const useDataStore = () => {
   };
 
   const resendVerification = async () => {
-      if (auth.currentUser && !auth.currentUser.emailVerified) {
+      const user = authService.getCurrentUser();
+      if (user && !user.emailVerified) {
           try {
-            await sendEmailVerification(auth.currentUser);
+            await authService.sendVerification();
             notify("Verification email sent.", "success");
           } catch(e: any) {
              notify("Failed to send email.", "error");
@@ -214,7 +242,7 @@ export const useDataStore = () => {
 
   const logout = async () => {
       try {
-          await signOut(auth);
+          await authService.signOut();
       } catch (error) {
           console.error(error);
       }
@@ -222,44 +250,26 @@ export const useDataStore = () => {
 
   useEffect(() => {
     if (!firebaseUser) return;
-    const q = query(collection(db, "employees"));
-    const unsubscribe = onSnapshot(q, (snapshot: any) => {
-      const items: Employee[] = [];
-      snapshot.forEach((doc: any) => items.push({ ...doc.data(), _docId: doc.id } as any));
-      setEmployees(items);
-    }, handleFirestoreError);
-    return () => unsubscribe();
+    return repositories.employees.subscribe(docs => setEmployees(docs.map(d => d.data)), handleFirestoreError);
   }, [firebaseUser]);
 
   useEffect(() => {
     if (!firebaseUser) return;
-    const q = query(collection(db, "teams"));
-    const unsubscribe = onSnapshot(q, (snapshot: any) => {
-      const items: Team[] = [];
-      snapshot.forEach((doc: any) => items.push({ ...doc.data(), _docId: doc.id } as any));
-      setTeams(items);
-    }, handleFirestoreError);
-    return () => unsubscribe();
+    return repositories.teams.subscribe(docs => setTeams(docs.map(d => d.data)), handleFirestoreError);
   }, [firebaseUser]);
 
   useEffect(() => {
     if (!firebaseUser) return;
-    const q = query(collection(db, "users"));
-    const unsubscribe = onSnapshot(q, (snapshot: any) => {
-      const items: User[] = [];
-      snapshot.forEach((doc: any) => items.push({ ...doc.data(), _docId: doc.id } as any));
-      setUsers(items);
+    return repositories.users.subscribe(docs => {
+      setUsers(docs.map(d => d.data));
       setUsersLoading(false);
     }, handleFirestoreError);
-    return () => unsubscribe();
   }, [firebaseUser]);
 
   useEffect(() => {
     if (!firebaseUser) return;
-    const docRef = doc(db, "config", "settings");
-    const unsubscribe = onSnapshot(docRef, (docSnap: any) => {
-      if (docSnap.exists()) {
-        const data = docSnap.data() as AppSettings;
+    return repositories.settings.subscribe(data => {
+      if (data) {
         const localLang = localStorage.getItem('team_lp_lang');
         const finalLang = (localLang === 'fr' || localLang === 'en') 
             ? localLang as 'fr' | 'en' 
@@ -274,101 +284,188 @@ export const useDataStore = () => {
          console.warn("Settings sync failed:", error.message);
          setSettingsLoading(false);
     });
-    return () => unsubscribe();
   }, [firebaseUser]);
 
+  /**
+   * Planning and cell details are only downloaded around what is displayed: the windows registered by the open screens,
+   * the coming weeks and the cells of pending swap and leave requests, each widened to the labor rule context.
+   * Windows less than two weeks apart share one query; an employee window loads that employee's whole history.
+   */
+  const planningQueries = useMemo(() => {
+    const today = toLocalISO(new Date());
+    const windows: PlanningWindow[] = [
+      { from: addDays(today, -7), to: addDays(today, 42) },
+      ...leaveRequests.filter(r => r.status === 'pending').map(r => ({ from: r.from, to: r.to })),
+      ...swapRequests.filter(r => r.status === 'pending_colleague' || r.status === 'pending_approval')
+        .flatMap(r => [{ from: r.requesterDate, to: r.requesterDate }, { from: r.targetDate, to: r.targetDate }]),
+      ...Object.values(planningWindows)
+    ];
+    const ranges = mergeDateRanges(windows.filter(w => w.employeeId === undefined).map(w => getRuleContextRange(w.from, w.to, settings)), 14);
+    const employeeIds = Array.from(new Set(windows.flatMap(w => w.employeeId === undefined ? [] : [w.employeeId]))).sort((a, b) => a - b);
+    return { ranges, employeeIds };
+  }, [planningWindows, leaveRequests, swapRequests, settings]);
+  const planningQueriesKey = JSON.stringify(planningQueries);
+
+  // Screens register the period they display and release it (null) when they close
+  const setPlanningWindow = useCallback((id: string, window: PlanningWindow | null) => {
+    setPlanningWindows(prev => {
+      const current = prev[id];
+      if (!window) {
+        if (!current) return prev;
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      }
+      if (current && current.from === window.from && current.to === window.to && current.employeeId === window.employeeId) return prev;
+      return { ...prev, [id]: window };
+    });
+  }, []);
+
+  // One listener per query of `planningQueries`; results are published together once every listener has answered
+  const subscribePlanningCollection = <D extends { employeeId: number; date: string }, T>(repository: Repository<D>, read: (data: D) => T, onData: (items: Record<string, T>) => void) => {
+    const filters: QueryFilter<D>[][] = [
+      ...planningQueries.ranges.map(range => [{ field: 'date', op: '>=', value: range.from }, { field: 'date', op: '<=', value: range.to }] as QueryFilter<D>[]),
+      ...planningQueries.employeeIds.map(employeeId => [{ field: 'employeeId', op: '==', value: employeeId }] as QueryFilter<D>[])
+    ];
+    const parts: Record<string, T>[] = filters.map(() => ({}));
+    const answered = new Set<number>();
+    const unsubscribes = filters.map((where, index) => repository.subscribe(docs => {
+      const items: Record<string, T> = {};
+      docs.forEach(d => {
+         items[d.id] = read(d.data);
+      });
+      parts[index] = items;
+      answered.add(index);
+      if (answered.size === filters.length) onData(Object.assign({}, ...parts));
+    }, handleFirestoreError, { where }));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  };
+
   useEffect(() => {
     if (!firebaseUser) return;
-    const q = query(collection(db, "planning"));
-    const unsubscribe = onSnapshot(q, (snapshot: any) => {
-      const newPlanning: PlanningData = {};
-      snapshot.forEach((doc: any) => {
-         const data = doc.data();
-         newPlanning[doc.id] = data.shift;
+    return subscribePlanningCollection(repositories.planning, data => data.shift, setSavedPlanning);
+  }, [firebaseUser, planningQueriesKey]);
+
+  // Drafts are private to the roles that edit the planning; viewers only ever read published values
+  const canSeeDrafts = (users.find(u => u.email.toLowerCase() === firebaseUser?.email?.toLowerCase())?.role || 'viewer') !== 'viewer';
+
+  useEffect(() => {
+    if (!firebaseUser || !canSeeDrafts) {
+      setSavedDrafts({});
+      setDraftsLoaded(false);
+      return;
+    }
+    return repositories.planningDrafts.subscribe(docs => {
+      const drafts: Record<string, string | null> = {};
+      docs.forEach(d => {
+         drafts[d.id] = d.data.shift || null;
       });
-      setPlanning(newPlanning);
+      setSavedDrafts(drafts);
+      setDraftsLoaded(true);
     }, handleFirestoreError);
-    return () => unsubscribe();
+  }, [firebaseUser, canSeeDrafts]);
+
+  useEffect(() => {
+    if (!firebaseUser) {
+      setDraftRanges(null);
+      return;
+    }
+    return repositories.planningDraftRanges.subscribe(docs => setDraftRanges(docs.map(d => d.data)), handleFirestoreError);
   }, [firebaseUser]);
 
+  // Editors keep the summary in step with the drafts saved on the server, whichever write changed them
+  useEffect(() => {
+    if (!canSeeDrafts || !draftsLoaded || !draftRanges || employees.length === 0) return;
+    const datesByTeam: Record<string, string[]> = {};
+    Object.keys(savedDrafts).forEach(key => {
+      const { employeeId, date } = parsePlanningKey(key);
+      const teamId = employees.find(e => e.id === employeeId)?.teamId;
+      if (teamId == null) return;
+      if (!datesByTeam[teamId]) datesByTeam[teamId] = [];
+      datesByTeam[teamId].push(date);
+    });
+    const cleared = draftRanges.filter(summary => !datesByTeam[summary.teamId]);
+    const changed = Object.keys(datesByTeam)
+      .map(teamId => ({ teamId: Number(teamId), ranges: groupDateRanges(datesByTeam[teamId]) }))
+      .filter(summary => JSON.stringify(summary.ranges) !== JSON.stringify(draftRanges.find(d => d.teamId === summary.teamId)?.ranges));
+    if (cleared.length === 0 && changed.length === 0) return;
+    commitBatch(batch => {
+      cleared.forEach(summary => batch.delete(repositories.planningDraftRanges, String(summary.teamId)));
+      changed.forEach(summary => batch.set(repositories.planningDraftRanges, String(summary.teamId), summary));
+    }).catch(e => console.warn("Failed to update the summary of the drafts", e));
+  }, [canSeeDrafts, draftsLoaded, savedDrafts, draftRanges, employees]);
+
   useEffect(() => {
     if (!firebaseUser) return;
-    const q = query(collection(db, "bonuses"));
-    const unsubscribe = onSnapshot(q, (snapshot: any) => {
-      const items: Bonus[] = [];
-      snapshot.forEach((doc: any) => items.push({ ...doc.data(), _docId: doc.id } as any));
-      setBonuses(items);
-    }, handleFirestoreError);
-    return () => unsubscribe();
+    // The query fields are not part of the cell details
+    return subscribePlanningCollection(repositories.planningMeta, ({ employeeId, date, ...meta }) => meta as PlanningCellMeta, setPlanningMeta);
+  }, [firebaseUser, planningQueriesKey]);
+
+  // Queued changes belong to the account that made them and wait for it if another one signs in on this browser
+  const ownPendingWrites = useMemo(() => pendingWrites.filter(w => w.user === firebaseUser?.email), [pendingWrites, firebaseUser]);
+  const ownPlanningConflicts = useMemo(() => planningConflicts.filter(c => c.user === firebaseUser?.email), [planningConflicts, firebaseUser]);
+
+  const { planning, drafts: planningDrafts } = useMemo(
+    () => applyPendingWrites(savedPlanning, savedDrafts, ownPendingWrites),
+    [savedPlanning, savedDrafts, ownPendingWrites]
+  );
+
+  // Published planning with the pending drafts applied on top
+  const draftPlanning = useMemo(() => {
+    const merged: PlanningData = { ...planning };
+    Object.keys(planningDrafts).forEach(key => {
+      const value = planningDrafts[key];
+      if (value) merged[key] = value;
+      else delete merged[key];
+    });
+    return merged;
+  }, [planning, planningDrafts]);
+
+  useEffect(() => {
+    if (!firebaseUser) return;
+    return repositories.bonuses.subscribe(docs => setBonuses(docs.map(d => d.data)), handleFirestoreError);
   }, [firebaseUser]);
 
   useEffect(() => {
     if (!firebaseUser) return;
-    const q = query(collection(db, "trainings"));
-    const unsubscribe = onSnapshot(q, (snapshot: any) => {
-      const items: Training[] = [];
-      snapshot.forEach((doc: any) => items.push({ ...doc.data(), _docId: doc.id } as any));
-      setTrainings(items);
-    }, handleFirestoreError);
-    return () => unsubscribe();
+    return repositories.trainings.subscribe(docs => setTrainings(docs.map(d => d.data)), handleFirestoreError);
   }, [firebaseUser]);
 
   useEffect(() => {
     if (!firebaseUser) return;
-    const q = query(collection(db, "audit_logs"), orderBy("timestamp", "desc"));
-    const unsubscribe = onSnapshot(q, (snapshot: any) => {
-      const items: AuditLogEntry[] = [];
-      snapshot.forEach((doc: any) => items.push(doc.data() as AuditLogEntry));
-      setLogs(items);
-    }, handleFirestoreError);
-    return () => unsubscribe();
+    return repositories.swapRequests.subscribe(docs => setSwapRequests(docs.map(d => d.data)), handleFirestoreError, { orderBy: { field: 'createdAt', direction: 'desc' } });
+  }, [firebaseUser]);
+
+  useEffect(() => {
+    if (!firebaseUser) return;
+    return repositories.leaveRequests.subscribe(docs => setLeaveRequests(docs.map(d => d.data)), handleFirestoreError, { orderBy: { field: 'createdAt', direction: 'desc' } });
+  }, [firebaseUser]);
+
+  useEffect(() => {
+    if (!firebaseUser) return;
+    return repositories.leaveAdjustments.subscribe(docs => setLeaveAdjustments(docs.map(d => d.data)), handleFirestoreError);
+  }, [firebaseUser]);
+
+  useEffect(() => {
+    if (!firebaseUser) return;
+    return repositories.auditLogs.subscribe(docs => setLogs(docs.map(d => d.data)), handleFirestoreError, { orderBy: { field: 'timestamp', direction: 'desc' } });
   }, [firebaseUser]);
 
   const addLog = async (action: string, details: string) => {
-    const id = Date.now();
     const newLog: AuditLogEntry = {
-      id,
+      id: newRecordId(),
       timestamp: new Date().toISOString(),
       action,
       details,
       user: firebaseUser?.email || 'Unknown'
     };
     try {
-      await setDoc(doc(db, "audit_logs", String(id)), newLog);
+      await repositories.auditLogs.set(newLog.id, newLog);
     } catch (e) {
       console.error("Failed to add log", e);
     }
   };
 
-  const robustDelete = async (collectionName: string, id: number | string, docId?: string) => {
-      let deleted = false;
-      if (docId) {
-          try {
-            await deleteDoc(doc(db, collectionName, docId));
-            deleted = true;
-          } catch(e) {}
-      }
-      if (!isNaN(Number(id))) {
-          try {
-            const qNum = query(collection(db, collectionName), where("id", "==", Number(id)));
-            const snapNum = await getDocs(qNum);
-            for (const d of snapNum.docs) { await deleteDoc(d.ref); deleted = true; }
-          } catch(e) {}
-      }
-      try {
-        const qStr = query(collection(db, collectionName), where("id", "==", String(id)));
-        const snapStr = await getDocs(qStr);
-        for (const d of snapStr.docs) { await deleteDoc(d.ref); deleted = true; }
-      } catch(e) {}
-      if (!deleted) {
-          try {
-            await deleteDoc(doc(db, collectionName, String(id)));
-            deleted = true;
-          } catch(e) {}
-      }
-      return deleted;
-  };
-
   const addEmployee = async (emp: Omit<Employee, 'id'>) => {
     if (!/^[a-zA-Z0-9]+$/.test(emp.matricule)) {
         notify(settings.language === 'fr' 
@@ -383,10 +480,9 @@ export const useDataStore = () => {
             : `Error: Employee with Matricule "${emp.matricule}" already exists.`, 'error');
         return;
     }
-    const id = Date.now();
-    const newEmp = JSON.parse(JSON.stringify({ ...emp, id }));
     try {
-      await setDoc(doc(db, "employees", String(id)), newEmp);
+      const id = await nextId(repositories.employees);
+      await repositories.employees.set(String(id), { ...emp, id });
       addLog('CREATE_EMPLOYEE', `Added employee ${emp.firstName} ${emp.lastName}`);
       notify('Employee added successfully');
     } catch (e: any) {
@@ -415,9 +511,8 @@ export const useDataStore = () => {
         }
     }
     const diff = getDiff(oldEmp, { ...oldEmp, ...data });
-    const docRef = (oldEmp as any)._docId ? doc(db, "employees", (oldEmp as any)._docId) : doc(db, "employees", String(id));
     try {
-      await updateDoc(docRef, data);
+      await repositories.employees.update(String(id), data);
       if (diff) {
           addLog('UPDATE_EMPLOYEE', `Updated Emp ${id}: ${diff}`);
           notify('Employee updated');
@@ -430,24 +525,21 @@ export const useDataStore = () => {
     }
   };
 
+  // The employee, its team memberships and leaderships, and its bonuses go in one batch
   const deleteEmployee = async (id: number) => {
     const emp = employees.find(e => e.id == id);
-    const docId = (emp as any)?._docId;
+    if (!emp) return;
     try {
-      await robustDelete("employees", id, docId);
-      teams.forEach(t => {
-        const tDocRef = (t as any)._docId ? doc(db, "teams", (t as any)._docId) : doc(db, "teams", String(t.id));
-        if (t.members.includes(id)) {
-           const newMembers = t.members.filter(m => m != id);
-           updateDoc(tDocRef, { members: newMembers });
-        }
-        if (t.leaderId == id) { updateDoc(tDocRef, { leaderId: '' }); }
+      await commitBatch(batch => {
+        batch.delete(repositories.employees, String(id));
+        teams.filter(t => t.members.some(m => m == id) || t.leaderId == id).forEach(t => {
+          batch.update(repositories.teams, String(t.id), {
+            ...(t.members.some(m => m == id) ? { members: t.members.filter(m => m != id) } : {}),
+            ...(t.leaderId == id ? { leaderId: '' } : {})
+          });
+        });
+        bonuses.filter(b => b.employeeId == id).forEach(b => batch.delete(repositories.bonuses, b.id));
       });
-      const relatedBonuses = bonuses.filter(b => b.employeeId == id);
-      for (const b of relatedBonuses) {
-          const bDocId = (b as any)._docId || b.id;
-          await deleteDoc(doc(db, "bonuses", bDocId));
-      }
       addLog('DELETE_EMPLOYEE', `Deleted employee ${emp?.firstName} ${emp?.lastName} (${id})`);
       notify('Employee deleted');
     } catch (e) {
@@ -455,20 +547,31 @@ export const useDataStore = () => {
     }
   };
 
+  /**
+   * Keeps `Employee.teamId` in line with a change of `Team.members`: added members get the team (and leave the team
+   * listing them before), removed members still assigned to it lose it.
+   */
+  const addMembershipChangesToBatch = (batch: WriteBatch, teamId: number, added: number[], removed: number[]) => {
+    added.forEach(empId => {
+      const emp = employees.find(e => e.id == empId);
+      if (emp) batch.update(repositories.employees, String(emp.id), { teamId });
+    });
+    removed.forEach(empId => {
+      const emp = employees.find(e => e.id == empId);
+      if (emp && emp.teamId == teamId) batch.update(repositories.employees, String(emp.id), { teamId: null });
+    });
+    teams.filter(t => t.id != teamId && t.members.some(m => added.some(a => a == m))).forEach(t => {
+      batch.update(repositories.teams, String(t.id), { members: t.members.filter(m => !added.some(a => a == m)) });
+    });
+  };
+
   const addTeam = async (team: Omit<Team, 'id'>) => {
-    const id = Date.now();
-    const newTeam = { ...team, id };
     try {
-      await setDoc(doc(db, "teams", String(id)), newTeam);
-      if (team.members && team.members.length > 0) {
-         team.members.forEach(empId => {
-             const emp = employees.find(e => e.id == empId);
-             if (emp) {
-                const eDocRef = (emp as any)?._docId ? doc(db, "employees", (emp as any)._docId) : doc(db, "employees", String(empId));
-                updateDoc(eDocRef, { teamId: id });
-             }
-         });
-      }
+      const id = await nextId(repositories.teams);
+      await commitBatch(batch => {
+        batch.set(repositories.teams, String(id), { ...team, id });
+        addMembershipChangesToBatch(batch, id, team.members || [], []);
+      });
       addLog('CREATE_TEAM', `Created team ${team.name}`);
       notify('Team created');
     } catch (e) { handleWriteError(e, "creating team"); }
@@ -478,27 +581,13 @@ export const useDataStore = () => {
     const oldTeam = teams.find(t => t.id == id);
     if (!oldTeam) return;
     const diff = getDiff(oldTeam, { ...oldTeam, ...data });
-    const docRef = (oldTeam as any)._docId ? doc(db, "teams", (oldTeam as any)._docId) : doc(db, "teams", String(id));
+    const removedMembers = data.members ? oldTeam.members.filter(mId => !data.members!.some(nm => nm == mId)) : [];
+    const addedMembers = data.members ? data.members.filter(mId => !oldTeam.members.some(om => om == mId)) : [];
     try {
-      await updateDoc(docRef, data);
-      if (data.members) {
-        const removedMembers = oldTeam.members.filter(mId => !data.members!.some(nm => nm == mId));
-        const addedMembers = data.members.filter(mId => !oldTeam.members.some(om => om == mId));
-        removedMembers.forEach(mId => {
-             const emp = employees.find(e => e.id == mId);
-             if (emp) {
-                 const eDocRef = (emp as any)?._docId ? doc(db, "employees", (emp as any)._docId) : doc(db, "employees", String(mId));
-                 updateDoc(eDocRef, { teamId: null } as any);
-             }
-        });
-        addedMembers.forEach(mId => {
-             const emp = employees.find(e => e.id == mId);
-             if (emp) {
-                 const eDocRef = (emp as any)?._docId ? doc(db, "employees", (emp as any)._docId) : doc(db, "employees", String(mId));
-                 updateDoc(eDocRef, { teamId: id });
-             }
-        });
-      }
+      await commitBatch(batch => {
+        batch.update(repositories.teams, String(id), data);
+        addMembershipChangesToBatch(batch, id, addedMembers, removedMembers);
+      });
       addLog('UPDATE_TEAM', `Updated team ${oldTeam.name}. ${diff}`);
       notify('Team updated');
     } catch (e) { handleWriteError(e, "updating team"); }
@@ -506,18 +595,39 @@ export const useDataStore = () => {
 
   const deleteTeam = async (id: number) => {
     const team = teams.find(t => t.id == id);
-    const docId = (team as any)?._docId;
+    if (!team) return;
     try {
-      await robustDelete("teams", id, docId);
-      employees.filter(e => e.teamId == id).forEach(e => {
-          const eDocRef = (e as any)?._docId ? doc(db, "employees", (e as any)._docId) : doc(db, "employees", String(e.id));
-          updateDoc(eDocRef, { teamId: null } as any);
+      await commitBatch(batch => {
+        batch.delete(repositories.teams, String(id));
+        employees.filter(e => e.teamId == id).forEach(e => batch.update(repositories.employees, String(e.id), { teamId: null }));
       });
-      addLog('DELETE_TEAM', `Deleted team ${team?.name}`);
+      addLog('DELETE_TEAM', `Deleted team ${team.name}`);
       notify('Team deleted');
     } catch (e) { handleWriteError(e, "deleting team"); }
   };
 
+  // Admin tool: writes the fixes found by `checkTeamIntegrity`, 500 documents per batch
+  const repairTeamIntegrity = async () => {
+    if (!isCurrentUserAdmin()) {
+      notify(settings.language === 'fr' ? 'Seul un administrateur peut réparer les équipes' : 'Only an admin can repair teams', 'error');
+      return;
+    }
+    const report = checkTeamIntegrity(teams, employees);
+    const updates: ((batch: WriteBatch) => void)[] = [
+      ...teams.filter(t => report.teamUpdates[t.id]).map(t => (batch: WriteBatch) => batch.update(repositories.teams, String(t.id), report.teamUpdates[t.id])),
+      ...employees.filter(e => report.employeeUpdates[e.id]).map(e => (batch: WriteBatch) => batch.update(repositories.employees, String(e.id), report.employeeUpdates[e.id]))
+    ];
+    if (updates.length === 0) return;
+    try {
+      for (let i = 0; i < updates.length; i += 500) {
+        await commitBatch(batch => updates.slice(i, i + 500).forEach(update => update(batch)));
+      }
+      const kinds = Array.from(new Set(report.issues.map(issue => issue.kind))).join(', ');
+      addLog('REPAIR_TEAM_INTEGRITY', `Fixed ${report.issues.length} team membership issue(s) (${kinds}) with ${updates.length} document update(s)`);
+      notify(settings.language === 'fr' ? 'Équipes réparées' : 'Teams repaired');
+    } catch (e) { handleWriteError(e, "repairing teams"); }
+  };
+
   const updateSettings = async (key: keyof AppSettings, value: any) => {
     // CRITICAL: Block updates if settings are not loaded yet to prevent overwriting with local defaults
     if (settingsLoading) {
@@ -526,8 +636,8 @@ export const useDataStore = () => {
     }
 
     try {
-      // Use setDoc with merge to ensure the document exists and is updated safely
-      await setDoc(doc(db, "config", "settings"), { [key]: value }, { merge: true });
+      // Merged, so that the document is created if needed and the other settings are kept
+      await repositories.settings.update({ [key]: value });
       
       if (key === 'language') {
         localStorage.setItem('team_lp_lang', value);
@@ -539,21 +649,687 @@ export const useDataStore = () => {
     } catch (e) { handleWriteError(e, "updating settings"); }
   };
 
+  const getCurrentUserRecord = () => users.find(u => u.email.toLowerCase() === firebaseUser?.email?.toLowerCase());
+
+  // Deployments whose users collection is empty have no admin yet: the account signed in acts as one until it saves
+  // its profile. Nothing is granted while the list is loading or could not be read.
+  const hasNoUsers = !usersLoading && !permissionError && users.length === 0;
+
+  const isCurrentUserAdmin = () => hasNoUsers || (!usersLoading && getCurrentUserRecord()?.role === 'admin');
+
+  // Admins, or the leader of the teams of all these employees; nobody decides on a request involving themselves
+  const canApproveFor = (employeeIds: number[]) => {
+    const ownEmployeeId = getCurrentUserRecord()?.employeeId;
+    if (ownEmployeeId != null && employeeIds.some(id => id == ownEmployeeId)) return false;
+    if (isCurrentUserAdmin()) return true;
+    if (ownEmployeeId == null) return false;
+    return employeeIds.every(id => teams.some(t => t.leaderId == ownEmployeeId && t.members.some(m => m == id)));
+  };
+
+  // Refuses direct planning edits from viewers; approved leaves and swaps write their cells on their own
+  const isBlockedForViewer = () => {
+    if (isCurrentUserAdmin() || (getCurrentUserRecord()?.role || 'viewer') !== 'viewer') return false;
+    notify(settings.language === 'fr' ? 'Votre rôle ne permet pas de modifier le planning' : 'Your role cannot edit the planning', 'error');
+    return true;
+  };
+
+  // Refuses planning changes dated in the locked period
+  const isBlockedByLock = (keys: string[]) => {
+    const lockedUntil = settings.planningLockedUntil;
+    if (!keys.some(key => isDateLocked(lockedUntil, parsePlanningKey(key).date))) return false;
+    notify(settings.language === 'fr' ? `Le planning est verrouillé jusqu'au ${lockedUntil}` : `Planning is locked until ${lockedUntil}`, 'error');
+    return true;
+  };
+
+  // Admins only. Moving the lock back (or removing it) reopens past cells and requires a reason for the audit log.
+  const setPlanningLock = async (until: string | null, reason: string = '') => {
+    if (!isCurrentUserAdmin()) {
+      notify(settings.language === 'fr' ? 'Seul un administrateur peut modifier le verrouillage' : 'Only an admin can change the planning lock', 'error');
+      return;
+    }
+    const previous = settings.planningLockedUntil;
+    const isUnlock = !!previous && (!until || until < previous);
+    if (isUnlock && !reason.trim()) {
+      notify(settings.language === 'fr' ? 'Un motif est requis pour déverrouiller' : 'A reason is required to unlock', 'error');
+      return;
+    }
+    try {
+      await repositories.settings.update({ planningLockedUntil: until });
+      if (isUnlock) {
+        addLog('UNLOCK_PLANNING', `Planning lock moved from ${previous} to ${until || 'none'}. Reason: ${reason.trim()}`);
+      } else {
+        addLog('LOCK_PLANNING', `Planning locked until ${until}`);
+      }
+      notify(settings.language === 'fr' ? 'Verrouillage mis à jour' : 'Planning lock updated');
+    } catch (e) { handleWriteError(e, "updating planning lock"); }
+  };
+
+  // In "block" mode, refuses planning changes that would break a labor rule
+  const isBlockedByLaborRules = (changes: Record<string, string | null>, base: PlanningData = planning) => {
+    if (settings.laborRules?.mode !== 'block') return false;
+    const violations = findNewViolations(base, changes, settings, planningMeta);
+    if (violations.length === 0) return false;
+    const first = violations[0];
+    const emp = employees.find(e => e.id == first.employeeId);
+    const more = violations.length > 1 ? ` (+${violations.length - 1})` : '';
+    notify(`${emp ? `${emp.firstName} ${emp.lastName}` : first.employeeId} - ${first.date}: ${describeViolation(first, settings)}${more}`, 'error');
+    return true;
+  };
+
+  // One history document per changed cell, written in the same batch (or transaction) as the change itself
+  const addHistoryToBatch = (batch: WriteBatch, key: string, previous: string | null, next: string | null, action: string, draft: boolean) => {
+    const { employeeId, date } = parsePlanningKey(key);
+    const entry: PlanningHistoryEntry = {
+      id: newRecordId(), key, employeeId, date, previous, next, action, draft,
+      user: firebaseUser?.email || 'Unknown',
+      timestamp: new Date().toISOString()
+    };
+    batch.set(repositories.planningHistory, entry.id, entry);
+  };
+
+  const getPlanningHistory = async (key: string) => {
+    try {
+      const docs = await repositories.planningHistory.list({ where: [{ field: 'key', op: '==', value: key }] });
+      return docs.map(d => d.data).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    } catch (e) {
+      handleWriteError(e, "loading planning history");
+      return [];
+    }
+  };
+
+  // Planning document of a cell, with the fields used by range and employee queries
+  const toPlanningDocument = (key: string, shift: string): PlanningDocument => {
+    const { employeeId, date } = parsePlanningKey(key);
+    return { shift, employeeId, date, teamId: employees.find(e => e.id == employeeId)?.teamId ?? null };
+  };
+
+  /**
+   * One-off upgrade run by the first admin session: documents written before range queries only held their values,
+   * so their employeeId / date (and teamId for planning) fields are filled in from the document id.
+   * Cell details written before `detailsFor` existed are then tied to the value the cell holds.
+   */
+  const migratePlanningDocuments = async () => {
+    hasMigratedPlanning.current = true;
+    const addQueryFields = async <D extends { date: string }>(repository: Repository<D>, fields: (key: string, data: D) => Partial<D>) => {
+      const outdated = (await repository.list()).filter(d => !d.data.date);
+      for (let i = 0; i < outdated.length; i += 500) {
+        await commitBatch(batch => outdated.slice(i, i + 500).forEach(d => batch.update(repository, d.id, fields(d.id, d.data))));
+      }
+      return outdated.length;
+    };
+    try {
+      const count = await addQueryFields(repositories.planning, (key, data) => toPlanningDocument(key, data.shift))
+        + await addQueryFields(repositories.planningMeta, key => parsePlanningKey(key));
+      // Half-days and partial absences set before their value was recorded are tied to the current value
+      const untied = (await repositories.planningMeta.list()).filter(d => (d.data.secondHalf || d.data.partialAbsence) && d.data.detailsFor === undefined);
+      if (untied.length > 0) {
+        const shifts = new Map((await repositories.planning.list()).map(d => [d.id, d.data.shift]));
+        for (let i = 0; i < untied.length; i += 500) {
+          await commitBatch(batch => untied.slice(i, i + 500).forEach(d => batch.update(repositories.planningMeta, d.id, { detailsFor: shifts.get(d.id) ?? null })));
+        }
+      }
+      await repositories.settings.update({ planningSchemaVersion: 2 });
+      addLog('MIGRATE_PLANNING', `Added query fields to ${count} planning documents and tied ${untied.length} cell details to their value`);
+    } catch (e) {
+      hasMigratedPlanning.current = false;
+      console.warn("Maintenance: Failed to migrate planning documents", e);
+    }
+  };
+
+  /**
+   * One-off upgrade run by admin sessions: documents created with `Date.now()` ids were not always stored under their
+   * id, and some shared it. Each document is moved under String(id) (bonuses under employeeId_month) and the counters
+   * start after the highest id. A document whose id is shared or invalid stays where it is: planning keys, team
+   * members and requests may refer to it by that id, so it is listed with a free id for an admin to resolve, and the
+   * upgrade runs again on the next admin session until no such document is left.
+   */
+  // Writes the role documents of the users created before the security rules read them, and repairs any drift
+  const syncUserRoles = async (me: User) => {
+    hasSyncedRoles.current = true;
+    try {
+      const stored = await repositories.userRoles.list();
+      if (!stored.some(d => d.id === me.email.toLowerCase() && d.data.role === 'admin')) {
+        if (await repositories.firstAdmin.get(FIRST_ADMIN_ID)) {
+          console.warn("Maintenance: the admin role of this account is not in user_roles yet; another admin must open the app");
+          return;
+        }
+        await commitBatch(batch => claimFirstAdmin(batch, me.email));
+      }
+      const expected = new Map(users.filter(u => u.active).map(u => [u.email.toLowerCase(), u.role]));
+      const stale = stored.filter(d => !expected.has(d.id));
+      const changed = users.filter(u => u.active && stored.find(d => d.id === u.email.toLowerCase())?.data.role !== u.role);
+      if (stale.length === 0 && changed.length === 0) return;
+      await commitBatch(batch => {
+        stale.forEach(d => batch.delete(repositories.userRoles, d.id));
+        changed.forEach(u => writeUserRole(batch, u));
+      });
+    } catch (e) {
+      console.warn("Maintenance: Failed to sync user roles", e);
+    }
+  };
+
+  const migrateDocumentIds = async () => {
+    hasMigratedIds.current = true;
+    const referencedBy: Record<string, string> = {
+      [repositories.employees.collection]: 'planning, planning_meta, teams.members, teams.leaderId, users.employeeId, bonuses, swap_requests, leave_requests, leave_adjustments, trainings.participants',
+      [repositories.teams.collection]: 'employees.teamId, planning.teamId, trainings.targetTeamIds'
+    };
+    // A document whose target is another document's id is overwritten by the move, not deleted
+    const moveDocuments = async <D>(repository: Repository<D>, moves: { from: string; to: string | null; data: D }[]) => {
+      const targets = new Set(moves.map(m => m.to));
+      for (let i = 0; i < moves.length; i += 250) {
+        await commitBatch(batch => moves.slice(i, i + 250).forEach(({ from, to, data }) => {
+          if (to) batch.set(repository, to, data);
+          if (!targets.has(from)) batch.delete(repository, from);
+        }));
+      }
+      return moves.length;
+    };
+    const moveToOwnIds = async <D extends { id: number }>(repository: Repository<D>) => {
+      // Documents already stored under their id keep it when the id is shared
+      const docs = (await repository.list()).sort((a, b) => Number(b.id === String(b.data.id)) - Number(a.id === String(a.data.id)));
+      const isValidId = (id: number) => Number.isSafeInteger(id) && id > 0;
+      let lastId = docs.reduce((max, d) => isValidId(d.data.id) ? Math.max(max, d.data.id) : max, 0);
+      const used = new Set<number>();
+      const staying = new Set<string>();
+      const pending = docs.filter(d => {
+        const unique = isValidId(d.data.id) && !used.has(d.data.id);
+        if (unique) used.add(d.data.id);
+        else staying.add(d.id);
+        return unique && d.id !== String(d.data.id);
+      });
+      // A move onto a document that stays would overwrite it: that document stays too, which can block another move
+      let blocked = pending.filter(d => staying.has(String(d.data.id)));
+      while (blocked.length > 0) {
+        blocked.forEach(d => staying.add(d.id));
+        blocked = pending.filter(d => !staying.has(d.id) && staying.has(String(d.data.id)));
+      }
+      const moved = await moveDocuments(repository, pending.filter(d => !staying.has(d.id)).map(d => ({ from: d.id, to: String(d.data.id), data: d.data })));
+      const conflicts = docs.filter(d => staying.has(d.id) && d.id !== String(d.data.id)).map(d =>
+        `${repository.collection}/${d.id} (id ${d.data.id}, free id ${++lastId}${referencedBy[repository.collection] ? `, referenced by ${referencedBy[repository.collection]}` : ''})`);
+      await runTransaction(async (transaction) => {
+        const counter = await transaction.get(repositories.counters, repository.collection);
+        transaction.set(repositories.counters, repository.collection, { value: Math.max(counter?.value || 0, lastId) });
+      });
+      return { moved, conflicts };
+    };
+    try {
+      const results: { collection: string; moved: number; conflicts: string[] }[] = [];
+      for (const repository of [repositories.employees, repositories.teams, repositories.users, repositories.trainings, repositories.swapRequests, repositories.leaveRequests, repositories.leaveAdjustments] as Repository<{ id: number }>[]) {
+        results.push({ collection: repository.collection, ...await moveToOwnIds(repository) });
+      }
+      // Duplicated bonuses of a month are dropped, the one already under the composite id is kept
+      const bonusIds = new Set<string>();
+      const bonusMoves = (await repositories.bonuses.list())
+        .sort((a, b) => Number(b.id === b.data.id) - Number(a.id === a.data.id))
+        .map(d => {
+          const id = `${d.data.employeeId}_${d.data.month}`;
+          const to = bonusIds.has(id) ? null : id;
+          bonusIds.add(id);
+          return { from: d.id, to, data: { ...d.data, id } };
+        })
+        .filter(m => m.from !== m.to);
+      results.push({ collection: repositories.bonuses.collection, moved: await moveDocuments(repositories.bonuses, bonusMoves), conflicts: [] });
+      const summary = results.filter(r => r.moved > 0).map(r => `${r.collection}: ${r.moved} moved`);
+      if (summary.length > 0) addLog('MIGRATE_IDS', `Stored documents under their own ids (${summary.join('; ')})`);
+      const conflicts = results.flatMap(r => r.conflicts);
+      if (conflicts.length > 0) {
+        addLog('MIGRATE_IDS_CONFLICT', `Documents with a shared or invalid id, left in place: ${conflicts.join('; ')}`);
+        notify(settings.language === 'fr'
+          ? `${conflicts.length} document(s) ont un identifiant en double ou invalide : voir le journal d'audit`
+          : `${conflicts.length} document(s) have a duplicated or invalid id: see the audit log`, 'error');
+        return;
+      }
+      await repositories.settings.update({ idSchemaVersion: 1 });
+    } catch (e) {
+      hasMigratedIds.current = false;
+      console.warn("Maintenance: Failed to migrate document ids", e);
+    }
+  };
+
+  /**
+   * Details of a cell (half-days, partial absence, note, attachment), merged into the existing ones.
+   * They apply to the published value and are not part of drafts.
+   */
+  const setPlanningCellMeta = async (key: string, patch: Partial<PlanningCellMeta>) => {
+    if (isBlockedByLock([key])) return;
+    const { employeeId, date } = parsePlanningKey(key);
+    const merged: PlanningCellMeta = JSON.parse(JSON.stringify({ ...planningMeta[key], ...patch }));
+    // A half-day or partial absence only holds for the value it is set on
+    if ('secondHalf' in patch || 'partialAbsence' in patch) merged.detailsFor = planning[key] || null;
+    try {
+      if (hasCellDetails(merged)) await repositories.planningMeta.set(key, { ...merged, employeeId, date });
+      else await repositories.planningMeta.remove(key);
+      const details: string[] = [];
+      if ('secondHalf' in patch || 'partialAbsence' in patch) {
+        details.push(merged.secondHalf ? `afternoon "${merged.secondHalf}"`
+          : merged.partialAbsence ? `${merged.partialAbsence.absence} ${merged.partialAbsence.start}-${merged.partialAbsence.end}`
+          : 'full day');
+      }
+      if ('note' in patch) details.push(merged.note ? `note "${merged.note}"` : 'note removed');
+      if ('attachment' in patch) details.push(merged.attachment ? `attachment "${merged.attachment.name}"` : 'attachment removed');
+      addLog('UPDATE_PLANNING_DETAIL', `${getEmployeeLabel(employeeId)} ${date}: ${details.join(', ')}`);
+    } catch (e) { handleWriteError(e, "updating planning details"); }
+  };
+
   const setPlanningItem = async (employeeId: number, dateStr: string, shiftName: string | null) => {
     const key = `${employeeId}_${dateStr}`;
+    const isDraft = planningMode === 'draft';
+    const previous = (isDraft ? draftPlanning[key] : planning[key]) || null;
+    if (previous === shiftName || isBlockedForViewer() || isBlockedByLock([key])) return;
+    if (isBlockedByLaborRules({ [key]: shiftName }, isDraft ? draftPlanning : planning)) return;
+    queuePlanningWrite({ [key]: { previous, next: shiftName } }, 'UPDATE_PLANNING', `${getEmployeeLabel(employeeId)} ${dateStr}: "${previous || 'empty'}" -> "${shiftName || 'empty'}"`, isDraft);
+  };
+
+  // Writes many "employeeId_YYYY-MM-DD" cells at once (null clears the cell). A queued change is saved in one transaction,
+  // which Firestore caps at 500 operations, and each cell takes two (the cell and its history entry).
+  const setPlanningItems = async (changes: Record<string, string | null>, action: string, details: string) => {
+    const keys = Object.keys(changes);
+    const isDraft = planningMode === 'draft';
+    if (keys.length === 0 || isBlockedForViewer() || isBlockedByLock(keys) || isBlockedByLaborRules(changes, isDraft ? draftPlanning : planning)) return;
+    const base = isDraft ? draftPlanning : planning;
+    const parts = Math.ceil(keys.length / 250);
+    for (let i = 0; i < keys.length; i += 250) {
+      const cells: PendingPlanningWrite['cells'] = {};
+      keys.slice(i, i + 250).forEach(key => { cells[key] = { previous: base[key] || null, next: changes[key] }; });
+      queuePlanningWrite(cells, action, parts > 1 ? `${details} [part ${i / 250 + 1}/${parts}]` : details, isDraft);
+    }
+    if (isOnline) notify(settings.language === 'fr' ? `${keys.length} cellule(s) mise(s) à jour` : `${keys.length} cell(s) updated`);
+    else notify(settings.language === 'fr' ? `${keys.length} cellule(s) en attente de connexion` : `${keys.length} cell(s) waiting for the connection`, 'info');
+  };
+
+  // Planning cell changes go through the queue: shown at once, then saved in order, and kept while offline
+  const queuePlanningWrite = (cells: PendingPlanningWrite['cells'], action: string, details: string, draft: boolean) => {
+    setPendingWrites(prev => [...prev, {
+      id: Math.max(Date.now(), ...prev.map(w => w.id + 1)),
+      cells, draft, action, details,
+      user: firebaseUser?.email || 'Unknown',
+      createdAt: new Date().toISOString()
+    }]);
+  };
+
+  /**
+   * Saves a queued change in a transaction. Cells changed by someone else since the change was made (their value is
+   * neither the one the change was made on nor the queued one) are left as they are and reported as conflicts.
+   */
+  const savePendingWrite = async (write: PendingPlanningWrite) => {
+    const keys = Object.keys(write.cells);
+    let conflicts: PlanningConflict[] = [];
+    let saved = 0;
+    await runTransaction(async (transaction) => {
+      conflicts = [];
+      saved = 0;
+      const published = await Promise.all(keys.map(key => transaction.get(repositories.planning, key)));
+      const drafts = write.draft ? await Promise.all(keys.map(key => transaction.get(repositories.planningDrafts, key))) : [];
+      keys.forEach((key, index) => {
+        const publishedValue = published[index]?.shift || null;
+        const draft = drafts[index];
+        const current = draft ? draft.shift || null : publishedValue;
+        const { previous, next } = write.cells[key];
+        if (current === next) return;
+        if (current !== previous) {
+          const { employeeId, date } = parsePlanningKey(key);
+          conflicts.push({
+            id: `${write.id}_${key}`, key, employeeId, date, expected: previous, found: current, attempted: next,
+            draft: write.draft, action: write.action, user: write.user, createdAt: write.createdAt, detectedAt: new Date().toISOString()
+          });
+          return;
+        }
+        if (write.draft) {
+          // A draft identical to the published value is no longer a change
+          if (publishedValue === next) transaction.delete(repositories.planningDrafts, key);
+          else transaction.set(repositories.planningDrafts, key, { shift: next });
+        } else if (next) {
+          transaction.set(repositories.planning, key, toPlanningDocument(key, next));
+        } else {
+          transaction.delete(repositories.planning, key);
+        }
+        addHistoryToBatch(transaction, key, current, next, write.action, write.draft);
+        saved++;
+      });
+    });
+    return { conflicts, saved };
+  };
+
+  // The queue is saved one change at a time: each save updates the queue, which starts the next one
+  useEffect(() => {
+    const write = ownPendingWrites[0];
+    if (!write || !isOnline || isSavingQueue.current) return;
+    isSavingQueue.current = true;
+    setIsSyncing(true);
+    (async () => {
+      let done = true;
+      try {
+        const { conflicts, saved } = await savePendingWrite(write);
+        const conflictNote = conflicts.length > 0 ? ` (${conflicts.length} conflict(s) not applied)` : '';
+        if (saved > 0) addLog(write.action, `${write.details}${write.draft ? ' [draft]' : ''}${conflictNote}`);
+        if (conflicts.length > 0) {
+          setPlanningConflicts(prev => [...prev, ...conflicts]);
+          notify(settings.language === 'fr'
+            ? `${conflicts.length} cellule(s) modifiée(s) entre-temps par un autre utilisateur : non enregistrée(s)`
+            : `${conflicts.length} cell(s) changed meanwhile by another user: not saved`, 'error');
+        }
+      } catch (e) {
+        // Kept for the next attempt when the connection is the problem
+        done = !isRetryableError(e);
+        if (done) handleWriteError(e, "updating planning");
+      }
+      isSavingQueue.current = false;
+      setIsSyncing(false);
+      if (done) setPendingWrites(prev => prev.filter(w => w.id !== write.id));
+    })();
+  }, [ownPendingWrites, isOnline, retryTick]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // The browser can report a connection that does not reach the server: waiting changes are retried regularly
+  useEffect(() => {
+    if (ownPendingWrites.length === 0) return;
+    const timer = setInterval(() => setRetryTick(tick => tick + 1), 30000);
+    return () => clearInterval(timer);
+  }, [ownPendingWrites.length > 0]);
+
+  useEffect(() => { storeList(PENDING_WRITES_KEY, pendingWrites); }, [pendingWrites]);
+  useEffect(() => { storeList(PLANNING_CONFLICTS_KEY, planningConflicts); }, [planningConflicts]);
+
+  const retryPendingWrites = () => setRetryTick(tick => tick + 1);
+
+  const dismissPlanningConflicts = (ids: string[]) => {
+    setPlanningConflicts(prev => prev.filter(c => !ids.includes(c.id)));
+  };
+
+  // Queues the rejected value again, this time on top of the value found
+  const keepPlanningConflictValue = (conflict: PlanningConflict) => {
+    const base = conflict.draft ? draftPlanning : planning;
+    if (isBlockedByLock([conflict.key]) || isBlockedByLaborRules({ [conflict.key]: conflict.attempted }, base)) return;
+    queuePlanningWrite(
+      { [conflict.key]: { previous: base[conflict.key] || null, next: conflict.attempted } },
+      conflict.action,
+      `${getEmployeeLabel(conflict.employeeId)} ${conflict.date}: "${base[conflict.key] || 'empty'}" -> "${conflict.attempted || 'empty'}" (conflict resolved)`,
+      conflict.draft
+    );
+    dismissPlanningConflicts([conflict.id]);
+  };
+
+  // Draft keys for a team (or every team) between two dates
+  const getDraftKeys = (teamId: number | null, from: string, to: string) => {
+    return Object.keys(planningDrafts).filter(key => {
+      const { employeeId, date } = parsePlanningKey(key);
+      if (date < from || date > to) return false;
+      if (teamId === null) return true;
+      return employees.find(e => e.id == employeeId)?.teamId == teamId;
+    });
+  };
+
+  const publishPlanning = async (teamId: number | null, from: string, to: string) => {
+    const keys = getDraftKeys(teamId, from, to);
+    if (keys.length === 0) return;
+    const changes: Record<string, string | null> = {};
+    keys.forEach(key => { changes[key] = planningDrafts[key]; });
+    if (isBlockedByLock(keys) || isBlockedByLaborRules(changes)) return;
     try {
-      if (shiftName) {
-        await setDoc(doc(db, "planning", key), { shift: shiftName });
-      } else {
-        await deleteDoc(doc(db, "planning", key));
+      // Each cell takes three operations (publish, draft removal, history)
+      for (let i = 0; i < keys.length; i += 160) {
+        await commitBatch(batch => keys.slice(i, i + 160).forEach(key => {
+          const shiftName = planningDrafts[key];
+          addHistoryToBatch(batch, key, planning[key] || null, shiftName, 'PUBLISH_PLANNING', false);
+          if (shiftName) batch.set(repositories.planning, key, toPlanningDocument(key, shiftName));
+          else batch.delete(repositories.planning, key);
+          batch.delete(repositories.planningDrafts, key);
+        }));
+      }
+      const teamLabel = teamId === null ? 'all teams' : `team ${teams.find(t => t.id == teamId)?.name || teamId}`;
+      addLog('PUBLISH_PLANNING', `Published ${keys.length} cells for ${teamLabel} from ${from} to ${to}`);
+      notify(settings.language === 'fr' ? `${keys.length} cellule(s) publiée(s)` : `${keys.length} cell(s) published`);
+    } catch (e) { handleWriteError(e, "publishing planning"); }
+  };
+
+  const discardPlanningDrafts = async (teamId: number | null, from: string, to: string) => {
+    const keys = getDraftKeys(teamId, from, to);
+    if (keys.length === 0) return;
+    try {
+      for (let i = 0; i < keys.length; i += 500) {
+        await commitBatch(batch => keys.slice(i, i + 500).forEach(key => batch.delete(repositories.planningDrafts, key)));
       }
-    } catch (e) { console.error("Error updating planning", e); }
+      const teamLabel = teamId === null ? 'all teams' : `team ${teams.find(t => t.id == teamId)?.name || teamId}`;
+      addLog('DISCARD_PLANNING_DRAFT', `Discarded ${keys.length} draft cells for ${teamLabel} from ${from} to ${to}`);
+      notify(settings.language === 'fr' ? `${keys.length} brouillon(s) supprimé(s)` : `${keys.length} draft(s) discarded`);
+    } catch (e) { handleWriteError(e, "discarding drafts"); }
+  };
+
+  const getEmployeeLabel = (employeeId: number) => {
+    const emp = employees.find(e => e.id == employeeId);
+    return emp ? `${emp.firstName} ${emp.lastName}` : String(employeeId);
+  };
+
+  const describeSwap = (request: SwapRequest) =>
+    `${getEmployeeLabel(request.requesterId)} ${request.requesterDate} "${request.requesterShift}" <-> ${getEmployeeLabel(request.targetId)} ${request.targetDate} "${request.targetShift || 'empty'}"`;
+
+  const createSwapRequest = async (data: Pick<SwapRequest, 'requesterId' | 'requesterDate' | 'targetId' | 'targetDate' | 'comment'>) => {
+    const requesterShift = planning[planningKey(data.requesterId, data.requesterDate)];
+    if (!requesterShift) {
+      notify(settings.language === 'fr' ? 'Aucun shift à échanger à cette date' : 'No shift to swap on that date', 'error');
+      return;
+    }
+    if (isBlockedByLock(getSwapKeys(data))) return;
+    if (getSwapAbsenceKeys(planning, data, settings).length > 0) {
+      notify(settings.language === 'fr' ? 'Échange impossible : une absence est posée sur l\'un des jours échangés' : 'Swap not possible: an absence is set on one of the swapped days', 'error');
+      return;
+    }
+    try {
+      const id = await nextId(repositories.swapRequests);
+      const request: SwapRequest = {
+        ...data,
+        id,
+        requesterShift,
+        targetShift: planning[planningKey(data.targetId, data.targetDate)] || null,
+        cells: snapshotSwapCells(planning, data),
+        status: 'pending_colleague',
+        createdBy: firebaseUser?.email || 'Unknown',
+        createdAt: new Date().toISOString()
+      };
+      await repositories.swapRequests.set(String(id), request);
+      addLog('CREATE_SWAP_REQUEST', describeSwap(request));
+      notify(settings.language === 'fr' ? 'Demande d\'échange envoyée' : 'Swap request sent');
+    } catch (e) { handleWriteError(e, "creating swap request"); }
+  };
+
+  const updateSwapStatus = async (request: SwapRequest, status: SwapRequest['status'], action: string, reason: string = '') => {
+    const data: Partial<SwapRequest> = {
+      status,
+      decidedBy: firebaseUser?.email || 'Unknown',
+      decidedAt: new Date().toISOString(),
+      ...(reason.trim() ? { reason: reason.trim() } : {})
+    };
+    try {
+      await repositories.swapRequests.update(String(request.id), data);
+      addLog(action, `${describeSwap(request)}${reason.trim() ? `. Reason: ${reason.trim()}` : ''}`);
+      notify(settings.language === 'fr' ? 'Demande mise à jour' : 'Request updated');
+    } catch (e) { handleWriteError(e, "updating swap request"); }
+  };
+
+  // Colleague's answer: an accepted request moves on to the team leader
+  const respondToSwapRequest = async (id: number, accept: boolean) => {
+    const request = swapRequests.find(r => r.id === id);
+    if (!request || request.status !== 'pending_colleague') return;
+    if (getCurrentUserRecord()?.employeeId != request.targetId) {
+      notify(settings.language === 'fr' ? 'Seul le collègue concerné peut répondre' : 'Only the colleague involved can answer', 'error');
+      return;
+    }
+    if (accept) await updateSwapStatus(request, 'pending_approval', 'ACCEPT_SWAP');
+    else await updateSwapStatus(request, 'rejected', 'DECLINE_SWAP');
+  };
+
+  const cancelSwapRequest = async (id: number) => {
+    const request = swapRequests.find(r => r.id === id);
+    if (!request || (request.status !== 'pending_colleague' && request.status !== 'pending_approval')) return;
+    await updateSwapStatus(request, 'cancelled', 'CANCEL_SWAP');
+  };
+
+  /**
+   * Team leader (or admin) decision. Approval re-validates labor rules, then exchanges the cells in a transaction
+   * that fails if one of the swapped shifts changed since the request was made.
+   */
+  const decideSwapRequest = async (id: number, approve: boolean, reason: string = '') => {
+    const request = swapRequests.find(r => r.id === id);
+    if (!request || request.status !== 'pending_approval') return;
+    if (!canApproveFor([request.requesterId, request.targetId])) {
+      notify(settings.language === 'fr' ? 'Seul le chef d\'équipe peut valider' : 'Only the team leader can approve', 'error');
+      return;
+    }
+    if (!approve) {
+      await updateSwapStatus(request, 'rejected', 'REJECT_SWAP', reason);
+      return;
+    }
+
+    const keys = getSwapKeys(request);
+    if (isBlockedByLock(keys) || isBlockedByLaborRules(buildSwapChanges(planning, request))) return;
+    try {
+      await runTransaction(async (transaction) => {
+        const current: PlanningData = {};
+        for (const key of keys) {
+          const cell = await transaction.get(repositories.planning, key);
+          if (cell) current[key] = cell.shift;
+        }
+        if (isSwapOutdated(current, request)) {
+          throw new Error(settings.language === 'fr' ? 'le planning a changé depuis la demande' : 'the planning changed since the request');
+        }
+        if (getSwapAbsenceKeys(current, request, settings).length > 0) {
+          throw new Error(settings.language === 'fr' ? 'une absence est posée sur l\'un des jours échangés' : 'an absence is set on one of the swapped days');
+        }
+        const changes = buildSwapChanges(current, request);
+        Object.keys(changes).forEach(key => {
+          const shiftName = changes[key];
+          if (shiftName) transaction.set(repositories.planning, key, toPlanningDocument(key, shiftName));
+          else transaction.delete(repositories.planning, key);
+          addHistoryToBatch(transaction, key, current[key] || null, shiftName, 'APPROVE_SWAP', false);
+        });
+        transaction.update(repositories.swapRequests, String(request.id), {
+          status: 'approved',
+          decidedBy: firebaseUser?.email || 'Unknown',
+          decidedAt: new Date().toISOString()
+        });
+      });
+      addLog('APPROVE_SWAP', describeSwap(request));
+      notify(settings.language === 'fr' ? 'Échange validé' : 'Swap approved');
+    } catch (e) { handleWriteError(e, "approving swap"); }
+  };
+
+  const describeLeave = (request: LeaveRequest) =>
+    `${getEmployeeLabel(request.employeeId)} - ${request.absenceType} ${request.from} -> ${request.to}`;
+
+  const createLeaveRequest = async (data: Pick<LeaveRequest, 'employeeId' | 'from' | 'to' | 'absenceType' | 'comment'>) => {
+    if (data.from > data.to) {
+      notify(settings.language === 'fr' ? 'La date de début doit être antérieure à la date de fin.' : 'Start date must be before end date.', 'error');
+      return;
+    }
+    // Approval is written in a single batch (three operations per day)
+    if (getDateRange(data.from, data.to).length > 150) {
+      notify(settings.language === 'fr' ? 'Une demande ne peut pas dépasser 150 jours' : 'A request cannot exceed 150 days', 'error');
+      return;
+    }
+    const overlapping = leaveRequests.some(r => r.employeeId == data.employeeId && r.status === 'pending' && r.from <= data.to && r.to >= data.from);
+    if (overlapping) {
+      notify(settings.language === 'fr' ? 'Une demande en attente couvre déjà ces dates' : 'A pending request already covers these dates', 'error');
+      return;
+    }
+    try {
+      const id = await nextId(repositories.leaveRequests);
+      const request: LeaveRequest = {
+        ...data,
+        id,
+        status: 'pending',
+        createdBy: firebaseUser?.email || 'Unknown',
+        createdAt: new Date().toISOString()
+      };
+      await repositories.leaveRequests.set(String(id), request);
+      addLog('CREATE_LEAVE_REQUEST', describeLeave(request));
+      notify(settings.language === 'fr' ? 'Demande de congé envoyée' : 'Leave request sent');
+    } catch (e) { handleWriteError(e, "creating leave request"); }
+  };
+
+  const cancelLeaveRequest = async (id: number) => {
+    const request = leaveRequests.find(r => r.id === id);
+    if (!request || request.status !== 'pending') return;
+    try {
+      await repositories.leaveRequests.update(String(id), { status: 'cancelled', decidedBy: firebaseUser?.email || 'Unknown', decidedAt: new Date().toISOString() });
+      addLog('CANCEL_LEAVE_REQUEST', describeLeave(request));
+      notify(settings.language === 'fr' ? 'Demande annulée' : 'Request cancelled');
+    } catch (e) { handleWriteError(e, "cancelling leave request"); }
+  };
+
+  /**
+   * Team leader (or admin) decision. Approval writes the absence into the published planning, drops any draft
+   * left on those cells and closes the request, all in one batch.
+   */
+  const decideLeaveRequest = async (id: number, approve: boolean, comment: string = '') => {
+    const request = leaveRequests.find(r => r.id === id);
+    if (!request || request.status !== 'pending') return;
+    if (!canApproveFor([request.employeeId])) {
+      notify(settings.language === 'fr' ? 'Seul le chef d\'équipe peut valider' : 'Only the team leader can approve', 'error');
+      return;
+    }
+    const decision: Partial<LeaveRequest> = {
+      status: approve ? 'approved' : 'rejected',
+      decidedBy: firebaseUser?.email || 'Unknown',
+      decidedAt: new Date().toISOString(),
+      ...(comment.trim() ? { decisionComment: comment.trim() } : {})
+    };
+    const changes = approve ? buildLeaveChanges(planning, request, settings) : {};
+    const keys = Object.keys(changes);
+    if (keys.length > 0 && isBlockedByLock(keys)) return;
+    try {
+      await commitBatch(batch => {
+        keys.forEach(key => {
+          addHistoryToBatch(batch, key, planning[key] || null, changes[key], 'APPROVE_LEAVE', false);
+          batch.set(repositories.planning, key, toPlanningDocument(key, changes[key]));
+          if (key in planningDrafts) batch.delete(repositories.planningDrafts, key);
+        });
+        batch.update(repositories.leaveRequests, String(id), decision);
+      });
+      addLog(approve ? 'APPROVE_LEAVE' : 'REJECT_LEAVE', `${describeLeave(request)}${comment.trim() ? `. Comment: ${comment.trim()}` : ''}`);
+      notify(approve
+        ? (settings.language === 'fr' ? `Congé validé (${keys.length} jour(s))` : `Leave approved (${keys.length} day(s))`)
+        : (settings.language === 'fr' ? 'Demande refusée' : 'Request rejected'));
+    } catch (e) { handleWriteError(e, "deciding leave request"); }
+  };
+
+  const addLeaveAdjustment = async (data: Pick<LeaveAdjustment, 'employeeId' | 'absenceType' | 'date' | 'days' | 'reason'>) => {
+    if (!data.days || !data.reason.trim()) {
+      notify(settings.language === 'fr' ? 'Un nombre de jours et un motif sont requis' : 'A number of days and a reason are required', 'error');
+      return;
+    }
+    try {
+      const id = await nextId(repositories.leaveAdjustments);
+      const adjustment: LeaveAdjustment = {
+        ...data,
+        id,
+        reason: data.reason.trim(),
+        user: firebaseUser?.email || 'Unknown',
+        timestamp: new Date().toISOString()
+      };
+      await repositories.leaveAdjustments.set(String(id), adjustment);
+      addLog('ADJUST_LEAVE_BALANCE', `${getEmployeeLabel(data.employeeId)} - ${data.absenceType} ${data.days > 0 ? '+' : ''}${data.days} on ${data.date}: ${adjustment.reason}`);
+      notify(settings.language === 'fr' ? 'Solde ajusté' : 'Balance adjusted');
+    } catch (e) { handleWriteError(e, "adjusting leave balance"); }
   };
 
   const addUser = async (user: Omit<User, 'id'>) => {
-    const id = Date.now();
     try {
-      await setDoc(doc(db, "users", String(id)), { ...user, id, emailVerified: true });
+      const id = await nextId(repositories.users);
+      await commitBatch(batch => {
+        batch.set(repositories.users, String(id), { ...user, id, emailVerified: true });
+        writeUserRole(batch, user);
+      });
       addLog('CREATE_USER', `Created user ${user.name}`);
       notify('User added');
     } catch (e) { handleWriteError(e, "adding user"); }
@@ -561,18 +1337,23 @@ export const useDataStore = () => {
 
   const updateUser = async (id: number, data: Partial<User>) => {
     if (id === 0 && firebaseUser && firebaseUser.email) {
-         const newId = Date.now();
-         const newUser: User = {
-             id: newId,
-             name: data.name || firebaseUser.displayName || firebaseUser.email.split('@')[0] || 'User',
-             email: firebaseUser.email,
-             role: data.role || 'viewer',
-             active: data.active ?? true,
-             employeeId: data.employeeId,
-             emailVerified: firebaseUser.emailVerified
-         };
          try {
-             await setDoc(doc(db, "users", String(newId)), newUser);
+             const newId = await nextId(repositories.users);
+             const newUser: User = {
+                 id: newId,
+                 name: data.name || firebaseUser.displayName || firebaseUser.email.split('@')[0] || 'User',
+                 email: firebaseUser.email,
+                 role: data.role || 'viewer',
+                 active: data.active ?? true,
+                 employeeId: data.employeeId,
+                 emailVerified: firebaseUser.emailVerified
+             };
+             // Only the first account gets the virtual admin role: it claims it in the rules as well
+             await commitBatch(batch => {
+                 batch.set(repositories.users, String(newId), newUser);
+                 if (newUser.role === 'admin') claimFirstAdmin(batch, newUser.email);
+                 else writeUserRole(batch, newUser);
+             });
              notify("User profile created from virtual state");
          } catch (e) { handleWriteError(e, "creating user profile"); }
          return;
@@ -580,9 +1361,13 @@ export const useDataStore = () => {
     const oldUser = users.find(u => u.id == id);
     if (!oldUser) return;
     const diff = getDiff(oldUser, { ...oldUser, ...data });
-    const docRef = (oldUser as any)._docId ? doc(db, "users", (oldUser as any)._docId) : doc(db, "users", String(id));
     try {
-      await updateDoc(docRef, data);
+      const updated = { ...oldUser, ...data };
+      await commitBatch(batch => {
+        batch.update(repositories.users, String(id), data);
+        if (updated.email.toLowerCase() !== oldUser.email.toLowerCase()) batch.delete(repositories.userRoles, oldUser.email.toLowerCase());
+        writeUserRole(batch, updated);
+      });
       addLog('UPDATE_USER', `Updated user ID ${id}: ${diff}`);
       notify('User updated');
     } catch (e) { handleWriteError(e, "updating user"); }
@@ -591,9 +1376,11 @@ export const useDataStore = () => {
   const deleteUser = async (id: number) => {
     const user = users.find(u => u.id == id);
     if (!user) return;
-    const docId = (user as any)?._docId;
     try {
-      await robustDelete("users", id, docId);
+      await commitBatch(batch => {
+        batch.delete(repositories.users, String(id));
+        batch.delete(repositories.userRoles, user.email.toLowerCase());
+      });
       addLog('DELETE_USER', `Deleted user ${user?.name} (${id})`);
       notify('User deleted');
     } catch (e) { handleWriteError(e, "deleting user"); }
@@ -603,20 +1390,17 @@ export const useDataStore = () => {
     const id = `${employeeId}_${month}`;
     try {
       if (amount === 0) {
-        try { await deleteDoc(doc(db, "bonuses", id)); } catch(e) {}
-        const q = query(collection(db, "bonuses"), where("employeeId", "==", employeeId), where("month", "==", month));
-        const snap = await getDocs(q);
-        snap.forEach(d => deleteDoc(d.ref));
+        await repositories.bonuses.remove(id);
       } else {
-        await setDoc(doc(db, "bonuses", id), { id, employeeId, month, amount });
+        await repositories.bonuses.set(id, { id, employeeId, month, amount });
       }
     } catch (e) { console.error("Error setting bonus", e); }
   };
 
   const addTraining = async (training: Omit<Training, 'id'>) => {
-    const id = Date.now();
     try {
-      await setDoc(doc(db, "trainings", String(id)), { ...training, id });
+      const id = await nextId(repositories.trainings);
+      await repositories.trainings.set(String(id), { ...training, id });
       addLog('CREATE_TRAINING', `Created training ${training.title}`);
       notify('Training created');
     } catch (e) { handleWriteError(e, "creating training"); }
@@ -625,18 +1409,16 @@ export const useDataStore = () => {
   const updateTraining = async (id: number, data: Partial<Training>) => {
       const old = trainings.find(t => t.id == id);
       if(!old) return;
-      const docRef = (old as any)._docId ? doc(db, "trainings", (old as any)._docId) : doc(db, "trainings", String(id));
       try {
-          await updateDoc(docRef, data);
+          await repositories.trainings.update(String(id), data);
           notify('Training updated');
       } catch (e) { handleWriteError(e, "updating training"); }
   };
 
   const deleteTraining = async (id: number) => {
       const t = trainings.find(t => t.id == id);
-      const docId = (t as any)?._docId;
       try {
-          await robustDelete("trainings", id, docId);
+          await repositories.trainings.remove(String(id));
           addLog('DELETE_TRAINING', `Deleted training ${t?.title || id}`);
           notify('Training deleted');
       } catch (e) { handleWriteError(e, "deleting training"); }
@@ -651,17 +1433,20 @@ export const useDataStore = () => {
         id: 0,
         name: firebaseUser.displayName || firebaseUser.email.split('@')[0] || 'User',
         email: firebaseUser.email,
-        role: users.length === 0 ? 'admin' : 'viewer',
-        active: users.length === 0,
+        role: hasNoUsers ? 'admin' : 'viewer',
+        active: hasNoUsers,
         emailVerified: firebaseUser.emailVerified
     };
     return [virtualUser, ...users];
-  }, [users, firebaseUser]);
+  }, [users, firebaseUser, hasNoUsers]);
 
   return {
-    employees, teams, users: effectiveUsers, settings, planning, bonuses, logs, trainings, notifications,
+    employees, teams, users: effectiveUsers, settings, planning, planningDrafts, draftRanges: draftRanges || [], planningMeta,
+    pendingWrites: ownPendingWrites, planningConflicts: ownPlanningConflicts, isOnline, isSyncing, retryPendingWrites, dismissPlanningConflicts, keepPlanningConflictValue, swapRequests, leaveRequests, leaveAdjustments, draftPlanning, planningMode, setPlanningMode, bonuses, logs, trainings, notifications,
     authLoading, usersLoading, settingsLoading, permissionError, firebaseUser, login, signUp, resendVerification, logout, notify,
-    addEmployee, updateEmployee, deleteEmployee, addTeam, updateTeam, deleteTeam, updateSettings, setPlanningItem,
-    addUser, updateUser, deleteUser, setBonus, addTraining, updateTraining, deleteTraining
+    addEmployee, updateEmployee, deleteEmployee, addTeam, updateTeam, deleteTeam, repairTeamIntegrity, updateSettings, setPlanningItem, setPlanningItems,
+    publishPlanning, discardPlanningDrafts, setPlanningLock, getPlanningHistory, setPlanningCellMeta, setPlanningWindow,
+    createSwapRequest, respondToSwapRequest, cancelSwapRequest, decideSwapRequest,
+    createLeaveRequest, cancelLeaveRequest, decideLeaveRequest, addLeaveAdjustment, addUser, updateUser, deleteUser, setBonus, addTraining, updateTraining, deleteTraining
   };
 };
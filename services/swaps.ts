@@ -0,0 +1,53 @@
+import { AppSettings, PlanningData, SwapRequest } from '../types';
+import { planningKey } from './planning';
+
+type SwapCells = Pick<SwapRequest, 'requesterId' | 'requesterDate' | 'targetId' | 'targetDate'>;
+
+// Every cell a swap reads or writes: both employees on each day involved
+export const getSwapKeys = (request: SwapCells) => {
+  const dates = Array.from(new Set([request.requesterDate, request.targetDate]));
+  return dates.flatMap(date => [planningKey(request.requesterId, date), planningKey(request.targetId, date)]);
+};
+
+/**
+ * The two employees exchange their cells on every day involved. A same-day swap touches two cells;
+ * a swap across two days touches four (each employee takes over the other's day).
+ */
+export const buildSwapChanges = (planning: PlanningData, request: SwapCells) => {
+  const changes: Record<string, string | null> = {};
+  Array.from(new Set([request.requesterDate, request.targetDate])).forEach(date => {
+    const requesterKey = planningKey(request.requesterId, date);
+    const targetKey = planningKey(request.targetId, date);
+    const requesterValue = planning[requesterKey] || null;
+    const targetValue = planning[targetKey] || null;
+    if (requesterValue === targetValue) return;
+    changes[requesterKey] = targetValue;
+    changes[targetKey] = requesterValue;
+  });
+  return changes;
+};
+
+// Cells exchanged besides the two the request names: the requester on the target date and the colleague on the requester date
+export const getExtraSwapKeys = (request: SwapCells) => request.requesterDate === request.targetDate
+  ? []
+  : [planningKey(request.requesterId, request.targetDate), planningKey(request.targetId, request.requesterDate)];
+
+// Values of every cell of the swap, stored with the request
+export const snapshotSwapCells = (planning: PlanningData, request: SwapCells) =>
+  Object.fromEntries(getSwapKeys(request).map(key => [key, planning[key] || null]));
+
+// Extra cells holding an absence: a cross-day swap would hand an approved leave over to the other employee
+export const getSwapAbsenceKeys = (planning: PlanningData, request: SwapCells, settings: AppSettings) =>
+  getExtraSwapKeys(request).filter(key => settings.absenceTypes.some(a => a.name === planning[key]));
+
+/**
+ * True when one of the cells of the swap changed since the request was made. Requests made before every cell was
+ * recorded only know the two named ones.
+ */
+export const isSwapOutdated = (planning: PlanningData, request: SwapRequest) => {
+  const cells = request.cells || {
+    [planningKey(request.requesterId, request.requesterDate)]: request.requesterShift,
+    [planningKey(request.targetId, request.targetDate)]: request.targetShift
+  };
+  return Object.keys(cells).some(key => (planning[key] || null) !== cells[key]);
+};
@@ -0,0 +1,64 @@
+import { Employee, Team } from '../types';
+
+export interface TeamIntegrityIssue {
+  kind:
+    | 'missing_member' // employee.teamId points to the team, which does not list the employee
+    | 'stale_member' // the team lists an employee whose teamId is another team or empty
+    | 'multiple_teams' // the employee is listed by several teams
+    | 'unknown_member' // the team lists an employee that does not exist
+    | 'unknown_team' // employee.teamId points to a team that does not exist
+    | 'unknown_leader'; // team.leaderId is not an existing employee
+  teamId: number | null;
+  employeeId: number | null;
+}
+
+export interface TeamIntegrityReport {
+  issues: TeamIntegrityIssue[];
+  teamUpdates: Record<number, Partial<Team>>; // By team id
+  employeeUpdates: Record<number, { teamId: number | null }>; // By employee id
+}
+
+/**
+ * Compares `teams.members`, `teams.leaderId` and `employees.teamId`, and computes the writes that make them agree.
+ * The employee's teamId wins when it points to an existing team; otherwise the employee joins the (first) team
+ * listing it. Members that do not exist and unknown leaders are removed.
+ */
+export const checkTeamIntegrity = (teams: Team[], employees: Employee[]): TeamIntegrityReport => {
+  const report: TeamIntegrityReport = { issues: [], teamUpdates: {}, employeeUpdates: {} };
+  const listingTeams = (empId: number) => teams.filter(t => t.members.some(m => m == empId));
+
+  const targetTeam: Record<number, number | null> = {};
+  employees.forEach(emp => {
+    const listedBy = listingTeams(emp.id);
+    if (listedBy.length > 1) report.issues.push({ kind: 'multiple_teams', teamId: null, employeeId: emp.id });
+    const hasTeamId = emp.teamId !== undefined && emp.teamId !== null && String(emp.teamId) !== '';
+    const ownTeam = hasTeamId ? teams.find(t => t.id == emp.teamId) : undefined;
+    if (hasTeamId && !ownTeam) report.issues.push({ kind: 'unknown_team', teamId: Number(emp.teamId), employeeId: emp.id });
+    targetTeam[emp.id] = ownTeam ? ownTeam.id : listedBy[0]?.id ?? null;
+    if (targetTeam[emp.id] != (hasTeamId ? emp.teamId : null)) report.employeeUpdates[emp.id] = { teamId: targetTeam[emp.id] };
+  });
+
+  teams.forEach(team => {
+    team.members.forEach(memberId => {
+      const emp = employees.find(e => e.id == memberId);
+      if (!emp) report.issues.push({ kind: 'unknown_member', teamId: team.id, employeeId: Number(memberId) });
+      // Employees listed by several teams are already reported as multiple_teams
+      else if (emp.teamId != team.id && listingTeams(emp.id).length === 1) report.issues.push({ kind: 'stale_member', teamId: team.id, employeeId: emp.id });
+    });
+    employees.filter(e => e.teamId == team.id && !team.members.some(m => m == e.id)).forEach(emp => {
+      report.issues.push({ kind: 'missing_member', teamId: team.id, employeeId: emp.id });
+    });
+
+    // Members kept in their order, new ones appended
+    const kept = team.members.filter(m => employees.some(e => e.id == m && targetTeam[e.id] == team.id));
+    const members = Array.from(new Set([...kept.map(Number), ...employees.filter(e => targetTeam[e.id] == team.id).map(e => e.id)]));
+    const update: Partial<Team> = {};
+    if (members.length !== team.members.length || members.some((m, index) => m != team.members[index])) update.members = members;
+    if (team.leaderId !== '' && team.leaderId !== null && team.leaderId !== undefined && !employees.some(e => e.id == team.leaderId)) {
+      report.issues.push({ kind: 'unknown_leader', teamId: team.id, employeeId: Number(team.leaderId) });
+      update.leaderId = '';
+    }
+    if (Object.keys(update).length > 0) report.teamUpdates[team.id] = update;
+  });
+  return report;
+};
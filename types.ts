@@ -8,7 +8,7 @@ export interface Employee {
   category: string;
   assignment: string;
   defaultShift?: string;
-  teamId?: number;
+  teamId?: number | null; // null once removed from a team
   teamFunction?: string;
   isBonusEligible?: boolean;
   exitDate?: string | null;
@@ -22,9 +22,16 @@ export interface Shift {
   color: string;
 }
 
+export interface RotationPattern {
+  id: number;
+  name: string;
+  sequence: string[]; // Shift or absence names, one per day, repeated cyclically
+}
+
 export interface AbsenceType {
   name: string;
   color: string;
+  workedHours?: number; // Hours credited as worked time per day; empty when the absence is not worked time
 }
 
 export interface Holiday {
@@ -33,6 +40,58 @@ export interface Holiday {
   type: 'civil' | 'religious';
 }
 
+export interface LaborRules {
+  enabled: boolean;
+  minRestHours: number; // Between the end of a shift and the start of the next one
+  maxConsecutiveDays: number;
+  maxWeeklyHours: number; // Per calendar week (Monday to Sunday)
+  minWeeklyRestDays: number; // Days without any shift per calendar week
+  mode: 'warn' | 'block';
+}
+
+export type LaborRuleName = 'min_rest' | 'max_consecutive_days' | 'max_weekly_hours' | 'weekly_rest';
+
+export interface RuleViolation {
+  employeeId: number;
+  date: string; // YYYY-MM-DD of the cell the violation is reported on
+  rule: LaborRuleName;
+  value: number; // Measured value (rest hours, consecutive days, weekly hours or rest days)
+}
+
+export interface PremiumRules {
+  nightStart: string; // HH:MM, the window may wrap midnight (21:00 - 06:00)
+  nightEnd: string;
+  weekendDays: number[]; // 0 (Sunday) to 6
+  overtimeTiers: number[]; // Weekly hour thresholds: hours above each one, up to the next, form a tier
+}
+
+export interface CoverageTarget {
+  id: number;
+  teamId: number;
+  shift: string;
+  weekday?: number | null; // 0 (Sunday) to 6; empty applies to every day
+  min: number; // Minimum headcount
+  target: number; // Ideal headcount
+}
+
+export interface LeaveAccrualRule {
+  id: number;
+  absenceType: string;
+  monthlyDays: number; // Days earned per full month of presence
+  carryOverCap: number | null; // Days kept on January 1st; null keeps the whole balance
+}
+
+export interface LeaveAdjustment {
+  id: number;
+  employeeId: number;
+  absenceType: string;
+  date: string;
+  days: number; // Positive credits, negative debits
+  reason: string;
+  user: string;
+  timestamp: string;
+}
+
 export interface Team {
   id: number;
   name: string;
@@ -76,19 +135,100 @@ export interface Training {
 }
 
 export interface AuditLogEntry {
-  id: number;
+  id: string;
   timestamp: string;
   action: string;
   details: string;
   user: string;
 }
 
+export interface PlanningHistoryEntry {
+  id: string;
+  key: string; // "employeeId_YYYY-MM-DD"
+  employeeId: number;
+  date: string;
+  previous: string | null;
+  next: string | null;
+  action: string; // Audit action that produced the change (UPDATE_PLANNING, COPY_PLANNING, ...)
+  draft: boolean;
+  user: string;
+  timestamp: string;
+}
+
+// Planning change made in this browser and not saved yet (offline, or waiting for its turn in the queue)
+export interface PendingPlanningWrite {
+  id: number;
+  cells: Record<string, { previous: string | null; next: string | null }>; // By "employeeId_YYYY-MM-DD"; previous is the value the change was made on
+  draft: boolean;
+  action: string;
+  details: string; // Audit log line, written once the change is saved
+  user: string;
+  createdAt: string;
+}
+
+// Queued cell not saved because someone else changed it in the meantime
+export interface PlanningConflict {
+  id: string;
+  key: string;
+  employeeId: number;
+  date: string;
+  expected: string | null; // Value the queued change was made on
+  found: string | null; // Value saved meanwhile
+  attempted: string | null; // Queued value, not applied
+  draft: boolean;
+  action: string;
+  user: string;
+  createdAt: string; // When the change was made
+  detectedAt: string;
+}
+
+export interface SwapRequest {
+  id: number;
+  requesterId: number; // Employee proposing the swap
+  requesterDate: string;
+  requesterShift: string; // Value of the requester's cell when the request was made
+  targetId: number; // Colleague
+  targetDate: string;
+  targetShift: string | null;
+  cells?: Record<string, string | null>; // Every cell of the swap (see getSwapKeys) when the request was made
+  comment: string;
+  status: 'pending_colleague' | 'pending_approval' | 'approved' | 'rejected' | 'cancelled';
+  createdBy: string;
+  createdAt: string;
+  decidedBy?: string; // Colleague refusing, or team leader approving / rejecting
+  decidedAt?: string;
+  reason?: string;
+}
+
+export interface LeaveRequest {
+  id: number;
+  employeeId: number;
+  from: string;
+  to: string;
+  absenceType: string; // Name of an `AbsenceType`
+  comment: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  createdBy: string;
+  createdAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionComment?: string;
+}
+
 export interface AppSettings {
   categories: string[];
   shifts: Shift[];
   assignments: string[];
   absenceTypes: AbsenceType[]; // Updated to object with color
   holidays: Holiday[]; 
+  rotations: RotationPattern[];
+  laborRules: LaborRules;
+  premiumRules: PremiumRules;
+  coverageTargets: CoverageTarget[];
+  leaveAccrualRules: LeaveAccrualRule[];
+  planningLockedUntil: string | null; // YYYY-MM-DD: planning is read-only up to and including this date
+  planningSchemaVersion: number; // 1 once every planning document carries its employeeId / date / teamId fields, 2 once cell details record their value
+  idSchemaVersion: number; // 1 once every document is stored under its own id and the id counters are set
   dateFormat: string;
   language: 'fr' | 'en';
 }
@@ -97,16 +237,55 @@ export interface PlanningData {
   [key: string]: string; // key is "employeeId_YYYY-MM-DD", value is shiftName
 }
 
+// Firestore document of the `planning` collection, id "employeeId_YYYY-MM-DD"; the fields beside `shift` allow range queries
+export interface PlanningDocument {
+  shift: string;
+  employeeId: number;
+  date: string; // YYYY-MM-DD
+  teamId: number | null; // Team of the employee when the cell was written
+}
+
+// Period a screen displays; only the planning of the requested windows is downloaded
+export interface PlanningWindow {
+  from: string;
+  to: string;
+  employeeId?: number; // Restricts the window to one employee, whose whole history is then loaded
+}
+
+export interface PartialAbsence {
+  absence: string; // Name of an `AbsenceType`
+  start: string; // HH:mm, within the planned shift
+  end: string;
+}
+
+export interface CellAttachment {
+  name: string;
+  url: string; // Link to the document (shared drive, HR system...)
+}
+
+// Extra details of a planning cell, stored under the same "employeeId_YYYY-MM-DD" key as `PlanningData`
+export interface PlanningCellMeta {
+  secondHalf?: string | null; // Afternoon value: the cell value then only covers the morning
+  partialAbsence?: PartialAbsence | null; // Absence during part of the planned shift
+  detailsFor?: string | null; // Cell value the half-day / partial absence were set on; they no longer apply once it changes
+  note?: string | null;
+  attachment?: CellAttachment | null;
+}
+
+export interface PlanningMeta {
+  [key: string]: PlanningCellMeta;
+}
+
 export interface Notification {
   id: number;
   message: string;
   type: 'success' | 'error' | 'info';
 }
 
-export type TabName = 'home' | 'dashboard' | 'employees' | 'planning' | 'settings' | 'users' | 'bonus' | 'audit' | 'training';
+export type TabName = 'home' | 'dashboard' | 'employees' | 'planning' | 'settings' | 'users' | 'bonus' | 'audit' | 'training' | 'swaps' | 'leaves';
 
 export type TranslationKey = 
-  | 'home' | 'dashboard' | 'employees' | 'planning' | 'settings' | 'users' | 'bonus' | 'audit' | 'training'
+  | 'home' | 'dashboard' | 'employees' | 'planning' | 'settings' | 'users' | 'bonus' | 'audit' | 'training' | 'swaps' | 'leaves'
   | 'logout' | 'search' | 'new_employee' | 'filter_category' | 'filter_employee' | 'filter_team'
   | 'stats_total' | 'stats_present' | 'stats_absent'
   | 'welcome_title' | 'welcome_subtitle'